@@ -0,0 +1,32 @@
+import express from 'express';
+import type { RawBodyRequest } from './auth';
+import { DB } from './db';
+import type { PushHub } from './push';
+import { accountsRouter } from './routes/accounts';
+import { friendsRouter } from './routes/friends';
+import { messagesRouter } from './routes/messages';
+import { prekeysRouter } from './routes/prekeys';
+import { presenceRouter } from './routes/presence';
+
+export function createApp(db: DB, push: PushHub) {
+    const app = express();
+    app.disable('x-powered-by');
+    app.use(express.json({
+        limit: '20mb',
+        verify: (req, _res, buf) => {
+            (req as RawBodyRequest).rawBody = buf;
+        },
+    }));
+
+    app.use(accountsRouter(db, push));
+    app.use(messagesRouter(db, push));
+    app.use(friendsRouter(db, push));
+    app.use(presenceRouter(db, push));
+    app.use(prekeysRouter(db));
+
+    app.get('/health', (_req, res) => {
+        res.json({ status: 'OK' });
+    });
+
+    return app;
+}
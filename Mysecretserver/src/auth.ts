@@ -0,0 +1,136 @@
+import { createHash } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { IncomingMessage } from 'http';
+import nacl from 'tweetnacl';
+import { DB, getUser, resolveAlias } from './db';
+
+// Requests signed further away from the server clock than this are rejected
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const KEY_PATTERN = /^[a-f0-9]{64}$/i;
+const NONCE_PATTERN = /^[a-f0-9]{32,64}$/i;
+
+export interface AuthHeaders {
+    id: string;
+    timestamp: string;
+    nonce: string;
+    signature: string;
+}
+
+// Raw JSON body kept by the express.json verify hook, so signatures can cover the exact bytes
+export interface RawBodyRequest extends Request {
+    rawBody?: Buffer;
+}
+
+export function isValidKeyHex(key: unknown): key is string {
+    return typeof key === 'string' && KEY_PATTERN.test(key);
+}
+
+function readHeader(req: IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+export function readAuthHeaders(req: IncomingMessage): AuthHeaders | null {
+    const id = readHeader(req, 'x-ghost-id');
+    const timestamp = readHeader(req, 'x-ghost-timestamp');
+    const nonce = readHeader(req, 'x-ghost-nonce');
+    const signature = readHeader(req, 'x-ghost-signature');
+    if (!id || !timestamp || !nonce || !signature || !NONCE_PATTERN.test(nonce)) return null;
+    return { id, timestamp, nonce, signature };
+}
+
+/**
+ * Verify the Ed25519 signature produced by getAuthHeaders over
+ * "ID:timestamp:nonce:METHOD:path:SHA256(body)".
+ */
+export function verifyRequestSignature(req: Request, headers: AuthHeaders, signingKeyHex: string): boolean {
+    return verifySignedRequest(headers, req.method, req.path, (req as RawBodyRequest).rawBody ?? Buffer.alloc(0), signingKeyHex);
+}
+
+function verifySignedRequest(headers: AuthHeaders, method: string, path: string, body: Buffer, signingKeyHex: string): boolean {
+    const ts = parseInt(headers.timestamp, 10);
+    if (isNaN(ts) || Math.abs(Date.now() - ts) > MAX_CLOCK_SKEW_MS) return false;
+
+    const bodyHash = createHash('sha256').update(body).digest('hex');
+    const message = `${headers.id}:${headers.timestamp}:${headers.nonce}:${method.toUpperCase()}:${path}:${bodyHash}`;
+    return verifyDetachedSignature(message, headers.signature, signingKeyHex);
+}
+
+/**
+ * Record a request nonce. False if the same user already used it inside the replay window;
+ * older nonces are purged, their timestamps would fail the clock check anyway.
+ */
+export function consumeNonce(db: DB, userId: string, nonce: string): boolean {
+    return db.prepare('INSERT OR IGNORE INTO request_nonces (user_id, nonce, created_at) VALUES (?, ?, ?)')
+        .run(userId, nonce.toLowerCase(), Date.now()).changes === 1;
+}
+
+/**
+ * Check a base64 Ed25519 signature of a latin1 message.
+ */
+export function verifyDetachedSignature(message: string, signatureB64: string, signingKeyHex: string): boolean {
+    try {
+        const signature = Buffer.from(signatureB64, 'base64');
+        if (signature.length !== nacl.sign.signatureLength) return false;
+        return nacl.sign.detached.verify(
+            Buffer.from(message, 'latin1'),
+            signature,
+            Buffer.from(signingKeyHex, 'hex')
+        );
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Express middleware: authenticate the caller against the signing key they registered.
+ * On success the caller's account ID (the row ID, whichever format it was registered
+ * with) is available as res.locals.userId.
+ */
+export function requireAuth(db: DB) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const headers = readAuthHeaders(req);
+        if (!headers) {
+            res.status(401).json({ error: 'Missing authentication headers' });
+            return;
+        }
+
+        // Clients sign with whichever ID format they know themselves by
+        const user = getUser(db, resolveAlias(db, headers.id));
+        if (!user) {
+            // Exact wording is matched by authFetch to trigger a re-registration
+            res.status(401).json({ error: 'Unknown user. Register first.' });
+            return;
+        }
+
+        if (!verifyRequestSignature(req, headers, user.signing_key)) {
+            res.status(401).json({ error: 'Invalid signature' });
+            return;
+        }
+        if (!consumeNonce(db, user.id, headers.nonce)) {
+            res.status(401).json({ error: 'Replayed request' });
+            return;
+        }
+
+        res.locals.userId = user.id;
+        next();
+    };
+}
+
+/**
+ * Authenticate a WebSocket upgrade: the same headers as requireAuth, signed over GET, the
+ * request path and an empty body. The caller's account ID, or null.
+ */
+export function authenticateUpgrade(db: DB, req: IncomingMessage): string | null {
+    const headers = readAuthHeaders(req);
+    if (!headers) return null;
+
+    const user = getUser(db, resolveAlias(db, headers.id));
+    if (!user) return null;
+
+    const path = new URL(req.url ?? '/', 'http://relay').pathname;
+    if (!verifySignedRequest(headers, 'GET', path, Buffer.alloc(0), user.signing_key)) return null;
+    if (!consumeNonce(db, user.id, headers.nonce)) return null;
+    return user.id;
+}
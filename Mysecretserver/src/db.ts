@@ -0,0 +1,237 @@
+import Database from 'better-sqlite3';
+import { otherFormatUserId } from './userId';
+
+export type DB = Database.Database;
+
+export interface UserRow {
+    id: string;
+    public_key: string;
+    signing_key: string;
+    created_at: number;
+    last_seen: number | null;
+}
+
+export interface MessageRow {
+    id: number;
+    recipient: string;
+    content: string;
+    created_at: number;
+}
+
+export interface SignedPreKeyRow {
+    user_id: string;
+    key_id: number;
+    public_key: string;
+    signature: string;
+    created_at: number;
+}
+
+export interface OneTimePreKeyRow {
+    user_id: string;
+    key_id: number;
+    public_key: string;
+}
+
+export interface KeyRotationRow {
+    old_id: string;
+    new_id: string;
+    rotated_at: number;
+}
+
+export interface UserAliasRow {
+    alias: string;
+    user_id: string;
+}
+
+// Clients ping every 5s or hold a push connection; a user is online if seen within a few missed pings
+export const ONLINE_WINDOW_MS = 15 * 1000;
+
+// A queued message as clients receive it (GET /check, push channel)
+export interface QueuedMessage {
+    id: number;
+    content: string;
+    timestamp: number;
+}
+
+export interface FriendRequest {
+    from: unknown;
+    timestamp: string;
+}
+
+export interface PresenceStatus {
+    isOnline: boolean;
+    lastSeen: number | null;
+}
+
+export interface FriendRequestRow {
+    recipient: string;
+    sender: string;
+    payload: string;
+    created_at: number;
+}
+
+/**
+ * Open (or create) the relay database and make sure the schema exists.
+ * `users` and `messages` are the tables check_db.js inspects.
+ */
+export function openDatabase(path: string): DB {
+    const db = new Database(path);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+            id TEXT PRIMARY KEY,
+            public_key TEXT NOT NULL,
+            signing_key TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            last_seen INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS messages (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            recipient TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            content TEXT NOT NULL,
+            created_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_messages_recipient ON messages(recipient, id);
+
+        CREATE TABLE IF NOT EXISTS friend_requests (
+            recipient TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            sender TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            payload TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            PRIMARY KEY (recipient, sender)
+        );
+
+        CREATE TABLE IF NOT EXISTS signed_prekeys (
+            user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+            key_id INTEGER NOT NULL,
+            public_key TEXT NOT NULL,
+            signature TEXT NOT NULL,
+            created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS one_time_prekeys (
+            user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            key_id INTEGER NOT NULL,
+            public_key TEXT NOT NULL,
+            PRIMARY KEY (user_id, key_id)
+        );
+
+        -- A rotated account keeps its row so it can still sign the rotation notices to its
+        -- contacts; messages addressed to it are delivered to the new ID instead
+        CREATE TABLE IF NOT EXISTS key_rotations (
+            old_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+            new_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            rotated_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_key_rotations_new ON key_rotations(new_id);
+
+        -- Nonces of recently signed requests; not tied to users, /register uses them too
+        CREATE TABLE IF NOT EXISTS request_nonces (
+            user_id TEXT NOT NULL,
+            nonce TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            PRIMARY KEY (user_id, nonce)
+        );
+        CREATE INDEX IF NOT EXISTS idx_request_nonces_created ON request_nonces(created_at);
+
+        -- The ID of each account in the other format (legacy hex or checksummed base32), so
+        -- contacts and clients that still use it reach the same row
+        CREATE TABLE IF NOT EXISTS user_aliases (
+            alias TEXT PRIMARY KEY,
+            user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_user_aliases_user ON user_aliases(user_id);
+    `);
+
+    // Accounts registered before aliases existed
+    const unaliased = db.prepare(
+        'SELECT * FROM users WHERE id NOT IN (SELECT user_id FROM user_aliases)'
+    ).all() as UserRow[];
+    if (unaliased.length > 0) {
+        db.transaction(() => {
+            for (const user of unaliased) addUserAlias(db, user.id, user.public_key);
+        })();
+    }
+
+    return db;
+}
+
+export function getUser(db: DB, id: string): UserRow | undefined {
+    return db.prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+}
+
+/**
+ * Record the other-format ID of a freshly inserted account. Ignored if it is taken.
+ */
+export function addUserAlias(db: DB, id: string, publicKeyHex: string) {
+    db.prepare('INSERT OR IGNORE INTO user_aliases (alias, user_id) VALUES (?, ?)')
+        .run(otherFormatUserId(id, publicKeyHex), id);
+}
+
+/**
+ * Row ID of an account addressed by either of its IDs. A registered ID wins over an alias.
+ */
+export function resolveAlias(db: DB, id: string): string {
+    if (getUser(db, id)) return id;
+    const row = db.prepare('SELECT user_id FROM user_aliases WHERE alias = ?').get(id) as Pick<UserAliasRow, 'user_id'> | undefined;
+    return row ? row.user_id : id;
+}
+
+/**
+ * Current ID of an account, following an alias and then a key rotation if there was one.
+ * Chains are flattened when they are recorded, so one lookup is enough.
+ */
+export function resolveUserId(db: DB, id: string): string {
+    const accountId = resolveAlias(db, id);
+    const row = db.prepare('SELECT new_id FROM key_rotations WHERE old_id = ?').get(accountId) as { new_id: string } | undefined;
+    return row ? row.new_id : accountId;
+}
+
+/**
+ * Forget request nonces older than `maxAgeMs` (must cover the accepted clock skew on both sides).
+ */
+export function purgeExpiredNonces(db: DB, maxAgeMs: number): number {
+    const cutoff = Date.now() - maxAgeMs;
+    return db.prepare('DELETE FROM request_nonces WHERE created_at < ?').run(cutoff).changes;
+}
+
+/**
+ * Drop relayed messages nobody picked up within the retention window.
+ */
+export function purgeExpiredMessages(db: DB, maxAgeMs: number): number {
+    const cutoff = Date.now() - maxAgeMs;
+    return db.prepare('DELETE FROM messages WHERE created_at < ?').run(cutoff).changes;
+}
+
+/**
+ * Oldest messages waiting for `recipient`'s acknowledgement
+ */
+export function getQueuedMessages(db: DB, recipient: string, limit: number): QueuedMessage[] {
+    const rows = db.prepare('SELECT * FROM messages WHERE recipient = ? ORDER BY id ASC LIMIT ?')
+        .all(recipient, limit) as MessageRow[];
+    return rows.map(row => ({ id: row.id, content: row.content, timestamp: row.created_at }));
+}
+
+export function getFriendRequests(db: DB, recipient: string): FriendRequest[] {
+    const rows = db.prepare('SELECT * FROM friend_requests WHERE recipient = ? ORDER BY created_at ASC')
+        .all(recipient) as FriendRequestRow[];
+    return rows.map(row => ({
+        from: JSON.parse(row.payload),
+        timestamp: new Date(row.created_at).toISOString(),
+    }));
+}
+
+/**
+ * Presence of an account addressed by either of its IDs, undefined if there is none
+ */
+export function getPresence(db: DB, id: string): PresenceStatus | undefined {
+    const row = db.prepare('SELECT last_seen FROM users WHERE id = ?').get(resolveAlias(db, id)) as Pick<UserRow, 'last_seen'> | undefined;
+    if (!row) return undefined;
+    return {
+        isOnline: row.last_seen !== null && Date.now() - row.last_seen < ONLINE_WINDOW_MS,
+        lastSeen: row.last_seen,
+    };
+}
@@ -0,0 +1,29 @@
+import path from 'path';
+import { createApp } from './app';
+import { MAX_CLOCK_SKEW_MS } from './auth';
+import { openDatabase, purgeExpiredMessages, purgeExpiredNonces } from './db';
+import { createPushHub } from './push';
+
+const PORT = parseInt(process.env.PORT || '3000', 10);
+// check_db.js at the repository root reads Mysecretserver/ghost.db
+const DB_PATH = process.env.GHOST_DB_PATH || path.join(__dirname, '..', 'ghost.db');
+const MESSAGE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const db = openDatabase(DB_PATH);
+const push = createPushHub(db);
+const app = createApp(db, push);
+
+setInterval(() => {
+    const purged = purgeExpiredMessages(db, MESSAGE_RETENTION_MS);
+    if (purged > 0) console.log(`[RELAY] Purged ${purged} expired messages`);
+}, 60 * 60 * 1000).unref();
+
+// A nonce only has to outlive the requests whose timestamps are still accepted
+setInterval(() => {
+    purgeExpiredNonces(db, 2 * MAX_CLOCK_SKEW_MS);
+}, 5 * 60 * 1000).unref();
+
+const server = app.listen(PORT, () => {
+    console.log(`[RELAY] Listening on port ${PORT} (db: ${DB_PATH})`);
+});
+push.attach(server);
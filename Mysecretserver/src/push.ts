@@ -0,0 +1,197 @@
+import type { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { authenticateUpgrade } from './auth';
+import { DB, FriendRequest, getFriendRequests, getPresence, getQueuedMessages, ONLINE_WINDOW_MS, PresenceStatus, QueuedMessage, resolveAlias } from './db';
+import { isValidUserId } from './userId';
+
+export const PUSH_PATH = '/ws';
+// Finds dead sockets, and refreshes the presence of visible connections well inside ONLINE_WINDOW_MS
+const PING_INTERVAL_MS = 10 * 1000;
+const MAX_CONNECTIONS_PER_USER = 4;
+const MAX_FRAME_SIZE = 64 * 1024;
+const MAX_WATCHED = 500;
+// Same page size as GET /check
+const MAX_PUSHED_MESSAGES = 100;
+
+type PushFrame =
+    | { type: 'messages'; messages: QueuedMessage[] }
+    | { type: 'friend-requests'; requests: FriendRequest[] }
+    | { type: 'presence'; status: Record<string, PresenceStatus> };
+
+interface Connection {
+    socket: WebSocket;
+    userId: string;
+    // Counts as presence unless the user hides its online status
+    visible: boolean;
+    alive: boolean;
+    // Presence followed by this connection: ID as the client sent it -> account ID
+    watched: Map<string, string>;
+}
+
+/**
+ * Push channel: authenticated WebSocket connections that receive what clients would otherwise
+ * poll for. Messages still wait in the queue until acknowledged through POST /ack, so a client
+ * that misses a push gets the message from GET /check or on its next connection.
+ */
+export interface PushHub {
+    attach(server: Server): void;
+    messageQueued(recipient: string, message: QueuedMessage): void;
+    friendRequestsChanged(recipient: string): void;
+    // POST /ping from a client polling instead: followers hear it come and go
+    pinged(userId: string, wasOnline: boolean): void;
+    disconnect(userId: string): void;
+}
+
+export function createPushHub(db: DB): PushHub {
+    const connections = new Map<string, Set<Connection>>();
+    const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_FRAME_SIZE });
+
+    const send = (conn: Connection, frame: PushFrame) => {
+        if (conn.socket.readyState === WebSocket.OPEN) conn.socket.send(JSON.stringify(frame));
+    };
+
+    const sendToUser = (userId: string, frame: PushFrame) => {
+        for (const conn of connections.get(userId) ?? []) send(conn, frame);
+    };
+
+    const isVisible = (userId: string) => [...connections.get(userId) ?? []].some(conn => conn.visible);
+
+    const touch = (userId: string) => {
+        db.prepare('UPDATE users SET last_seen = ? WHERE id = ?').run(Date.now(), userId);
+    };
+
+    const presenceChanged = (userId: string) => {
+        const status = getPresence(db, userId);
+        if (!status) return;
+        for (const userConnections of connections.values()) {
+            for (const conn of userConnections) {
+                const asked = [...conn.watched].filter(([, accountId]) => accountId === userId).map(([id]) => id);
+                if (asked.length > 0) send(conn, { type: 'presence', status: Object.fromEntries(asked.map(id => [id, status])) });
+            }
+        }
+    };
+
+    const setVisible = (conn: Connection, visible: boolean) => {
+        if (conn.visible === visible) return;
+        const wasOnline = getPresence(db, conn.userId)?.isOnline ?? false;
+        conn.visible = visible;
+        if (visible) {
+            touch(conn.userId);
+            if (!wasOnline) presenceChanged(conn.userId);
+        } else {
+            checkOfflineLater(conn.userId);
+        }
+    };
+
+    // A user goes offline once its last_seen leaves the window, whichever way it was refreshed
+    const checkOfflineLater = (userId: string) => {
+        setTimeout(() => {
+            if (!isVisible(userId) && !getPresence(db, userId)?.isOnline) presenceChanged(userId);
+        }, ONLINE_WINDOW_MS).unref();
+    };
+
+    const watch = (conn: Connection, ids: unknown) => {
+        if (!Array.isArray(ids) || ids.length > MAX_WATCHED) return;
+        conn.watched = new Map(ids.filter(isValidUserId).map(id => [id, resolveAlias(db, id)]));
+
+        const status: Record<string, PresenceStatus> = {};
+        for (const id of conn.watched.keys()) {
+            const presence = getPresence(db, id);
+            if (presence) status[id] = presence;
+        }
+        send(conn, { type: 'presence', status });
+    };
+
+    const receive = (conn: Connection, data: string) => {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(data);
+        } catch {
+            return;
+        }
+        if (!parsed || typeof parsed !== 'object') return;
+        const frame = parsed as Record<string, unknown>;
+        if (frame.type === 'presence' && typeof frame.visible === 'boolean') {
+            setVisible(conn, frame.visible);
+        } else if (frame.type === 'watch') {
+            watch(conn, frame.ids);
+        }
+    };
+
+    const open = (socket: WebSocket, userId: string) => {
+        const userConnections = connections.get(userId) ?? new Set<Connection>();
+        connections.set(userId, userConnections);
+        // The oldest connection of a user is most likely a dead one
+        for (const old of [...userConnections].slice(0, Math.max(0, userConnections.size - MAX_CONNECTIONS_PER_USER + 1))) {
+            old.socket.terminate();
+        }
+
+        const conn: Connection = { socket, userId, visible: false, alive: true, watched: new Map() };
+        userConnections.add(conn);
+
+        socket.on('pong', () => { conn.alive = true; });
+        socket.on('message', (data, isBinary) => {
+            if (!isBinary) receive(conn, data.toString());
+        });
+        socket.on('close', () => {
+            userConnections.delete(conn);
+            if (userConnections.size === 0) connections.delete(userId);
+            if (conn.visible) checkOfflineLater(userId);
+        });
+        socket.on('error', () => { /* followed by close */ });
+
+        // Whatever queued up while the client was away
+        const queued = getQueuedMessages(db, userId, MAX_PUSHED_MESSAGES);
+        if (queued.length > 0) send(conn, { type: 'messages', messages: queued });
+        send(conn, { type: 'friend-requests', requests: getFriendRequests(db, userId) });
+    };
+
+    return {
+        attach(server: Server) {
+            server.on('upgrade', (req, socket, head) => {
+                if (new URL(req.url ?? '/', 'http://relay').pathname !== PUSH_PATH) {
+                    socket.destroy();
+                    return;
+                }
+                const userId = authenticateUpgrade(db, req);
+                if (!userId) {
+                    socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+                    return;
+                }
+                wss.handleUpgrade(req, socket, head, ws => open(ws, userId));
+            });
+
+            setInterval(() => {
+                for (const userConnections of connections.values()) {
+                    for (const conn of userConnections) {
+                        if (!conn.alive) {
+                            conn.socket.terminate();
+                            continue;
+                        }
+                        conn.alive = false;
+                        conn.socket.ping();
+                        if (conn.visible) touch(conn.userId);
+                    }
+                }
+            }, PING_INTERVAL_MS).unref();
+        },
+
+        messageQueued(recipient: string, message: QueuedMessage) {
+            sendToUser(recipient, { type: 'messages', messages: [message] });
+        },
+
+        friendRequestsChanged(recipient: string) {
+            if (!connections.has(recipient)) return;
+            sendToUser(recipient, { type: 'friend-requests', requests: getFriendRequests(db, recipient) });
+        },
+
+        pinged(userId: string, wasOnline: boolean) {
+            if (!wasOnline) presenceChanged(userId);
+            checkOfflineLater(userId);
+        },
+
+        disconnect(userId: string) {
+            for (const conn of connections.get(userId) ?? []) conn.socket.close(1008, 'Account deleted');
+        },
+    };
+}
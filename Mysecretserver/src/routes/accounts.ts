@@ -0,0 +1,169 @@
+import { Router } from 'express';
+import { consumeNonce, isValidKeyHex, readAuthHeaders, requireAuth, verifyDetachedSignature, verifyRequestSignature } from '../auth';
+import { addUserAlias, DB, getUser, KeyRotationRow, resolveAlias } from '../db';
+import type { PushHub } from '../push';
+import { deriveLegacyUserId, deriveUserId, isValidUserId } from '../userId';
+import { parsePreKeyUpload, PreKeyUpload, storePreKeys } from './prekeys';
+
+export function accountsRouter(db: DB, push: PushHub): Router {
+    const router = Router();
+
+    // Registration is self-authenticated: the request is signed with the signing key it uploads
+    router.post('/register', (req, res) => {
+        const { id, publicKey, signingKey, prekeys } = req.body ?? {};
+        if (!isValidKeyHex(publicKey) || !isValidKeyHex(signingKey)) {
+            res.status(400).json({ error: 'Invalid keys' });
+            return;
+        }
+
+        // Clients older than the checksummed IDs still register with the legacy one
+        if (id !== deriveUserId(publicKey) && id !== deriveLegacyUserId(publicKey)) {
+            res.status(400).json({ error: 'ID does not match public key' });
+            return;
+        }
+
+        const headers = readAuthHeaders(req);
+        if (!headers || headers.id !== id || !verifyRequestSignature(req, headers, signingKey)) {
+            res.status(401).json({ error: 'Invalid signature' });
+            return;
+        }
+        if (!consumeNonce(db, id, headers.nonce)) {
+            res.status(401).json({ error: 'Replayed request' });
+            return;
+        }
+
+        let upload: PreKeyUpload | null = null;
+        if (prekeys !== undefined) {
+            const parsed = parsePreKeyUpload(prekeys, signingKey);
+            if (typeof parsed === 'string') {
+                res.status(400).json({ error: parsed });
+                return;
+            }
+            upload = parsed;
+        }
+
+        // An account registered under its other ID is the same account
+        const existing = getUser(db, resolveAlias(db, id));
+        if (existing) {
+            if (existing.public_key.toLowerCase() !== publicKey.toLowerCase() ||
+                existing.signing_key.toLowerCase() !== signingKey.toLowerCase()) {
+                res.status(409).json({ error: 'ID already registered with different keys' });
+                return;
+            }
+            if (upload) storePreKeys(db, existing.id, upload);
+            res.status(200).json({ status: 'ALREADY_REGISTERED' });
+            return;
+        }
+
+        db.transaction(() => {
+            db.prepare('INSERT INTO users (id, public_key, signing_key, created_at, last_seen) VALUES (?, ?, ?, ?, NULL)')
+                .run(id, publicKey.toLowerCase(), signingKey.toLowerCase(), Date.now());
+            addUserAlias(db, id, publicKey.toLowerCase());
+            if (upload) storePreKeys(db, id, upload);
+        })();
+        res.status(201).json({ status: 'OK' });
+    });
+
+    // Registered keys of a user, so contacts can verify signatures made with the signing key
+    router.get('/keys/:id', requireAuth(db), (req, res) => {
+        const { id } = req.params;
+        if (!isValidUserId(id)) {
+            res.status(400).json({ error: 'Invalid ID' });
+            return;
+        }
+        const user = getUser(db, resolveAlias(db, id));
+        if (!user) {
+            res.status(404).json({ error: 'User not found' });
+            return;
+        }
+        const rotation = db.prepare('SELECT new_id FROM key_rotations WHERE old_id = ?').get(user.id) as { new_id: string } | undefined;
+        res.json({
+            id: user.id,
+            publicKey: user.public_key,
+            signingKey: user.signing_key,
+            rotatedTo: rotation ? rotation.new_id : null,
+        });
+    });
+
+    // Key rotation: the current identity (request auth) registers its successor, which proves
+    // possession of the new signing key. Queued messages move to the new ID and later ones follow.
+    router.post('/rotate', requireAuth(db), (req, res) => {
+        const oldId: string = res.locals.userId;
+        const { id, publicKey, signingKey, proof, prekeys } = req.body ?? {};
+        if (!isValidKeyHex(publicKey) || !isValidKeyHex(signingKey) || typeof proof !== 'string') {
+            res.status(400).json({ error: 'Invalid keys' });
+            return;
+        }
+        // New identities always use the current ID format
+        if (id !== deriveUserId(publicKey)) {
+            res.status(400).json({ error: 'ID does not match public key' });
+            return;
+        }
+        // The proof names the old identity by the ID the client signed this request with
+        const signedOldId = readAuthHeaders(req)!.id;
+        if (!verifyDetachedSignature(`GHOST_ROTATE:${signedOldId}:${id}`, proof, signingKey)) {
+            res.status(401).json({ error: 'Invalid rotation proof' });
+            return;
+        }
+
+        let upload: PreKeyUpload | null = null;
+        if (prekeys !== undefined) {
+            const parsed = parsePreKeyUpload(prekeys, signingKey);
+            if (typeof parsed === 'string') {
+                res.status(400).json({ error: parsed });
+                return;
+            }
+            upload = parsed;
+        }
+
+        const previous = db.prepare('SELECT * FROM key_rotations WHERE old_id = ?').get(oldId) as KeyRotationRow | undefined;
+        if (previous) {
+            // A client resuming an interrupted rotation sends the same successor again
+            if (previous.new_id !== id) {
+                res.status(409).json({ error: 'Account already rotated' });
+                return;
+            }
+            if (upload) storePreKeys(db, id, upload);
+            res.json({ status: 'ALREADY_ROTATED' });
+            return;
+        }
+        if (resolveAlias(db, id) === oldId || getUser(db, resolveAlias(db, id))) {
+            res.status(409).json({ error: 'ID already registered' });
+            return;
+        }
+
+        db.transaction(() => {
+            db.prepare('INSERT INTO users (id, public_key, signing_key, created_at, last_seen) VALUES (?, ?, ?, ?, NULL)')
+                .run(id, publicKey.toLowerCase(), signingKey.toLowerCase(), Date.now());
+            addUserAlias(db, id, publicKey.toLowerCase());
+            if (upload) storePreKeys(db, id, upload);
+
+            db.prepare('UPDATE messages SET recipient = ? WHERE recipient = ?').run(id, oldId);
+            db.prepare('UPDATE OR IGNORE friend_requests SET recipient = ? WHERE recipient = ?').run(id, oldId);
+            db.prepare('DELETE FROM friend_requests WHERE recipient = ?').run(oldId);
+            // Nobody should open a new session with the old identity
+            db.prepare('DELETE FROM signed_prekeys WHERE user_id = ?').run(oldId);
+            db.prepare('DELETE FROM one_time_prekeys WHERE user_id = ?').run(oldId);
+
+            db.prepare('UPDATE key_rotations SET new_id = ? WHERE new_id = ?').run(id, oldId);
+            db.prepare('INSERT INTO key_rotations (old_id, new_id, rotated_at) VALUES (?, ?, ?)')
+                .run(oldId, id, Date.now());
+        })();
+        res.status(201).json({ status: 'OK' });
+    });
+
+    router.post('/delete-account', requireAuth(db), (req, res) => {
+        const userId: string = res.locals.userId;
+        if (req.body?.id !== undefined && (!isValidUserId(req.body.id) || resolveAlias(db, req.body.id) !== userId)) {
+            res.status(403).json({ error: 'Cannot delete another account' });
+            return;
+        }
+
+        // messages, friend_requests, prekeys and the alias go with it (ON DELETE CASCADE)
+        db.prepare('DELETE FROM users WHERE id = ?').run(userId);
+        push.disconnect(userId);
+        res.json({ status: 'OK' });
+    });
+
+    return router;
+}
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { isValidKeyHex, requireAuth } from '../auth';
+import { DB, getFriendRequests, getUser, resolveAlias, resolveUserId } from '../db';
+import type { PushHub } from '../push';
+import { isValidUserId } from '../userId';
+
+// Avatars travel as base64 data URIs inside the request
+const MAX_REQUEST_PAYLOAD = 600 * 1024;
+
+export function friendsRouter(db: DB, push: PushHub): Router {
+    const router = Router();
+    const auth = requireAuth(db);
+
+    router.post('/friend-request', auth, (req, res) => {
+        const { to, from } = req.body ?? {};
+        const userId: string = res.locals.userId;
+
+        if (!isValidUserId(to) || !from || typeof from !== 'object') {
+            res.status(400).json({ error: 'Invalid request' });
+            return;
+        }
+        // The advertised identity must be the authenticated one (either ID), with the key it registered
+        const sender = getUser(db, userId);
+        if (!isValidUserId(from.id) || resolveAlias(db, from.id) !== userId ||
+            !isValidKeyHex(from.key) || from.key.toLowerCase() !== sender?.public_key) {
+            res.status(403).json({ error: 'Sender identity mismatch' });
+            return;
+        }
+        const recipient = resolveUserId(db, to);
+        if (recipient === userId) {
+            res.status(400).json({ error: 'Cannot add yourself' });
+            return;
+        }
+        if (!getUser(db, recipient)) {
+            res.status(404).json({ error: 'User not found' });
+            return;
+        }
+
+        const payload = JSON.stringify({
+            id: from.id,
+            key: from.key,
+            name: typeof from.name === 'string' ? from.name.substring(0, 100) : 'Unknown',
+            avatar: typeof from.avatar === 'string' ? from.avatar : null,
+        });
+        if (payload.length > MAX_REQUEST_PAYLOAD) {
+            res.status(413).json({ error: 'Request too large' });
+            return;
+        }
+
+        const existing = db.prepare('SELECT 1 FROM friend_requests WHERE recipient = ? AND sender = ?').get(recipient, userId);
+        if (existing) {
+            res.json({ status: 'ALREADY_SENT' });
+            return;
+        }
+
+        db.prepare('INSERT INTO friend_requests (recipient, sender, payload, created_at) VALUES (?, ?, ?, ?)')
+            .run(recipient, userId, payload, Date.now());
+        push.friendRequestsChanged(recipient);
+        res.json({ status: 'OK' });
+    });
+
+    router.get('/friend-requests/:id', auth, (req, res) => {
+        if (!isValidUserId(req.params.id) || resolveAlias(db, req.params.id) !== res.locals.userId) {
+            res.status(403).json({ error: 'Forbidden' });
+            return;
+        }
+
+        res.json(getFriendRequests(db, res.locals.userId));
+    });
+
+    router.post('/friend-request/remove', auth, (req, res) => {
+        const { userId, fromId } = req.body ?? {};
+        if (!isValidUserId(userId) || resolveAlias(db, userId) !== res.locals.userId || !isValidUserId(fromId)) {
+            res.status(400).json({ error: 'Invalid request' });
+            return;
+        }
+
+        db.prepare('DELETE FROM friend_requests WHERE recipient = ? AND sender = ?')
+            .run(res.locals.userId, resolveAlias(db, fromId));
+        push.friendRequestsChanged(res.locals.userId);
+        res.json({ status: 'OK' });
+    });
+
+    return router;
+}
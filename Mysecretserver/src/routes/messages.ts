@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import { requireAuth } from '../auth';
+import { DB, getQueuedMessages, getUser, resolveAlias, resolveUserId } from '../db';
+import type { PushHub } from '../push';
+import { isValidUserId } from '../userId';
+
+// Upper bound for one relayed envelope (base64). Media are sent inline, up to ~10MB decoded.
+export const MAX_MESSAGE_SIZE = 15 * 1024 * 1024;
+const MAX_BATCH = 100;
+
+export function messagesRouter(db: DB, push: PushHub): Router {
+    const router = Router();
+    const auth = requireAuth(db);
+
+    router.post('/send', auth, (req, res) => {
+        const { to, encryptedContent } = req.body ?? {};
+        if (!isValidUserId(to) || typeof encryptedContent !== 'string' || encryptedContent.length === 0) {
+            res.status(400).json({ error: 'Invalid message' });
+            return;
+        }
+        if (encryptedContent.length > MAX_MESSAGE_SIZE) {
+            res.status(413).json({ error: 'Message too large' });
+            return;
+        }
+        // Contacts that have not seen a key rotation or the new ID format yet still address the old ID
+        const recipient = resolveUserId(db, to);
+        if (!getUser(db, recipient)) {
+            res.status(404).json({ error: 'Recipient not found' });
+            return;
+        }
+
+        // The sender is deliberately not stored: recipients identify it from the ciphertext
+        const createdAt = Date.now();
+        const result = db.prepare('INSERT INTO messages (recipient, content, created_at) VALUES (?, ?, ?)')
+            .run(recipient, encryptedContent, createdAt);
+        const id = Number(result.lastInsertRowid);
+        push.messageQueued(recipient, { id, content: encryptedContent, timestamp: createdAt });
+        res.json({ status: 'OK', id });
+    });
+
+    router.get('/check/:id', auth, (req, res) => {
+        if (!isValidUserId(req.params.id) || resolveAlias(db, req.params.id) !== res.locals.userId) {
+            res.status(403).json({ error: 'Forbidden' });
+            return;
+        }
+
+        // Messages stay queued until the client acknowledges them via /ack
+        res.json(getQueuedMessages(db, res.locals.userId, MAX_BATCH));
+    });
+
+    router.post('/ack', auth, (req, res) => {
+        const ids = req.body?.messageIds;
+        if (!Array.isArray(ids) || ids.length > MAX_BATCH || !ids.every(id => Number.isInteger(id))) {
+            res.status(400).json({ error: 'Invalid message IDs' });
+            return;
+        }
+
+        const remove = db.prepare('DELETE FROM messages WHERE id = ? AND recipient = ?');
+        const removeAll = db.transaction((messageIds: number[]) => {
+            let removed = 0;
+            for (const id of messageIds) removed += remove.run(id, res.locals.userId).changes;
+            return removed;
+        });
+        res.json({ status: 'OK', removed: removeAll(ids) });
+    });
+
+    return router;
+}
@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import nacl from 'tweetnacl';
+import { isValidKeyHex, requireAuth } from '../auth';
+import { DB, getUser, OneTimePreKeyRow, resolveAlias, SignedPreKeyRow } from '../db';
+import { isValidUserId } from '../userId';
+
+// One-time prekeys kept per user; uploads beyond this are ignored
+export const MAX_ONE_TIME_PREKEYS = 200;
+const MAX_UPLOAD = 100;
+
+export interface PreKeyUpload {
+    signedPreKey: { id: number; key: string; signature: string } | null;
+    oneTimePreKeys: { id: number; key: string }[];
+    // The client lost the private halves of the published keys (restored identity)
+    replace: boolean;
+}
+
+const isValidKeyId = (id: unknown): id is number =>
+    typeof id === 'number' && Number.isInteger(id) && id >= 0 && id <= 0xffffffff;
+
+/**
+ * Signed prekeys are signed by the identity signing key over "GHOST_PREKEY:keyId:keyHex".
+ */
+function verifySignedPreKey(id: number, keyHex: string, signature: string, signingKeyHex: string): boolean {
+    try {
+        const sig = Buffer.from(signature, 'base64');
+        if (sig.length !== nacl.sign.signatureLength) return false;
+        return nacl.sign.detached.verify(
+            Buffer.from(`GHOST_PREKEY:${id}:${keyHex.toLowerCase()}`, 'latin1'),
+            sig,
+            Buffer.from(signingKeyHex, 'hex')
+        );
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Validate an uploaded bundle. Returns the normalized upload, or an error message.
+ */
+export function parsePreKeyUpload(body: unknown, signingKeyHex: string): PreKeyUpload | string {
+    if (!body || typeof body !== 'object') return 'Invalid prekeys';
+    const { signedPreKey, oneTimePreKeys, replace } = body as Record<string, unknown>;
+    const upload: PreKeyUpload = { signedPreKey: null, oneTimePreKeys: [], replace: replace === true };
+
+    if (signedPreKey !== undefined) {
+        const spk = signedPreKey as Record<string, unknown>;
+        if (!spk || !isValidKeyId(spk.id) || !isValidKeyHex(spk.key) || typeof spk.signature !== 'string') {
+            return 'Invalid signed prekey';
+        }
+        if (!verifySignedPreKey(spk.id, spk.key, spk.signature, signingKeyHex)) {
+            return 'Invalid signed prekey signature';
+        }
+        upload.signedPreKey = { id: spk.id, key: spk.key.toLowerCase(), signature: spk.signature };
+    }
+
+    if (oneTimePreKeys !== undefined) {
+        if (!Array.isArray(oneTimePreKeys) || oneTimePreKeys.length > MAX_UPLOAD) return 'Invalid one-time prekeys';
+        for (const otk of oneTimePreKeys) {
+            if (!otk || !isValidKeyId(otk.id) || !isValidKeyHex(otk.key)) return 'Invalid one-time prekeys';
+            upload.oneTimePreKeys.push({ id: otk.id, key: otk.key.toLowerCase() });
+        }
+    }
+
+    return upload;
+}
+
+export function storePreKeys(db: DB, userId: string, upload: PreKeyUpload) {
+    db.transaction(() => {
+        if (upload.signedPreKey) {
+            db.prepare(`INSERT INTO signed_prekeys (user_id, key_id, public_key, signature, created_at) VALUES (?, ?, ?, ?, ?)
+                        ON CONFLICT(user_id) DO UPDATE SET key_id = excluded.key_id, public_key = excluded.public_key,
+                        signature = excluded.signature, created_at = excluded.created_at`)
+                .run(userId, upload.signedPreKey.id, upload.signedPreKey.key, upload.signedPreKey.signature, Date.now());
+        }
+
+        if (upload.replace) db.prepare('DELETE FROM one_time_prekeys WHERE user_id = ?').run(userId);
+
+        const { count } = db.prepare('SELECT COUNT(*) AS count FROM one_time_prekeys WHERE user_id = ?').get(userId) as { count: number };
+        const insert = db.prepare('INSERT OR IGNORE INTO one_time_prekeys (user_id, key_id, public_key) VALUES (?, ?, ?)');
+        for (const otk of upload.oneTimePreKeys.slice(0, Math.max(0, MAX_ONE_TIME_PREKEYS - count))) {
+            insert.run(userId, otk.id, otk.key);
+        }
+    })();
+}
+
+export function prekeysRouter(db: DB): Router {
+    const router = Router();
+    const auth = requireAuth(db);
+
+    router.post('/prekeys', auth, (req, res) => {
+        const userId: string = res.locals.userId;
+        const user = getUser(db, userId)!;
+        const upload = parsePreKeyUpload(req.body, user.signing_key);
+        if (typeof upload === 'string') {
+            res.status(400).json({ error: upload });
+            return;
+        }
+
+        storePreKeys(db, userId, upload);
+        res.json({ status: 'OK' });
+    });
+
+    // Declared before /prekeys/:id so "count" is not taken for a user ID
+    router.get('/prekeys/count', auth, (_req, res) => {
+        const userId: string = res.locals.userId;
+        const { count } = db.prepare('SELECT COUNT(*) AS count FROM one_time_prekeys WHERE user_id = ?').get(userId) as { count: number };
+        const spk = db.prepare('SELECT * FROM signed_prekeys WHERE user_id = ?').get(userId) as SignedPreKeyRow | undefined;
+        res.json({ count, signedPreKeyId: spk ? spk.key_id : null });
+    });
+
+    // Fetching a bundle consumes one of the recipient's one-time prekeys
+    router.get('/prekeys/:id', auth, (req, res) => {
+        const { id } = req.params;
+        if (!isValidUserId(id)) {
+            res.status(400).json({ error: 'Invalid ID' });
+            return;
+        }
+        const user = getUser(db, resolveAlias(db, id));
+        if (!user) {
+            res.status(404).json({ error: 'User not found' });
+            return;
+        }
+
+        const spk = db.prepare('SELECT * FROM signed_prekeys WHERE user_id = ?').get(user.id) as SignedPreKeyRow | undefined;
+        if (!spk) {
+            res.status(404).json({ error: 'No prekeys published' });
+            return;
+        }
+
+        const otk = db.transaction(() => {
+            const row = db.prepare('SELECT * FROM one_time_prekeys WHERE user_id = ? ORDER BY key_id ASC LIMIT 1')
+                .get(user.id) as OneTimePreKeyRow | undefined;
+            if (row) db.prepare('DELETE FROM one_time_prekeys WHERE user_id = ? AND key_id = ?').run(user.id, row.key_id);
+            return row;
+        })();
+
+        res.json({
+            id: user.id,
+            identityKey: user.public_key,
+            signingKey: user.signing_key,
+            signedPreKey: { id: spk.key_id, key: spk.public_key, signature: spk.signature },
+            oneTimePreKey: otk ? { id: otk.key_id, key: otk.public_key } : null,
+        });
+    });
+
+    return router;
+}
@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { requireAuth } from '../auth';
+import { DB, getPresence, PresenceStatus } from '../db';
+import type { PushHub } from '../push';
+import { isValidUserId } from '../userId';
+
+const MAX_STATUS_BATCH = 500;
+
+export function presenceRouter(db: DB, push: PushHub): Router {
+    const router = Router();
+    const auth = requireAuth(db);
+
+    router.post('/ping', auth, (req, res) => {
+        const wasOnline = getPresence(db, res.locals.userId)?.isOnline ?? false;
+        db.prepare('UPDATE users SET last_seen = ? WHERE id = ?').run(Date.now(), res.locals.userId);
+        push.pinged(res.locals.userId, wasOnline);
+        res.json({ status: 'OK' });
+    });
+
+    router.post('/status/batch', auth, (req, res) => {
+        const ids = req.body?.ids;
+        if (!Array.isArray(ids) || ids.length > MAX_STATUS_BATCH) {
+            res.status(400).json({ error: 'Invalid IDs' });
+            return;
+        }
+
+        const status: Record<string, PresenceStatus> = {};
+
+        for (const id of ids) {
+            if (!isValidUserId(id)) continue;
+            // Keyed by the ID the client asked for, whichever format it is
+            const presence = getPresence(db, id);
+            if (presence) status[id] = presence;
+        }
+
+        res.json(status);
+    });
+
+    return router;
+}
@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+
+/**
+ * User IDs, same derivations as the app (utils/UserId.ts).
+ *
+ * Current format: first 120 bits of SHA-256(public key hex) in Crockford base32 plus a
+ * Luhn mod 32 check character (25 characters). Legacy format: first 12 hex characters of
+ * the same hash. Every account answers to both (see user_aliases).
+ */
+
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ID_BYTES = 15;
+const ID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{25}$/;
+const LEGACY_ID_PATTERN = /^[A-F0-9]{12}$/;
+
+function encodeBase32(bytes: Buffer): string {
+    let out = '';
+    let buffer = 0;
+    let bits = 0;
+    for (const byte of bytes) {
+        buffer = (buffer << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            out += ALPHABET[(buffer >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+        buffer &= (1 << bits) - 1;
+    }
+    if (bits > 0) out += ALPHABET[(buffer << (5 - bits)) & 31];
+    return out;
+}
+
+function luhnSum(chars: string, withCheck: boolean): number {
+    let factor = withCheck ? 1 : 2;
+    let sum = 0;
+    for (let i = chars.length - 1; i >= 0; i--) {
+        const addend = factor * ALPHABET.indexOf(chars[i]);
+        sum += Math.floor(addend / 32) + (addend % 32);
+        factor = factor === 2 ? 1 : 2;
+    }
+    return sum % 32;
+}
+
+function idHash(publicKeyHex: string): Buffer {
+    return createHash('sha256').update(publicKeyHex.toLowerCase()).digest();
+}
+
+export function deriveUserId(publicKeyHex: string): string {
+    const payload = encodeBase32(idHash(publicKeyHex).subarray(0, ID_BYTES));
+    return payload + ALPHABET[(32 - luhnSum(payload, false)) % 32];
+}
+
+export function deriveLegacyUserId(publicKeyHex: string): string {
+    return idHash(publicKeyHex).toString('hex').substring(0, 12).toUpperCase();
+}
+
+export function isValidUserId(id: unknown): id is string {
+    if (typeof id !== 'string') return false;
+    if (LEGACY_ID_PATTERN.test(id)) return true;
+    return ID_PATTERN.test(id) && luhnSum(id, true) === 0;
+}
+
+/**
+ * The ID of this key in the format `id` is not in (the alias an account gets)
+ */
+export function otherFormatUserId(id: string, publicKeyHex: string): string {
+    return LEGACY_ID_PATTERN.test(id) ? deriveUserId(publicKeyHex) : deriveLegacyUserId(publicKeyHex);
+}
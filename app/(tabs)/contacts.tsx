@@ -1,44 +1,31 @@
-import nacl from '@/components/CryptoPolyfill';
 import { getGhostStyles } from '@/components/GhostTheme';
+import VaultImage from '@/components/VaultImage';
 import { getServerURL } from '@/constants/Config';
 import { useTheme } from '@/context/ThemeContext';
 import { authFetch, getBoxPublicKeyHex, getBoxSecretKey, getMyID } from '@/utils/AuthHelper';
-import { secureGet, secureSet } from '@/utils/SecureStorage';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { encode as encodeBase64 } from 'base-64';
+import { Contact, getPeerContacts, getPresence, Presence, removeContact, updateContacts } from '@/utils/ContactRepository';
+import { ContactCard } from '@/utils/Envelope';
+import { FriendRequest, FriendRequestSender, getFriendRequests } from '@/utils/FriendRequestRepository';
+import { createAcceptEnvelope } from '@/utils/Handshake';
+import { deleteMedia, storeAvatar } from '@/utils/MediaVault';
+import { queueEnvelope } from '@/utils/Outbox';
+import { getProfile } from '@/utils/ProfileRepository';
+import { deleteSession } from '@/utils/RatchetSession';
+import { refreshFriendRequests, useSyncEvent } from '@/utils/SyncEngine';
+import { deriveUserId, isValidUserId, normalizeUserId, userIdMatchesKey } from '@/utils/UserId';
 import { CameraView, useCameraPermissions } from 'expo-camera';
-import * as FileSystem from 'expo-file-system/legacy';
 import { useFocusEffect, useRouter } from 'expo-router';
 import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { Alert, FlatList, Image, KeyboardAvoidingView, Modal, Platform, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
-const CONTACTS_KEY = "my_contacts_list_v1";
-const PROFILE_KEY = "my_profile_data_v1";
-
-const stringToUint8Array = (str: string) => { const bytes = new Uint8Array(str.length); for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xFF; return bytes; };
 const toHex = (buffer: Uint8Array) => Array.prototype.map.call(new Uint8Array(buffer), (x: number) => ('00' + x.toString(16)).slice(-2)).join('');
-const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
-
-interface Contact {
-    id: string;
-    name: string;
-    key: string;
-    avatar?: string | null;
-    isSelf?: boolean;
-    alias?: string;
-    isBlocked?: boolean;
-}
-
-interface FriendRequest {
-    from: Contact;
-    timestamp: string;
-}
 
 // ─── QR Code Validation ─────────────────────────────────────────
 function validateQRContact(data: any): boolean {
     if (!data || typeof data !== 'object') return false;
-    if (typeof data.id !== 'string' || data.id.length !== 12 || !/^[A-F0-9]+$/i.test(data.id)) return false;
     if (typeof data.key !== 'string' || data.key.length !== 64 || !/^[a-f0-9]+$/i.test(data.key)) return false;
+    // Either ID format, as long as it belongs to the key
+    if (typeof data.id !== 'string' || !isValidUserId(data.id.toUpperCase()) || !userIdMatchesKey(data.id, data.key)) return false;
     if (data.name && (typeof data.name !== 'string' || data.name.length > 50)) return false;
     return true;
 }
@@ -53,11 +40,11 @@ export default function ContactsScreen() {
     const [permission, requestPermission] = useCameraPermissions();
     const [notification, setNotification] = useState<{ message: string, type: string } | null>(null);
     const [myID, setMyID] = useState<string | null>(null);
-    const [myProfile, setMyProfile] = useState<Contact | null>(null);
+    const [myProfile, setMyProfile] = useState<ContactCard | null>(null);
     const mySecretKeyRef = useRef<Uint8Array | null>(null);
     const [isAddModalVisible, setIsAddModalVisible] = useState(false);
     const [isIdInputVisible, setIsIdInputVisible] = useState(false);
-    const [contactPresence, setContactPresence] = useState<{ [key: string]: { isOnline: boolean, lastSeen: number | null } }>({});
+    const [contactPresence, setContactPresence] = useState<Record<string, Presence>>({});
     const [idToAdd, setIdToAdd] = useState("");
 
     const isProcessingScanRef = useRef(false);
@@ -67,30 +54,25 @@ export default function ContactsScreen() {
             loadIdentity();
             loadContacts();
             loadPresence();
-            const contactInterval = setInterval(loadContacts, 3000);
-            const presenceInterval = setInterval(loadPresence, 3000);
-            return () => {
-                clearInterval(contactInterval);
-                clearInterval(presenceInterval);
-            };
+            loadRequests();
         }, [])
     );
 
-    useFocusEffect(
-        useCallback(() => {
-            if (!myID) return;
-            pollRequests();
-            const interval = setInterval(pollRequests, 5000);
-            return () => clearInterval(interval);
-        }, [myID])
-    );
+    // The sync engine stores what the relay sends; the list is reloaded from storage
+    useSyncEvent('contactAdded', () => loadContacts());
+    useSyncEvent('profileUpdated', () => loadContacts());
+    useSyncEvent('keyChanged', () => loadContacts());
+    useSyncEvent('signal', ({ type }) => {
+        if (type === 'delete' || type === 'key_rotation') loadContacts();
+    });
+    useSyncEvent('presence', () => loadPresence());
+    useSyncEvent('friendRequests', () => loadRequests());
 
     const loadIdentity = async () => {
         try {
             const secretKey = await getBoxSecretKey();
             const id = await getMyID();
-            const profileJson = await secureGet(PROFILE_KEY);
-            const profile = profileJson ? JSON.parse(profileJson) : { pseudo: "Unknown" };
+            const profile = await getProfile();
             const pkHex = await getBoxPublicKeyHex();
 
             if (secretKey && id && pkHex) {
@@ -99,8 +81,8 @@ export default function ContactsScreen() {
                 setMyProfile({
                     id: id,
                     key: pkHex,
-                    name: profile.pseudo,
-                    avatar: profile.avatar
+                    name: profile?.pseudo ?? "Unknown",
+                    avatar: profile?.avatar ?? null
                 });
             }
         } catch (e) {
@@ -109,34 +91,24 @@ export default function ContactsScreen() {
     };
 
     const loadPresence = async () => {
-        try {
-            const json = await AsyncStorage.getItem("contact_presence");
-            if (json) {
-                setContactPresence(JSON.parse(json));
-            }
-        } catch (e) { }
+        setContactPresence(await getPresence());
     };
 
     const loadContacts = async () => {
-        try {
-            const json = await secureGet(CONTACTS_KEY);
-            if (json) {
-                const list = JSON.parse(json);
-                setContacts(list.filter((c: any) => !c.isSelf));
-            }
-        } catch (e) { }
+        setContacts(await getPeerContacts());
     };
 
-    const pollRequests = async () => {
+    const loadRequests = async () => {
         try {
-            const serverURL = await getServerURL();
-            const res = await authFetch(`${serverURL}/friend-requests/${myID}`, { method: 'GET' });
-            if (res.ok) {
-                const data = await res.json();
-                setRequests(data);
-                await secureSet("my_contact_requests_v1", JSON.stringify(data));
-            }
-        } catch (e) { }
+            setRequests(await getFriendRequests());
+        } catch (e) {
+            console.error("[REQUESTS] Failed to load friend requests", e);
+        }
+    };
+
+    // The answered request leaves the list (and the badge) once the relay has dropped it
+    const refreshRequests = () => {
+        refreshFriendRequests().catch(e => console.warn("[REQUESTS] Refresh failed", e));
     };
 
     const showNotification = (message: string, type = 'success') => {
@@ -150,14 +122,15 @@ export default function ContactsScreen() {
 
         setIsScanning(false);
         try {
-            const targetContact = JSON.parse(data);
+            const scanned = JSON.parse(data);
 
             // Validate QR code format
-            if (!validateQRContact(targetContact)) {
+            if (!validateQRContact(scanned)) {
                 showNotification("QR Code invalide ou corrompu", "error");
                 isProcessingScanRef.current = false;
                 return;
             }
+            const targetContact = { ...scanned, id: deriveUserId(scanned.key) };
 
             if (targetContact.id === myID) {
                 showNotification("Vous ne pouvez pas vous ajouter vous-même", "error");
@@ -190,14 +163,13 @@ export default function ContactsScreen() {
                 return;
             }
 
-            const profileJson = await secureGet(PROFILE_KEY);
-            const profile = profileJson ? JSON.parse(profileJson) : { pseudo: "Unknown" };
+            const profile = await getProfile();
 
-            const from = {
+            const from: ContactCard = {
                 id,
                 key: pkHex,
-                name: profile.pseudo || "Unknown",
-                avatar: profile.avatar || null
+                name: profile?.pseudo || "Unknown",
+                avatar: profile?.avatar || null
             };
 
             const serverURL = await getServerURL();
@@ -221,70 +193,51 @@ export default function ContactsScreen() {
         }
     };
 
-    const saveAvatarLocally = async (id: string, base64Data: string) => {
-        try {
-            // Limit avatar size (max 500KB base64)
-            if (base64Data.length > 500000) {
-                console.warn("[AVATAR] Avatar too large, skipping save");
-                return null;
-            }
-            const parts = base64Data.split(';base64,');
-            const b64 = parts[1] || parts[0];
-            if (!b64 || b64.length === 0) return null;
-            const filename = `avatar_${id}_${Date.now()}.jpg`;
-            const fileUri = (FileSystem.documentDirectory || "") + filename;
-            await FileSystem.writeAsStringAsync(fileUri, b64, { encoding: 'base64' });
-            return fileUri;
-        } catch (err) {
-            console.error("[AVATAR] Failed to save local file", err);
-            return null;
-        }
-    };
-
-    const addContactLocally = async (newContact: any, silent = false) => {
-        const current = await secureGet(CONTACTS_KEY);
-        let list = current ? JSON.parse(current) : [];
-
-        const existing = list.find((c: any) => c.id === newContact.id);
-        if (existing) {
-            if (existing.key !== newContact.key) {
-                console.warn(`[SECURITY] Key mismatch for ${newContact.id}`);
-                list = list.map((c: any) => c.id === newContact.id ? { ...c, securityWarning: true, pendingNewKey: newContact.key } : c);
-                await secureSet(CONTACTS_KEY, JSON.stringify(list));
-                if (!silent) Alert.alert("Alerte Sécurité", `Le numéro de sécurité de ${newContact.name} a changé.`);
-            }
-            return;
-        }
-
-        let finalAvatar = newContact.avatar;
-        if (newContact.avatar && newContact.avatar.startsWith('data:')) {
-            const local = await saveAvatarLocally(newContact.id, newContact.avatar);
-            if (local) finalAvatar = local;
-        }
-
-        const contact = {
+    const addContactLocally = async (newContact: { id: string, key: string, name?: string, avatar?: string | null }, silent = false) => {
+        const contact: Contact = {
             id: newContact.id,
             name: newContact.name || `Contact ${newContact.id.substring(0, 4)}`,
             key: newContact.key,
-            avatar: finalAvatar || null,
+            ...await storeAvatar(newContact.avatar ?? null),
             isSelf: false
         };
 
-        list.push(contact);
-        await secureSet(CONTACTS_KEY, JSON.stringify(list));
-        setContacts(list);
+        let outcome = 'added' as 'added' | 'known' | 'keyChanged';
+        const list = await updateContacts(current => {
+            const existing = current.find(c => c.id === contact.id);
+            if (!existing) return [...current, contact];
+            if (existing.key === contact.key) {
+                outcome = 'known';
+                return current;
+            }
+            console.warn(`[SECURITY] Key mismatch for ${contact.id}`);
+            outcome = 'keyChanged';
+            return current.map(c => c.id === contact.id ? { ...c, securityWarning: true, pendingNewKey: contact.key } : c);
+        });
+
+        if (outcome === 'keyChanged' && !silent) Alert.alert("Alerte Sécurité", `Le numéro de sécurité de ${contact.name} a changé.`);
+        if (outcome !== 'added') {
+            await deleteMedia(contact.avatar);
+            return;
+        }
+        setContacts(list.filter(c => !c.isSelf));
         if (!silent) showNotification(`${contact.name} ajouté !`, "success");
     };
 
     const acceptRequest = async (req: FriendRequest) => {
         try {
             console.log(`[ACCEPT] Accepting request from ${req.from.id}...`);
+            if (!userIdMatchesKey(req.from.id, req.from.key)) {
+                showNotification("Demande invalide", "error");
+                return;
+            }
+            // The handshake answers the ID the sender advertised; the contact is stored under the current format
             await sendHandshake(req.from);
-            await addContactLocally(req.from, true);
+            await addContactLocally({ ...req.from, id: deriveUserId(req.from.key) }, true);
             await removeRequest(req.from.id);
             showNotification(`${req.from.name} accepté !`, "success");
             loadContacts();
-            pollRequests();
+            refreshRequests();
         } catch (e) {
             console.error("[ACCEPT] Failed to accept request", e);
             showNotification("Erreur lors de l'acceptation", "error");
@@ -294,7 +247,7 @@ export default function ContactsScreen() {
     const rejectRequest = async (req: FriendRequest) => {
         await removeRequest(req.from.id);
         showNotification("Demande refusée", "secondary");
-        pollRequests();
+        refreshRequests();
     };
 
     const removeRequest = async (fromId: string) => {
@@ -322,13 +275,11 @@ export default function ContactsScreen() {
                         if (contactToDelete) {
                             await sendDeleteSignal(contactToDelete);
                         }
+                        await deleteSession(id);
 
-                        const updated = contacts.filter(c => c.id !== id);
-                        setContacts(updated);
-                        const current = await secureGet(CONTACTS_KEY);
-                        let fullList = current ? JSON.parse(current) : [];
-                        const newList = fullList.filter((c: any) => c.id !== id);
-                        await secureSet(CONTACTS_KEY, JSON.stringify(newList));
+                        setContacts(contacts.filter(c => c.id !== id));
+                        await removeContact(id);
+                        await deleteMedia(contactToDelete?.avatar);
                         showNotification("Contact supprimé", "success");
                     }
                 }
@@ -339,65 +290,30 @@ export default function ContactsScreen() {
     const sendDeleteSignal = async (target: any) => {
         if (!mySecretKeyRef.current) return;
         try {
-            const serverURL = await getServerURL();
-            // FIX: Use hex decode (not base64) for public key - consistent with rest of codebase
-            const targetPub = new Uint8Array(target.key.match(/.{1,2}/g).map((byte: string) => parseInt(byte, 16)));
-            const nonce = nacl.randomBytes(nacl.box.nonceLength);
-            const signal = "GHOST_SIGNAL:DELETE";
-            const encrypted = nacl.box(stringToUint8Array(signal), nonce, targetPub, mySecretKeyRef.current!);
-            const fullMessage = new Uint8Array(nonce.length + encrypted.length);
-            fullMessage.set(nonce); fullMessage.set(encrypted, nonce.length);
-
-            await authFetch(`${serverURL}/send`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    to: target.id,
-                    encryptedContent: encodeBase64(uint8ArrayToString(fullMessage))
-                })
-            });
-            console.log(`[DELETE_SYNC] Signal sent to ${target.id}`);
+            // Encrypted when sent; the Outbox then deletes the session again
+            await queueEnvelope(target, { type: 'delete' });
+            console.log(`[DELETE_SYNC] Signal queued for ${target.id}`);
         } catch (e) {
             console.error("Delete signal failed", e);
         }
     };
 
-    const sendHandshake = async (target: any) => {
+    const sendHandshake = async (target: FriendRequestSender) => {
         if (!myProfile || !mySecretKeyRef.current) return;
         try {
-            const serverURL = await getServerURL();
-            const targetPub = new Uint8Array(target.key.match(/.{1,2}/g).map((byte: any) => parseInt(byte, 16)));
-            const nonce = nacl.randomBytes(nacl.box.nonceLength);
-
-            const profileJson = await secureGet(PROFILE_KEY);
-            const profile = profileJson ? JSON.parse(profileJson) : {};
+            const profile = await getProfile();
 
             // Include id and key so the requester can add us as a contact
-            const handshakeData = {
+            const handshakeData: ContactCard = {
                 id: myProfile.id,
-                name: profile.pseudo || myProfile.name,
+                name: profile?.pseudo || myProfile.name || "",
                 key: myProfile.key,
-                avatar: profile.avatar || myProfile.avatar || null
+                avatar: profile?.avatar || myProfile.avatar || null
             };
 
-            const signal = "GHOST_SIGNAL:ACCEPT:" + JSON.stringify(handshakeData);
-            const encrypted = nacl.box(stringToUint8Array(signal), nonce, targetPub, mySecretKeyRef.current!);
-
-            const myPubKey = nacl.box.keyPair.fromSecretKey(mySecretKeyRef.current!).publicKey;
-            const fullMessage = new Uint8Array(myPubKey.length + nonce.length + encrypted.length);
-            fullMessage.set(myPubKey);
-            fullMessage.set(nonce, myPubKey.length);
-            fullMessage.set(encrypted, myPubKey.length + nonce.length);
-
-            await authFetch(`${serverURL}/send`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    to: target.id,
-                    encryptedContent: encodeBase64(uint8ArrayToString(fullMessage))
-                })
-            });
-            console.log(`[HANDSHAKE] Sent anonymous handshake to ${target.id}`);
+            // Boxed with our identity key: there is no session yet
+            await queueEnvelope(target, await createAcceptEnvelope(handshakeData, target.id), { seal: 'identity' });
+            console.log(`[HANDSHAKE] Queued handshake for ${target.id}`);
         } catch (e) {
             console.error("Handshake failed", e);
         }
@@ -417,8 +333,13 @@ export default function ContactsScreen() {
 
     const handleAddById = async () => {
         if (!idToAdd.trim()) return;
+        // The check character catches typos before anything is sent
+        const targetId = normalizeUserId(idToAdd);
+        if (!targetId) {
+            Alert.alert("Identifiant invalide", "Vérifiez la saisie : un caractère est erroné ou manquant.");
+            return;
+        }
         setIsIdInputVisible(false);
-        const targetId = idToAdd.trim().toUpperCase();
 
         if (contacts.find(c => c.id === targetId)) {
             showNotification("Déjà dans vos contacts", "warning");
@@ -523,7 +444,7 @@ export default function ContactsScreen() {
                     >
                         <View style={styles.avatarContainer}>
                             {item.avatar ? (
-                                <Image source={{ uri: item.avatar }} style={styles.avatarImage} />
+                                <VaultImage uri={item.avatar} fileKey={item.avatarKey} style={styles.avatarImage} />
                             ) : (
                                 <Text style={{ fontSize: 24, color: colors.textSecondary }}>👤</Text>
                             )}
@@ -596,13 +517,14 @@ export default function ContactsScreen() {
                     <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'flex-end' }}>
                         <View style={{ backgroundColor: colors.surface, borderTopLeftRadius: 30, borderTopRightRadius: 30, padding: 25, minHeight: 300 }}>
                             <Text style={{ fontSize: 20, fontWeight: 'bold', marginBottom: 20, textAlign: 'center', color: colors.text }}>Ajouter par ID</Text>
-                            <Text style={styles.label}>IDENTIFIANT DU CONTACT (12 CAR.)</Text>
+                            <Text style={styles.label}>IDENTIFIANT DU CONTACT</Text>
                             <TextInput
                                 style={[styles.input, { textAlign: 'center', fontSize: 20, letterSpacing: 2, borderBottomWidth: 1, borderBottomColor: colors.border }]}
-                                placeholder="A1B2C3D4..."
+                                placeholder="A1B2C-3D4E5-..."
                                 placeholderTextColor={colors.textSecondary}
                                 autoCapitalize="characters"
-                                maxLength={12}
+                                autoCorrect={false}
+                                maxLength={29}
                                 value={idToAdd}
                                 onChangeText={setIdToAdd}
                                 autoFocus
@@ -1,30 +1,19 @@
-import nacl from '@/components/CryptoPolyfill';
 import { getGhostStyles } from '@/components/GhostTheme';
 import { AVATARS } from '@/constants/Avatars';
-import { getServerURL } from '@/constants/Config';
 import { useTheme } from '@/context/ThemeContext';
-import { authFetch } from '@/utils/AuthHelper';
-import { secureGet, secureSet } from '@/utils/SecureStorage';
-import { decode as decodeBase64, encode as encodeBase64 } from 'base-64';
+import { getBoxPublicKeyHex, getMyID } from '@/utils/AuthHelper';
+import { getPeerContacts } from '@/utils/ContactRepository';
+import { queueEnvelope } from '@/utils/Outbox';
+import { getProfile, Profile, saveProfile } from '@/utils/ProfileRepository';
+import { formatUserId } from '@/utils/UserId';
 import * as Clipboard from 'expo-clipboard';
-import * as Crypto from 'expo-crypto';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as ImagePicker from 'expo-image-picker';
 import { useRouter } from 'expo-router';
-import * as SecureStore from 'expo-secure-store';
 import React, { useMemo, useState } from 'react';
 import { Alert, Image, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import QRCode from 'react-native-qrcode-svg';
 
-const PROFILE_KEY = "my_profile_data_v1";
-const STORAGE_KEY = "my_permanent_secret_key_v1";
-const CONTACTS_KEY = "my_contacts_list_v1";
-
-const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
-const stringToUint8Array = (str: string) => { const bytes = new Uint8Array(str.length); for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i); return bytes; };
-const toHex = (buffer: ArrayBuffer | Uint8Array) => Array.prototype.map.call(new Uint8Array(buffer), x => ('00' + x.toString(16)).slice(-2)).join('');
-
-
 export default function ProfileScreen() {
     const { colors, isDark } = useTheme();
     const styles = useMemo(() => getGhostStyles(colors), [colors]);
@@ -47,41 +36,35 @@ export default function ProfileScreen() {
 
     const loadProfile = async () => {
         try {
-            const json = await secureGet(PROFILE_KEY);
-            if (json) {
-                const p = JSON.parse(json);
+            const p = await getProfile();
+            if (p) {
                 setPseudo(p.pseudo);
                 setAvatar(p.avatar);
                 setEditPseudo(p.pseudo);
-                setEditAvatar(p.avatar);
+                setEditAvatar(p.avatar ?? "");
             }
 
-            const stored = await SecureStore.getItemAsync(STORAGE_KEY);
-            if (stored) {
-                const secretKey = new Uint8Array(stringToUint8Array(decodeBase64(stored)));
-                const keyPair = nacl.box.keyPair.fromSecretKey(secretKey);
-                const pkHex = toHex(keyPair.publicKey);
-                const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, pkHex);
-                const id = hash.substring(0, 12).toUpperCase();
+            const id = await getMyID();
+            const pkHex = await getBoxPublicKeyHex();
+            if (id && pkHex) {
                 setMyID(id);
 
-                updateQR(id, pkHex, json);
+                updateQR(id, pkHex, p);
             }
         } catch (e) {
             console.error("Profile: Error loading profile", e);
         }
     };
 
-    const updateQR = (id: string, pkHex: string, jsonStr: string | null) => {
-        const p = JSON.parse(jsonStr || "{}");
+    const updateQR = (id: string, pkHex: string, p: Profile | null) => {
         // Don't include Base64 avatar in QR code as it's too big
-        const isBase64 = p.avatar && p.avatar.startsWith('data:');
+        const isBase64 = p?.avatar && p.avatar.startsWith('data:');
 
         const data = JSON.stringify({
             id: id,
             key: pkHex,
-            name: p.pseudo || "Unknown",
-            avatar: isBase64 ? null : p.avatar
+            name: p?.pseudo || "Unknown",
+            avatar: isBase64 ? null : p?.avatar ?? null
         });
         setQrValue(data);
     };
@@ -89,27 +72,19 @@ export default function ProfileScreen() {
     const saveProfileChanges = async () => {
         if (!editPseudo.trim()) return;
 
-        const updatedProfile = {
-            pseudo: editPseudo.trim(),
-            avatar: editAvatar
-        };
-
         try {
-            await secureSet(PROFILE_KEY, JSON.stringify(updatedProfile));
+            const updatedProfile = await saveProfile({ pseudo: editPseudo, avatar: editAvatar });
             setPseudo(updatedProfile.pseudo);
             setAvatar(updatedProfile.avatar);
             setIsEditing(false);
 
             // Update QR code with new info
-            const stored = await SecureStore.getItemAsync(STORAGE_KEY);
-            if (stored) {
-                const secretKey = new Uint8Array(stringToUint8Array(decodeBase64(stored)));
-                const keyPair = nacl.box.keyPair.fromSecretKey(secretKey);
-                const pkHex = toHex(keyPair.publicKey);
-                updateQR(myID, pkHex, JSON.stringify(updatedProfile));
+            const pkHex = await getBoxPublicKeyHex();
+            if (pkHex) {
+                updateQR(myID, pkHex, updatedProfile);
 
                 // BROADCAST TO CONTACTS
-                broadcastProfileUpdate(updatedProfile, secretKey);
+                broadcastProfileUpdate(updatedProfile);
             }
             Alert.alert("Succès", "Profil mis à jour !");
         } catch (e) {
@@ -118,38 +93,14 @@ export default function ProfileScreen() {
         }
     };
 
-    const broadcastProfileUpdate = async (profileData: any, mySecretKey: Uint8Array) => {
+    const broadcastProfileUpdate = async (profileData: Profile) => {
         try {
-            const contactsJson = await secureGet(CONTACTS_KEY);
-            if (!contactsJson) return;
-            const contacts = JSON.parse(contactsJson);
-            const serverURL = await getServerURL();
-
-            const signal = `GHOST_SIGNAL:PROFILE_UPDATE:${JSON.stringify(profileData)}`;
+            const contacts = await getPeerContacts();
 
             for (const contact of contacts) {
-                if (contact.isSelf) continue;
                 try {
-                    const nonce = nacl.randomBytes(nacl.box.nonceLength);
-                    const msgBytes = stringToUint8Array(signal);
-                    const peerPublicKeyBytes = new Uint8Array(contact.key.match(/.{1,2}/g).map((byte: string) => parseInt(byte, 16)));
-                    const encrypted = nacl.box(msgBytes, nonce, peerPublicKeyBytes, mySecretKey);
-
-                    const fullMessage = new Uint8Array(nonce.length + encrypted.length);
-                    fullMessage.set(nonce);
-                    fullMessage.set(encrypted, nonce.length);
-
-                    const base64Content = encodeBase64(uint8ArrayToString(fullMessage));
-
-                    await authFetch(`${serverURL}/send`, {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({
-                            to: contact.id,
-                            encryptedContent: base64Content
-                        })
-                    });
-                    console.log(`[PROFILE_SYNC] Signal sent to ${contact.id}`);
+                    await queueEnvelope(contact, { type: 'profile_update', pseudo: profileData.pseudo, avatar: profileData.avatar });
+                    console.log(`[PROFILE_SYNC] Signal queued for ${contact.id}`);
                 } catch (err) {
                     console.error(`[PROFILE_SYNC] Failed to send signal to ${contact.id}`, err);
                 }
@@ -182,7 +133,7 @@ export default function ProfileScreen() {
     };
 
     const copyToClipboard = async () => {
-        await Clipboard.setStringAsync(myID);
+        await Clipboard.setStringAsync(formatUserId(myID));
         Alert.alert("Copié !", "L'ID a été copié dans le presse-papier.");
     };
 
@@ -284,7 +235,7 @@ export default function ProfileScreen() {
                                     }}>
                                         <TextInput
                                             style={{ flex: 1, padding: 10, fontSize: 13, color: colors.text, textAlign: 'center' }}
-                                            value={myID}
+                                            value={formatUserId(myID)}
                                             editable={false}
                                         />
                                         <TouchableOpacity
@@ -1,38 +1,62 @@
 import { GhostStyles } from '@/components/GhostTheme';
 import LockScreen from '@/components/LockScreen';
-import { getServerURL } from '@/constants/Config';
+import RecoveryPhraseView from '@/components/RecoveryPhraseView';
 import { useTheme } from '@/context/ThemeContext';
-import { authFetch, clearAuthCache, getMyID } from '@/utils/AuthHelper';
-import { clearSecureStorageCache, secureGet, secureSet } from '@/utils/SecureStorage';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { wipeAccount, wipeOpenVault } from '@/utils/AccountWipe';
+import { createBackup, MIN_PASSPHRASE_LENGTH } from '@/utils/Backup';
+import { Contact, getContacts, getPeerContacts, updateContacts } from '@/utils/ContactRepository';
+import { clearAllConversations } from '@/utils/ConversationRepository';
+import { DuressAction, getDuressAction, removeDuressPin } from '@/utils/DuressPin';
+import { rotateIdentity } from '@/utils/KeyRotation';
+import { disableSecretWrapping, getActiveVault, isDecoyActive, vaultKey } from '@/utils/MasterKey';
+import { formatReclaimedSize, sweepOrphanedMedia } from '@/utils/MediaCollector';
+import { getProfile, Profile } from '@/utils/ProfileRepository';
+import { getRecoveryPhrase } from '@/utils/RecoveryPhrase';
+import { getRecoverySetup, RecoverySetup } from '@/utils/RecoveryRepository';
+import { distributeRecoveryShares, MAX_RECOVERY_HOLDERS, MIN_RECOVERY_THRESHOLD } from '@/utils/SocialRecovery';
+import { listVaults, MAX_VAULTS, VaultInfo } from '@/utils/Vaults';
 import * as FileSystem from 'expo-file-system/legacy';
 import { useFocusEffect, useRouter } from 'expo-router';
 import * as SecureStore from 'expo-secure-store';
+import * as Sharing from 'expo-sharing';
 import * as Updates from 'expo-updates';
 import React, { useCallback, useState } from 'react';
-import { Alert, Image, Modal, ScrollView, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { ActivityIndicator, Alert, Image, Modal, ScrollView, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
 const APP_LOCK_KEY = "my_app_lock_pin_v1";
 
-const CONTACTS_KEY = "my_contacts_list_v1";
-const PROFILE_KEY = "my_profile_data_v1";
-const STORAGE_KEY = "my_permanent_secret_key_v1";
-
 export default function SettingsScreen() {
     const { theme, setTheme, colors } = useTheme();
     const router = useRouter();
-    const [blockedContacts, setBlockedContacts] = useState<any[]>([]);
+    const [blockedContacts, setBlockedContacts] = useState<Contact[]>([]);
     const [readReceipts, setReadReceipts] = useState(true);
     const [onlineStatus, setOnlineStatus] = useState(true);
     const [isAppLocked, setIsAppLocked] = useState(false);
     const [showLockSetup, setShowLockSetup] = useState(false);
-    const [userProfile, setUserProfile] = useState({ pseudo: "Mon Profil", avatar: null });
+    const [userProfile, setUserProfile] = useState<Profile>({ pseudo: "Mon Profil", avatar: null });
 
     const [showLockVerify, setShowLockVerify] = useState(false);
-    const [nextAction, setNextAction] = useState<'disable' | 'modify' | 'delete' | null>(null);
+    const [nextAction, setNextAction] = useState<'disable' | 'modify' | 'delete' | 'backup' | 'phrase' | 'duress' | 'vaults' | null>(null);
     const [autoDeleteDelay, setAutoDeleteDelay] = useState<number | null>(null);
     const [showAutoDeleteModal, setShowAutoDeleteModal] = useState(false);
     const [screenshotDetection, setScreenshotDetection] = useState(false);
+    const [showBackupModal, setShowBackupModal] = useState(false);
+    const [backupPassphrase, setBackupPassphrase] = useState("");
+    const [backupConfirm, setBackupConfirm] = useState("");
+    const [recoveryWords, setRecoveryWords] = useState<string[] | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [showRecoveryModal, setShowRecoveryModal] = useState(false);
+    const [recoverySetup, setRecoverySetup] = useState<RecoverySetup | null>(null);
+    const [recoveryCandidates, setRecoveryCandidates] = useState<Contact[]>([]);
+    const [recoveryHolders, setRecoveryHolders] = useState<string[]>([]);
+    const [recoveryThreshold, setRecoveryThreshold] = useState(MIN_RECOVERY_THRESHOLD);
+    const [isDistributing, setIsDistributing] = useState(false);
+    const [duressAction, setDuressAction] = useState<DuressAction | null>(null);
+    const [showDuressModal, setShowDuressModal] = useState(false);
+    const [duressSetupAction, setDuressSetupAction] = useState<DuressAction | null>(null);
+    const [vaults, setVaults] = useState<VaultInfo[]>([]);
+    const [showVaultsModal, setShowVaultsModal] = useState(false);
+    const [showVaultSetup, setShowVaultSetup] = useState(false);
 
     useFocusEffect(
         useCallback(() => {
@@ -43,21 +67,22 @@ export default function SettingsScreen() {
     const loadSettings = async () => {
         try {
             // Load Blocked
-            const contactsJson = await secureGet(CONTACTS_KEY);
-            if (contactsJson) {
-                const list = JSON.parse(contactsJson);
-                setBlockedContacts(list.filter((c: any) => c.isBlocked));
-            }
+            const contacts = await getContacts();
+            setBlockedContacts(contacts.filter(c => c.isBlocked));
 
             // Load Privacy settings from SecureStore
-            const rr = await SecureStore.getItemAsync("privacy_read_receipts");
+            const rr = await SecureStore.getItemAsync(vaultKey("privacy_read_receipts"));
             setReadReceipts(rr !== "false");
 
-            const os = await SecureStore.getItemAsync("privacy_online_status");
+            const os = await SecureStore.getItemAsync(vaultKey("privacy_online_status"));
             setOnlineStatus(os !== "false");
 
             const storedValue = await SecureStore.getItemAsync(APP_LOCK_KEY);
             setIsAppLocked(!!storedValue);
+            // Nothing about the duress code inside the workspace it opens
+            setDuressAction(isDecoyActive() ? null : await getDuressAction());
+            // The vault list only shows from the main vault
+            setVaults(getActiveVault() ? [] : await listVaults());
 
             const delay = await SecureStore.getItemAsync("security_auto_delete_delay");
             if (delay) setAutoDeleteDelay(parseInt(delay));
@@ -66,11 +91,8 @@ export default function SettingsScreen() {
             setScreenshotDetection(ss === "true");
 
             // Load Own Profile
-            const profileJson = await secureGet(PROFILE_KEY);
-            if (profileJson) {
-                const p = JSON.parse(profileJson);
-                setUserProfile({ pseudo: p.pseudo, avatar: p.avatar });
-            }
+            const profile = await getProfile();
+            if (profile) setUserProfile(profile);
         } catch (e) {
             console.error("Failed to load settings", e);
         }
@@ -86,12 +108,12 @@ export default function SettingsScreen() {
 
     const toggleReadReceipts = async (value: boolean) => {
         setReadReceipts(value);
-        await SecureStore.setItemAsync("privacy_read_receipts", value ? "true" : "false");
+        await SecureStore.setItemAsync(vaultKey("privacy_read_receipts"), value ? "true" : "false");
     };
 
     const toggleOnlineStatus = async (value: boolean) => {
         setOnlineStatus(value);
-        await SecureStore.setItemAsync("privacy_online_status", value ? "true" : "false");
+        await SecureStore.setItemAsync(vaultKey("privacy_online_status"), value ? "true" : "false");
     };
 
     const handleLockToggle = async (value: boolean) => {
@@ -99,6 +121,15 @@ export default function SettingsScreen() {
             // Enable
             setShowLockSetup(true);
         } else {
+            // Other vaults open with their own code, which needs the lock
+            if (getActiveVault() && !isDecoyActive()) {
+                Alert.alert("Impossible", "Ce coffre s'ouvre avec son propre code : le verrouillage reste actif.");
+                return;
+            }
+            if (vaults.length > 0) {
+                Alert.alert("Impossible", "Supprimez d'abord vos autres coffres : ouvrez chacun avec son code, puis supprimez son compte.");
+                return;
+            }
             // Disable - Require verification
             setNextAction('disable');
             setShowLockVerify(true);
@@ -113,7 +144,13 @@ export default function SettingsScreen() {
     const onVerifySuccess = async () => {
         setShowLockVerify(false);
         if (nextAction === 'disable') {
-            await SecureStore.deleteItemAsync(APP_LOCK_KEY);
+            // From the decoy vault the lock only looks disabled
+            if (!isDecoyActive()) {
+                await disableSecretWrapping();
+                await SecureStore.deleteItemAsync(APP_LOCK_KEY);
+                await removeDuressPin();
+                setDuressAction(null);
+            }
             setIsAppLocked(false);
             setNextAction(null);
             Alert.alert("Succès", "Verrouillage désactivé.");
@@ -123,22 +160,26 @@ export default function SettingsScreen() {
         } else if (nextAction === 'delete') {
             setNextAction(null);
             performFinalWipe();
+        } else if (nextAction === 'backup') {
+            setNextAction(null);
+            setShowBackupModal(true);
+        } else if (nextAction === 'phrase') {
+            setNextAction(null);
+            showRecoveryPhrase();
+        } else if (nextAction === 'duress') {
+            setNextAction(null);
+            setShowDuressModal(true);
+        } else if (nextAction === 'vaults') {
+            setNextAction(null);
+            setShowVaultsModal(true);
         }
     };
 
     const unblockContact = async (id: string) => {
         try {
-            const json = await secureGet(CONTACTS_KEY);
-            if (json) {
-                let list = JSON.parse(json);
-                list = list.map((c: any) => {
-                    if (c.id === id) return { ...c, isBlocked: false };
-                    return c;
-                });
-                await secureSet(CONTACTS_KEY, JSON.stringify(list));
-                setBlockedContacts(list.filter((c: any) => c.isBlocked));
-                Alert.alert("Succès", "Contact débloqué.");
-            }
+            const list = await updateContacts(contacts => contacts.map(c => c.id === id ? { ...c, isBlocked: false } : c));
+            setBlockedContacts(list.filter(c => c.isBlocked));
+            Alert.alert("Succès", "Contact débloqué.");
         } catch (e) {
             Alert.alert("Erreur", "Action impossible.");
         }
@@ -172,6 +213,32 @@ export default function SettingsScreen() {
         return "Personnalisé";
     };
 
+    const rotateKeys = async () => {
+        Alert.alert(
+            "Renouveler mes clés",
+            "Une nouvelle identité sera créée et vos contacts en seront informés automatiquement. Votre ID va changer.",
+            [
+                { text: "Annuler", style: "cancel" },
+                {
+                    text: "Renouveler",
+                    onPress: async () => {
+                        try {
+                            if (await rotateIdentity()) {
+                                Alert.alert("Succès", "Vos clés ont été renouvelées. Notez votre nouvelle phrase de récupération : l'ancienne ne correspond plus. Les parts confiées à vos proches sont aussi à renouveler.");
+                                await Updates.reloadAsync();
+                            } else {
+                                Alert.alert("Erreur", "Le serveur n'a pas accepté la nouvelle clé. Réessayez plus tard.");
+                            }
+                        } catch (e) {
+                            console.error("Key rotation failed", e);
+                            Alert.alert("Erreur", "Action impossible.");
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
     const clearHistory = async () => {
         Alert.alert(
             "Vider les discussions",
@@ -183,10 +250,9 @@ export default function SettingsScreen() {
                     style: "destructive",
                     onPress: async () => {
                         try {
-                            const keys = await AsyncStorage.getAllKeys();
-                            const historyKeys = keys.filter(k => k.startsWith("history_") || k.startsWith("last_read_"));
-                            await AsyncStorage.multiRemove(historyKeys);
-                            Alert.alert("Succès", "Historique vidé.");
+                            await clearAllConversations();
+                            const { bytes } = await sweepOrphanedMedia();
+                            Alert.alert("Succès", `Historique vidé. ${formatReclaimedSize(bytes)} libérés.`);
                         } catch (e) {
                             Alert.alert("Erreur", "Action impossible.");
                         }
@@ -205,12 +271,158 @@ export default function SettingsScreen() {
                     await FileSystem.deleteAsync(cacheDir + file, { idempotent: true });
                 }
             }
-            Alert.alert("Succès", "Cache des médias vidé.");
+            // Files no message or contact uses anymore
+            const { files, bytes } = await sweepOrphanedMedia();
+            Alert.alert("Succès", files > 0
+                ? `Cache des médias vidé. ${files} fichier(s) orphelin(s) supprimé(s), ${formatReclaimedSize(bytes)} libérés.`
+                : "Cache des médias vidé.");
         } catch (e) {
             Alert.alert("Erreur", "Impossible de vider le cache.");
         }
     };
 
+    // The backup holds the identity key: same verification as deleting the account
+    const startBackup = () => {
+        if (isAppLocked) {
+            setNextAction('backup');
+            setShowLockVerify(true);
+        } else {
+            setShowBackupModal(true);
+        }
+    };
+
+    const showRecoveryPhrase = async () => {
+        const words = await getRecoveryPhrase();
+        if (words) {
+            setRecoveryWords(words);
+        } else {
+            Alert.alert("Erreur", "Phrase de récupération indisponible.");
+        }
+    };
+
+    // Same verification as the backup: the phrase is the identity key
+    const startRecoveryPhrase = () => {
+        if (isAppLocked) {
+            setNextAction('phrase');
+            setShowLockVerify(true);
+        } else {
+            showRecoveryPhrase();
+        }
+    };
+
+    const closeBackupModal = () => {
+        setShowBackupModal(false);
+        setBackupPassphrase("");
+        setBackupConfirm("");
+    };
+
+    const exportBackup = async () => {
+        if (backupPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+            Alert.alert("Phrase trop courte", `Choisissez au moins ${MIN_PASSPHRASE_LENGTH} caractères.`);
+            return;
+        }
+        if (backupPassphrase !== backupConfirm) {
+            Alert.alert("Erreur", "Les deux phrases ne correspondent pas.");
+            return;
+        }
+
+        setIsExporting(true);
+        let uri: string | null = null;
+        try {
+            uri = await createBackup(backupPassphrase);
+            if (!uri) throw new Error("No identity");
+            closeBackupModal();
+            await Sharing.shareAsync(uri, { mimeType: 'application/octet-stream', dialogTitle: "Sauvegarde MySecretApp" });
+        } catch (e) {
+            console.error("Backup export failed", e);
+            Alert.alert("Erreur", "Impossible de créer la sauvegarde.");
+        } finally {
+            // Only the copy the user saved through the share sheet should remain
+            if (uri) await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => { });
+            setIsExporting(false);
+        }
+    };
+
+    const openRecoveryModal = async () => {
+        const setup = await getRecoverySetup();
+        const peers = (await getPeerContacts()).filter(c => !c.isBlocked);
+        setRecoverySetup(setup);
+        setRecoveryCandidates(peers);
+        setRecoveryHolders(setup ? setup.holders.map(h => h.id).filter(id => peers.some(c => c.id === id)) : []);
+        setRecoveryThreshold(setup ? setup.threshold : MIN_RECOVERY_THRESHOLD);
+        setShowRecoveryModal(true);
+    };
+
+    const toggleRecoveryHolder = (id: string) => {
+        const next = recoveryHolders.includes(id)
+            ? recoveryHolders.filter(h => h !== id)
+            : recoveryHolders.length < MAX_RECOVERY_HOLDERS ? [...recoveryHolders, id] : recoveryHolders;
+        setRecoveryHolders(next);
+        setRecoveryThreshold(t => Math.min(Math.max(t, MIN_RECOVERY_THRESHOLD), Math.max(next.length, MIN_RECOVERY_THRESHOLD)));
+    };
+
+    const distributeShares = async () => {
+        const holders = recoveryCandidates.filter(c => recoveryHolders.includes(c.id));
+        if (holders.length < recoveryThreshold) {
+            Alert.alert("Contacts insuffisants", `Choisissez au moins ${recoveryThreshold} contacts.`);
+            return;
+        }
+
+        setIsDistributing(true);
+        try {
+            const setup = await distributeRecoveryShares(holders, recoveryThreshold);
+            if (setup) {
+                setRecoverySetup(setup);
+                setShowRecoveryModal(false);
+                Alert.alert("Succès", `Votre clé est répartie entre ${setup.holders.length} contacts. ${setup.threshold} d'entre eux suffiront à la récupérer.`);
+            } else {
+                Alert.alert("Erreur", "Trop de contacts n'ont pas pu être joints. Réessayez plus tard.");
+            }
+        } catch (e) {
+            console.error("Share distribution failed", e);
+            Alert.alert("Erreur", "Action impossible.");
+        } finally {
+            setIsDistributing(false);
+        }
+    };
+
+    // Same verification as the other lock settings
+    const startDuressSetup = () => {
+        setNextAction('duress');
+        setShowLockVerify(true);
+    };
+
+    const chooseDuressAction = (action: DuressAction) => {
+        setShowDuressModal(false);
+        setDuressSetupAction(action);
+    };
+
+    const disableDuress = async () => {
+        try {
+            await removeDuressPin();
+            setDuressAction(null);
+            setShowDuressModal(false);
+            Alert.alert("Succès", "Code de contrainte désactivé.");
+        } catch (e) {
+            Alert.alert("Erreur", "Action impossible.");
+        }
+    };
+
+    // Same verification as the duress code
+    const startVaults = () => {
+        setNextAction('vaults');
+        setShowLockVerify(true);
+    };
+
+    const startVaultSetup = () => {
+        if (vaults.length >= MAX_VAULTS) {
+            Alert.alert("Impossible", `${MAX_VAULTS} coffres au maximum.`);
+            return;
+        }
+        setShowVaultsModal(false);
+        setShowVaultSetup(true);
+    };
+
     const deleteAccount = async () => {
         Alert.alert(
             "Zone Danger",
@@ -236,34 +448,12 @@ export default function SettingsScreen() {
 
     const performFinalWipe = async () => {
         try {
-            // Notify server before wiping local data
-            try {
-                const myID = await getMyID();
-                if (myID) {
-                    const serverURL = await getServerURL();
-                    await authFetch(`${serverURL}/delete-account`, {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ id: myID })
-                    });
-                }
-            } catch (e) {
-                console.error("Failed to notify server of deletion", e);
+            // From one of the user's vaults only that vault goes; the decoy wipes like the main one
+            if (getActiveVault() && !isDecoyActive()) {
+                await wipeOpenVault();
+            } else {
+                await wipeAccount();
             }
-
-            // Clear caches
-            clearAuthCache();
-            clearSecureStorageCache();
-
-            await AsyncStorage.clear();
-            await SecureStore.deleteItemAsync(STORAGE_KEY);
-            await SecureStore.deleteItemAsync(APP_LOCK_KEY);
-            await SecureStore.deleteItemAsync("privacy_read_receipts");
-            await SecureStore.deleteItemAsync("privacy_online_status");
-            await SecureStore.deleteItemAsync("security_last_active_timestamp");
-            await SecureStore.deleteItemAsync("security_auto_delete_delay");
-            await SecureStore.deleteItemAsync("ghost_lock_failed_attempts");
-            await SecureStore.deleteItemAsync("security_screenshot_detection");
             Alert.alert("Terminé", "Votre compte a été supprimé.");
             await Updates.reloadAsync();
         } catch (e) {
@@ -364,12 +554,46 @@ export default function SettingsScreen() {
                         </TouchableOpacity>
                     )}
 
+                    {isAppLocked && !isDecoyActive() && (
+                        <TouchableOpacity onPress={startDuressSetup}>
+                            <SettingItem label="Code de contrainte" colors={colors}>
+                                <Text style={{ color: colors.primary, fontSize: 14 }}>{duressAction ? "Activé ›" : "Configurer ›"}</Text>
+                            </SettingItem>
+                        </TouchableOpacity>
+                    )}
+
+                    {isAppLocked && !getActiveVault() && (
+                        <TouchableOpacity onPress={startVaults}>
+                            <SettingItem label="Coffres" colors={colors}>
+                                <Text style={{ color: colors.primary, fontSize: 14 }}>{vaults.length > 0 ? `${vaults.length} ›` : "Configurer ›"}</Text>
+                            </SettingItem>
+                        </TouchableOpacity>
+                    )}
+
                     <TouchableOpacity onPress={() => setShowAutoDeleteModal(true)}>
                         <SettingItem label="Auto-suppression si inactif" colors={colors}>
                             <Text style={{ color: colors.textSecondary, fontSize: 14 }}>{getAutoDeleteLabel()} ›</Text>
                         </SettingItem>
                     </TouchableOpacity>
 
+                    <TouchableOpacity onPress={startRecoveryPhrase}>
+                        <SettingItem label="Phrase de récupération" colors={colors}>
+                            <Text style={{ color: colors.primary, fontSize: 14 }}>Afficher ›</Text>
+                        </SettingItem>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity onPress={openRecoveryModal}>
+                        <SettingItem label="Récupération par des proches" colors={colors}>
+                            <Text style={{ color: colors.primary, fontSize: 14 }}>Configurer ›</Text>
+                        </SettingItem>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity onPress={rotateKeys}>
+                        <SettingItem label="Renouveler mes clés" colors={colors}>
+                            <Text style={{ color: colors.primary, fontSize: 14 }}>Renouveler ›</Text>
+                        </SettingItem>
+                    </TouchableOpacity>
+
                     <SettingItem label="Bloquer les captures d'écran" last colors={colors}>
                         <Switch
                             value={screenshotDetection}
@@ -404,6 +628,11 @@ export default function SettingsScreen() {
 
                 {/* STOCKAGE */}
                 <SettingSection title="STOCKAGE ET DONNÉES" colors={colors}>
+                    <TouchableOpacity onPress={startBackup}>
+                        <SettingItem label="Exporter une sauvegarde" colors={colors}>
+                            <Text style={{ color: colors.primary, fontSize: 14 }}>Exporter ›</Text>
+                        </SettingItem>
+                    </TouchableOpacity>
                     <TouchableOpacity onPress={clearHistory}>
                         <SettingItem label="Vider toutes les discussions" colors={colors}>
                             <Text style={{ color: '#FF3B30', fontSize: 14 }}>Effacer</Text>
@@ -449,6 +678,34 @@ export default function SettingsScreen() {
                 />
             )}
 
+            {duressSetupAction && (
+                <LockScreen
+                    isSetup={true}
+                    duressAction={duressSetupAction}
+                    onUnlock={() => {
+                        setDuressAction(duressSetupAction);
+                        setDuressSetupAction(null);
+                    }}
+                    onCancel={() => {
+                        setDuressSetupAction(null);
+                    }}
+                />
+            )}
+
+            {showVaultSetup && (
+                <LockScreen
+                    isSetup={true}
+                    createsVault={true}
+                    onUnlock={() => {
+                        setShowVaultSetup(false);
+                        listVaults().then(setVaults);
+                    }}
+                    onCancel={() => {
+                        setShowVaultSetup(false);
+                    }}
+                />
+            )}
+
             {showLockSetup && (
                 <LockScreen
                     onUnlock={() => {
@@ -456,6 +713,7 @@ export default function SettingsScreen() {
                         setIsAppLocked(true);
                     }}
                     isSetup={true}
+                    keepLockType={vaults.length > 0}
                     onCancel={() => {
                         setShowLockSetup(false);
                     }}
@@ -510,6 +768,254 @@ export default function SettingsScreen() {
                     </View>
                 </View>
             </Modal>
+
+            <Modal
+                visible={showBackupModal}
+                transparent={true}
+                animationType="fade"
+                onRequestClose={closeBackupModal}
+            >
+                <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center' }}>
+                    <View style={{ width: '85%', backgroundColor: colors.surface, borderRadius: 20, padding: 20, alignItems: 'center' }}>
+                        <Text style={{ fontSize: 18, fontWeight: 'bold', color: colors.text, marginBottom: 20 }}>Sauvegarde chiffrée</Text>
+                        <Text style={{ color: colors.textSecondary, textAlign: 'center', marginBottom: 20 }}>
+                            Votre identité, vos contacts et vos discussions seront chiffrés avec cette phrase. Sans elle, la sauvegarde est illisible : notez-la en lieu sûr.
+                        </Text>
+
+                        <TextInput
+                            style={{ width: '100%', padding: 12, borderRadius: 10, borderWidth: 1, borderColor: colors.border, color: colors.text, marginBottom: 10 }}
+                            value={backupPassphrase}
+                            onChangeText={setBackupPassphrase}
+                            placeholder="Phrase secrète"
+                            placeholderTextColor={colors.textSecondary}
+                            secureTextEntry
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+                        <TextInput
+                            style={{ width: '100%', padding: 12, borderRadius: 10, borderWidth: 1, borderColor: colors.border, color: colors.text, marginBottom: 20 }}
+                            value={backupConfirm}
+                            onChangeText={setBackupConfirm}
+                            placeholder="Confirmer la phrase"
+                            placeholderTextColor={colors.textSecondary}
+                            secureTextEntry
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                        />
+
+                        <TouchableOpacity
+                            onPress={exportBackup}
+                            disabled={isExporting}
+                            style={{ width: '100%', padding: 15, borderRadius: 12, backgroundColor: colors.primary, alignItems: 'center' }}
+                        >
+                            {isExporting ? (
+                                <ActivityIndicator color="white" />
+                            ) : (
+                                <Text style={{ color: 'white', fontWeight: 'bold', fontSize: 16 }}>EXPORTER</Text>
+                            )}
+                        </TouchableOpacity>
+
+                        <TouchableOpacity
+                            onPress={closeBackupModal}
+                            disabled={isExporting}
+                            style={{ marginTop: 20, padding: 10 }}
+                        >
+                            <Text style={{ color: colors.primary, fontSize: 16 }}>Annuler</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+
+            <Modal
+                visible={showRecoveryModal}
+                transparent={true}
+                animationType="fade"
+                onRequestClose={() => setShowRecoveryModal(false)}
+            >
+                <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center' }}>
+                    <View style={{ width: '85%', maxHeight: '85%', backgroundColor: colors.surface, borderRadius: 20, padding: 20, alignItems: 'center' }}>
+                        <Text style={{ fontSize: 18, fontWeight: 'bold', color: colors.text, marginBottom: 10 }}>Récupération par des proches</Text>
+                        <Text style={{ color: colors.textSecondary, textAlign: 'center', marginBottom: 15, fontSize: 13 }}>
+                            {"Votre clé est découpée en parts confiées à des contacts. Sur un nouvel appareil, il suffira qu'assez d'entre eux vous renvoient la leur. Notez votre ID : il vous sera demandé."}
+                        </Text>
+                        {recoverySetup && (
+                            <Text style={{ color: colors.text, textAlign: 'center', marginBottom: 15, fontSize: 13 }}>
+                                Actuellement : {recoverySetup.threshold} sur {recoverySetup.holders.length} ({recoverySetup.holders.map(h => h.name).join(', ')})
+                            </Text>
+                        )}
+
+                        <ScrollView style={{ width: '100%', maxHeight: 250, marginBottom: 15 }}>
+                            {recoveryCandidates.length > 0 ? recoveryCandidates.map((c, index) => (
+                                <TouchableOpacity
+                                    key={c.id}
+                                    onPress={() => toggleRecoveryHolder(c.id)}
+                                    style={{
+                                        paddingVertical: 12, flexDirection: 'row', justifyContent: 'space-between',
+                                        borderBottomWidth: index === recoveryCandidates.length - 1 ? 0 : 1, borderBottomColor: colors.border
+                                    }}
+                                >
+                                    <Text style={{ fontSize: 16, color: colors.text }}>{c.alias || c.name}</Text>
+                                    <Text style={{ fontSize: 16, color: colors.primary }}>{recoveryHolders.includes(c.id) ? '✓' : ''}</Text>
+                                </TouchableOpacity>
+                            )) : (
+                                <Text style={{ color: colors.textSecondary, fontStyle: 'italic', textAlign: 'center' }}>Aucun contact</Text>
+                            )}
+                        </ScrollView>
+
+                        <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 20 }}>
+                            <TouchableOpacity
+                                onPress={() => setRecoveryThreshold(t => Math.max(MIN_RECOVERY_THRESHOLD, t - 1))}
+                                style={{ paddingHorizontal: 15, paddingVertical: 5 }}
+                            >
+                                <Text style={{ fontSize: 22, color: colors.primary }}>−</Text>
+                            </TouchableOpacity>
+                            <Text style={{ fontSize: 15, color: colors.text }}>
+                                {recoveryThreshold} parts sur {recoveryHolders.length} nécessaires
+                            </Text>
+                            <TouchableOpacity
+                                onPress={() => setRecoveryThreshold(t => Math.min(Math.max(recoveryHolders.length, MIN_RECOVERY_THRESHOLD), t + 1))}
+                                style={{ paddingHorizontal: 15, paddingVertical: 5 }}
+                            >
+                                <Text style={{ fontSize: 22, color: colors.primary }}>+</Text>
+                            </TouchableOpacity>
+                        </View>
+
+                        <TouchableOpacity
+                            onPress={distributeShares}
+                            disabled={isDistributing || recoveryHolders.length < recoveryThreshold}
+                            style={{
+                                width: '100%', padding: 15, borderRadius: 12, backgroundColor: colors.primary, alignItems: 'center',
+                                opacity: recoveryHolders.length < recoveryThreshold ? 0.5 : 1
+                            }}
+                        >
+                            {isDistributing ? (
+                                <ActivityIndicator color="white" />
+                            ) : (
+                                <Text style={{ color: 'white', fontWeight: 'bold', fontSize: 16 }}>DISTRIBUER LES PARTS</Text>
+                            )}
+                        </TouchableOpacity>
+
+                        <TouchableOpacity
+                            onPress={() => setShowRecoveryModal(false)}
+                            disabled={isDistributing}
+                            style={{ marginTop: 20, padding: 10 }}
+                        >
+                            <Text style={{ color: colors.primary, fontSize: 16 }}>Annuler</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+
+            <Modal
+                visible={showDuressModal}
+                transparent={true}
+                animationType="fade"
+                onRequestClose={() => setShowDuressModal(false)}
+            >
+                <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center' }}>
+                    <View style={{ width: '85%', backgroundColor: colors.surface, borderRadius: 20, padding: 20, alignItems: 'center' }}>
+                        <Text style={{ fontSize: 18, fontWeight: 'bold', color: colors.text, marginBottom: 20 }}>Code de contrainte</Text>
+                        <Text style={{ color: colors.textSecondary, textAlign: 'center', marginBottom: 20 }}>
+                            {"Un second code à saisir si l'on vous force à déverrouiller. L'écran de verrouillage réagit comme avec votre code habituel."}
+                        </Text>
+
+                        {[
+                            { action: 'decoy' as DuressAction, label: "Ouvrir un profil vide", detail: "Votre pseudo, sans contacts ni discussions." },
+                            { action: 'wipe' as DuressAction, label: "Tout effacer", detail: "Messages, contacts et identité, sans retour possible." },
+                        ].map((opt, i) => (
+                            <TouchableOpacity
+                                key={opt.action}
+                                onPress={() => chooseDuressAction(opt.action)}
+                                style={{
+                                    paddingVertical: 15,
+                                    width: '100%',
+                                    borderBottomWidth: i === 1 ? 0 : 1,
+                                    borderBottomColor: colors.border,
+                                    alignItems: 'center'
+                                }}
+                            >
+                                <Text style={{
+                                    fontSize: 16,
+                                    color: opt.action === duressAction ? colors.primary : colors.text,
+                                    fontWeight: opt.action === duressAction ? 'bold' : 'normal'
+                                }}>{opt.label}</Text>
+                                <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 4 }}>{opt.detail}</Text>
+                            </TouchableOpacity>
+                        ))}
+
+                        {duressAction && (
+                            <TouchableOpacity onPress={disableDuress} style={{ marginTop: 20, padding: 10 }}>
+                                <Text style={{ color: colors.error, fontSize: 16 }}>Désactiver le code</Text>
+                            </TouchableOpacity>
+                        )}
+
+                        <TouchableOpacity
+                            onPress={() => setShowDuressModal(false)}
+                            style={{ marginTop: duressAction ? 0 : 20, padding: 10 }}
+                        >
+                            <Text style={{ color: colors.primary, fontSize: 16 }}>Annuler</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+
+            <Modal
+                visible={showVaultsModal}
+                transparent={true}
+                animationType="fade"
+                onRequestClose={() => setShowVaultsModal(false)}
+            >
+                <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center' }}>
+                    <View style={{ width: '85%', backgroundColor: colors.surface, borderRadius: 20, padding: 20, alignItems: 'center' }}>
+                        <Text style={{ fontSize: 18, fontWeight: 'bold', color: colors.text, marginBottom: 20 }}>Coffres</Text>
+                        <Text style={{ color: colors.textSecondary, textAlign: 'center', marginBottom: 20 }}>
+                            {"Chaque coffre a sa propre identité, ses contacts et ses discussions. Le code saisi au déverrouillage choisit le coffre ouvert. Pour supprimer un coffre, ouvrez-le puis supprimez son compte."}
+                        </Text>
+
+                        {vaults.map((vault, i) => (
+                            <View
+                                key={vault.id}
+                                style={{
+                                    paddingVertical: 12,
+                                    width: '100%',
+                                    borderBottomWidth: i === vaults.length - 1 ? 0 : 1,
+                                    borderBottomColor: colors.border,
+                                    alignItems: 'center'
+                                }}
+                            >
+                                <Text style={{ fontSize: 16, color: colors.text }}>Coffre {i + 1}</Text>
+                                <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 4 }}>
+                                    Créé le {new Date(vault.createdAt).toLocaleDateString()}
+                                </Text>
+                            </View>
+                        ))}
+
+                        <TouchableOpacity
+                            onPress={startVaultSetup}
+                            style={{ width: '100%', marginTop: 20, padding: 15, borderRadius: 12, backgroundColor: colors.primary, alignItems: 'center' }}
+                        >
+                            <Text style={{ color: 'white', fontWeight: 'bold', fontSize: 16 }}>CRÉER UN COFFRE</Text>
+                        </TouchableOpacity>
+
+                        <TouchableOpacity
+                            onPress={() => setShowVaultsModal(false)}
+                            style={{ marginTop: 10, padding: 10 }}
+                        >
+                            <Text style={{ color: colors.primary, fontSize: 16 }}>Annuler</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+
+            <Modal
+                visible={recoveryWords !== null}
+                animationType="slide"
+                onRequestClose={() => setRecoveryWords(null)}
+            >
+                {recoveryWords && (
+                    <RecoveryPhraseView words={recoveryWords} onDone={() => setRecoveryWords(null)} doneLabel="FERMER" />
+                )}
+            </Modal>
         </View>
     );
 }
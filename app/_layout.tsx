@@ -1,8 +1,12 @@
-import { getServerURL } from '@/constants/Config';
-import { authFetch, clearAuthCache, ensureRegistered, getMyID } from '@/utils/AuthHelper';
+import { wipeAccount } from '@/utils/AccountWipe';
+import { clearAuthCache, ensureRegistered } from '@/utils/AuthHelper';
+import { getMasterSecret, isSecretWrapped, lockMasterSecret } from '@/utils/MasterKey';
+import { purgeMediaCache } from '@/utils/MediaVault';
+import { getProfile } from '@/utils/ProfileRepository';
 import { preventScreenCapture, allowScreenCapture } from '@/utils/ScreenshotDetector';
-import { clearSecureStorageCache, secureGet } from '@/utils/SecureStorage';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { clearReplayGuardCache } from '@/utils/ReplayGuard';
+import { clearSecureStorageCache } from '@/utils/SecureStorage';
+import { startSyncEngine, useSyncEvent } from '@/utils/SyncEngine';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Stack, useRouter, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
@@ -13,7 +17,6 @@ import LockScreen from '@/components/LockScreen';
 import * as SecureStore from 'expo-secure-store';
 import { Alert, AppState, View } from 'react-native';
 
-const PROFILE_KEY = "my_profile_data_v1";
 const APP_LOCK_KEY = "my_app_lock_pin_v1";
 
 import { ThemeProvider as AppThemeProvider, useTheme } from '@/context/ThemeContext';
@@ -30,6 +33,7 @@ function RootLayoutContent() {
     checkPin();
     checkAutoDelete(); // Check on mount
     applyScreenCapturePolicy(); // Apply screenshot prevention if enabled
+    purgeMediaCache().catch(() => { }); // Decrypted media left behind by a crash
 
     // Ensure server registration and reset timestamp to avoid immediate auto-delete
     ensureRegistered().then(() => {
@@ -40,8 +44,15 @@ function RootLayoutContent() {
       if (nextAppState === 'active') {
         checkAutoDelete(); // Check on resume
       } else if (nextAppState === 'inactive' || nextAppState === 'background') {
-        // Lock instantly if PIN is set
-        if (hasPin) setIsLocked(true);
+        // Lock instantly if PIN is set, and forget every key derived from the unwrapped secret
+        if (hasPin) {
+          setIsLocked(true);
+          lockMasterSecret();
+          clearAuthCache();
+          clearSecureStorageCache();
+          clearReplayGuardCache();
+          purgeMediaCache().catch(e => console.error("[VAULT] Cache purge failed", e));
+        }
         // Record last active time in SecureStore (tamper-resistant)
         SecureStore.setItemAsync("security_last_active_timestamp", Date.now().toString());
       }
@@ -80,35 +91,7 @@ function RootLayoutContent() {
       if (isNaN(delay) || isNaN(lastActive)) return;
 
       if (Date.now() - lastActive > delay) {
-        // Notify Server with authenticated request (best-effort)
-        try {
-          const myID = await getMyID();
-          if (myID) {
-            const serverURL = await getServerURL();
-            await authFetch(`${serverURL}/delete-account`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ id: myID })
-            });
-          }
-        } catch (e) {
-          // Server notification failed but proceed with local wipe anyway
-        }
-
-        // Clear caches before wiping
-        clearAuthCache();
-        clearSecureStorageCache();
-
-        // Wipe everything - local wipe ALWAYS happens regardless of server response
-        await AsyncStorage.clear();
-        await SecureStore.deleteItemAsync("my_permanent_secret_key_v1");
-        await SecureStore.deleteItemAsync("my_app_lock_pin_v1");
-        await SecureStore.deleteItemAsync("security_last_active_timestamp");
-        await SecureStore.deleteItemAsync("security_auto_delete_delay");
-        await SecureStore.deleteItemAsync("ghost_lock_failed_attempts");
-        await SecureStore.deleteItemAsync("privacy_read_receipts");
-        await SecureStore.deleteItemAsync("privacy_online_status");
-        await SecureStore.deleteItemAsync("security_screenshot_detection");
+        await wipeAccount();
         router.replace('/onboarding');
       } else {
         await SecureStore.setItemAsync("security_last_active_timestamp", Date.now().toString());
@@ -119,8 +102,18 @@ function RootLayoutContent() {
   };
 
   useEffect(() => {
-    checkProfile();
-  }, [segments]);
+    if (!isLocked) checkProfile();
+  }, [segments, isLocked]);
+
+  // Messages are received whatever the screen, as long as the app is unlocked
+  useEffect(() => {
+    if (isLocked && hasPin) return;
+    return startSyncEngine();
+  }, [isLocked, hasPin]);
+
+  useSyncEvent('keyChanged', ({ name }) => {
+    Alert.alert("Alerte Sécurité", `Le numéro de sécurité de ${name} a changé.`);
+  });
 
   const checkPin = async () => {
     const storedValue = await SecureStore.getItemAsync(APP_LOCK_KEY);
@@ -136,7 +129,10 @@ function RootLayoutContent() {
     const inAuthGroup = segments[0] === '(tabs)';
 
     try {
-      const profile = await secureGet(PROFILE_KEY);
+      // Still locked: the profile cannot be decrypted yet, which does not mean there is none
+      if (!(await getMasterSecret()) && await isSecretWrapped()) return;
+
+      const profile = await getProfile();
 
       if (!profile && inAuthGroup) {
         router.replace('/onboarding');
@@ -154,7 +150,14 @@ function RootLayoutContent() {
       <ThemeProvider value={isDark ? DarkTheme : DefaultTheme}>
         <View style={{ flex: 1 }}>
           <LockScreen
-            onUnlock={() => setIsLocked(false)}
+            selectsVault
+            onUnlock={() => {
+              setIsLocked(false);
+              // A duress wipe removes the lock with everything else
+              SecureStore.getItemAsync(APP_LOCK_KEY).then(value => setHasPin(!!value));
+              // Registration was skipped while the identity was still wrapped
+              ensureRegistered();
+            }}
           />
           <StatusBar style={isDark ? "light" : "dark"} />
         </View>
@@ -1,12 +1,16 @@
-import nacl from '@/components/CryptoPolyfill';
 import { getGhostStyles } from '@/components/GhostTheme';
-import { getServerURL } from '@/constants/Config';
+import VaultImage from '@/components/VaultImage';
 import { useTheme } from '@/context/ThemeContext';
-import { authFetch, getBoxSecretKey, getMyID } from '@/utils/AuthHelper';
+import { getBoxSecretKey, getMyID } from '@/utils/AuthHelper';
+import { getContact, getPresence } from '@/utils/ContactRepository';
+import { getEphemeralTimer, markConversationRead } from '@/utils/ConversationRepository';
+import { Envelope, MediaType, readStoredMedia, StoredMedia } from '@/utils/Envelope';
+import { vaultKey } from '@/utils/MasterKey';
+import { closeMedia, openMedia, storeMedia } from '@/utils/MediaVault';
+import { expireMessages, MessageCursor, readMessages, StoredMessage } from '@/utils/MessageStore';
+import { queueEnvelope, retryMessage } from '@/utils/Outbox';
 import { useScreenshotDetection } from '@/utils/ScreenshotDetector';
-import { secureGet, secureSet } from '@/utils/SecureStorage';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { encode as encodeBase64 } from 'base-64';
+import { useSyncEvent } from '@/utils/SyncEngine';
 import * as Crypto from 'expo-crypto';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as ImagePicker from 'expo-image-picker';
@@ -17,21 +21,8 @@ import { useVideoPlayer, VideoView } from 'expo-video';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ActivityIndicator, Alert, Animated, FlatList, Image, Keyboard, KeyboardAvoidingView, Modal, PanResponder, Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
-const stringToUint8Array = (str: string) => { const bytes = new Uint8Array(str.length); for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xFF; return bytes; };
-const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
 
-const CONTACTS_KEY = "my_contacts_list_v1";
-
-
-interface Message {
-  id: string;
-  text: string;
-  timestamp: number;
-  isMe: boolean;
-  localUri?: string;
-  mediaType?: string;
-  status?: 'sending' | 'sent' | 'read';
-}
+type Message = StoredMessage;
 
 const ChatVideo = ({ uri, onPress }: { uri: string, onPress: () => void }) => {
   const player = useVideoPlayer(uri, (player) => {
@@ -93,14 +84,18 @@ export default function ChatScreen() {
   const [message, setMessage] = useState("");
   const [myID, setMyID] = useState("");
   const myKeyRef = useRef<Uint8Array | null>(null);
-  const [currentContact, setCurrentContact] = useState({
+  const [currentContact, setCurrentContact] = useState<{ name: string, avatar: string | null, avatarKey?: string }>({
     name: (contactName as string) || "Chargement...",
     avatar: (contactAvatar as string) || null
   });
-  const [pendingMedia, setPendingMedia] = useState<{ uri: string, type: string, b64: string } | null>(null);
+  const [pendingMedia, setPendingMedia] = useState<{ uri: string, type: MediaType, b64: string } | null>(null);
   const [viewerMedia, setViewerMedia] = useState<{ uri: string, type: string } | null>(null);
   const [isSending, setIsSending] = useState(false);
   const flatListRef = useRef<FlatList>(null);
+  // Where the next older page starts; pages before it are only read when scrolling back
+  const olderCursor = useRef<MessageCursor | null>(null);
+  const hasScrolledBack = useRef(false);
+  const loadingOlder = useRef(false);
   const panY = useRef(new Animated.Value(0)).current;
   const [allowReadReceipts, setAllowReadReceipts] = useState(true);
   const [contactStatus, setContactStatus] = useState<{ isOnline: boolean, lastSeen: number | null }>({ isOnline: false, lastSeen: null });
@@ -108,7 +103,7 @@ export default function ChatScreen() {
   const [screenshotDetection, setScreenshotDetection] = useState(false);
 
   useEffect(() => {
-    SecureStore.getItemAsync("privacy_read_receipts").then(val => {
+    SecureStore.getItemAsync(vaultKey("privacy_read_receipts")).then(val => {
       setAllowReadReceipts(val !== "false");
     });
     SecureStore.getItemAsync("security_screenshot_detection").then(val => {
@@ -116,45 +111,29 @@ export default function ChatScreen() {
     });
     // Load ephemeral timer for this conversation
     if (contactId) {
-      SecureStore.getItemAsync(`ephemeral_timer_${contactId}`).then(val => {
-        setEphemeralTimer(val ? parseInt(val) : null);
-      });
+      getEphemeralTimer(contactId as string).then(setEphemeralTimer);
     }
   }, [contactId]);
 
+  // Ratchet session peer for this conversation
+  const getPeer = () => ({
+    id: contactId as string,
+    key: typeof contactKey === 'string' ? contactKey : contactKey[0]
+  });
+
   // Screenshot detection: notify the contact when a screenshot is taken
   const sendScreenshotSignal = async () => {
     if (!myKeyRef.current || !contactKey || !myID) return;
     try {
-      const serverURL = await getServerURL();
-      const nonce = nacl.randomBytes(nacl.box.nonceLength);
-      const signal = `GHOST_SIGNAL:SCREENSHOT:${Date.now()}`;
-
-      const pk = typeof contactKey === 'string' ? contactKey : contactKey[0];
-      const peerPublicKeyBytes = new Uint8Array(pk.match(/.{1,2}/g)!.map((byte: string) => parseInt(byte, 16)));
-
-      const encrypted = nacl.box(stringToUint8Array(signal), nonce, peerPublicKeyBytes, myKeyRef.current!);
-      const fullMessage = new Uint8Array(nonce.length + encrypted.length);
-      fullMessage.set(nonce); fullMessage.set(encrypted, nonce.length);
-
-      await authFetch(`${serverURL}/send`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          to: contactId,
-          encryptedContent: encodeBase64(uint8ArrayToString(fullMessage))
-        })
-      });
-
-      // Also save a local notification message
+      // Also save a local notification message, which follows the signal's delivery
       const screenshotMsg: Message = {
         id: `screenshot_${Date.now()}`,
         text: '📸 Vous avez pris une capture d\'écran',
         timestamp: Date.now(),
         isMe: true,
-        status: 'sent'
+        status: 'sending'
       };
-      await saveMessageToStorage(screenshotMsg);
+      await queueMessage({ type: 'screenshot', timestamp: Date.now() }, screenshotMsg);
     } catch (e) {
       console.error("[SCREENSHOT] Failed to send signal", e);
     }
@@ -162,6 +141,28 @@ export default function ChatScreen() {
 
   useScreenshotDetection(screenshotDetection, sendScreenshotSignal);
 
+  // A decrypted copy only exists while the viewer shows it
+  useEffect(() => {
+    const uri = viewerMedia?.uri;
+    return () => {
+      if (uri) closeMedia(uri).catch(() => { });
+    };
+  }, [viewerMedia]);
+
+  const openViewer = async (media: StoredMedia) => {
+    if (!media.key) {
+      setViewerMedia({ uri: media.uri, type: media.mediaType });
+      return;
+    }
+    try {
+      const uri = await openMedia({ uri: media.uri, key: media.key }, media.mediaType);
+      setViewerMedia({ uri, type: media.mediaType });
+    } catch (e) {
+      console.error("[VAULT] Cannot open media", e);
+      Alert.alert("Erreur", "Impossible d'ouvrir ce média.");
+    }
+  };
+
 
 
   useEffect(() => {
@@ -175,34 +176,46 @@ export default function ChatScreen() {
       loadContactInfo();
       loadHistory();
       markAsRead();
+      loadOnlineStatus();
     }, [contactId])
   );
 
+  // Received by the SyncEngine while the conversation is open
+  useSyncEvent('message', event => {
+    if (event.contactId !== contactId) return;
+    loadHistory();
+    markAsRead();
+    sendReadSignal();
+  });
+  useSyncEvent('history', event => {
+    if (event.contactId === contactId) loadHistory();
+  });
+  useSyncEvent('signal', event => {
+    if (event.contactId === contactId && event.type === 'read') loadHistory();
+  });
+  useSyncEvent('profileUpdated', event => {
+    if (event.contactId === contactId) loadContactInfo();
+  });
+  useSyncEvent('presence', () => loadOnlineStatus());
+
+  // Ephemeral messages expire without any event: the countdowns are refreshed on a timer
   useEffect(() => {
-    if (!contactId) return;
+    if (!contactId || !ephemeralTimer) return;
 
-    // Keep polling for background message reception
     const interval = setInterval(() => {
       loadHistory();
-      markAsRead();
-      sendReadSignal();
-      loadOnlineStatus();
       cleanExpiredMessages();
     }, 2000);
 
     return () => clearInterval(interval);
-  }, [contactId, myID, ephemeralTimer]);
+  }, [contactId, ephemeralTimer]);
 
 
   const loadContactInfo = async () => {
     try {
-      const json = await secureGet(CONTACTS_KEY);
-      if (json) {
-        const list = JSON.parse(json);
-        const c = list.find((item: any) => item.id === contactId);
-        if (c) {
-          setCurrentContact({ name: c.alias || c.name, avatar: c.avatar });
-        }
+      const c = await getContact(contactId as string);
+      if (c) {
+        setCurrentContact({ name: c.alias || c.name, avatar: c.avatar, avatarKey: c.avatarKey });
       }
     } catch (e) { }
   };
@@ -222,29 +235,11 @@ export default function ChatScreen() {
     if (!myKeyRef.current || !contactKey || !myID) return;
 
     // Privacy Check: Do not send read receipt if disabled
-    const privacy = await SecureStore.getItemAsync("privacy_read_receipts");
+    const privacy = await SecureStore.getItemAsync(vaultKey("privacy_read_receipts"));
     if (privacy === "false") return;
 
     try {
-      const serverURL = await getServerURL();
-      const nonce = nacl.randomBytes(nacl.box.nonceLength);
-      const signal = `GHOST_SIGNAL:READ:${Date.now()}`;
-
-      const pk = typeof contactKey === 'string' ? contactKey : contactKey[0];
-      const peerPublicKeyBytes = new Uint8Array(pk.match(/.{1,2}/g)!.map((byte: string) => parseInt(byte, 16)));
-
-      const encrypted = nacl.box(stringToUint8Array(signal), nonce, peerPublicKeyBytes, myKeyRef.current!);
-      const fullMessage = new Uint8Array(nonce.length + encrypted.length);
-      fullMessage.set(nonce); fullMessage.set(encrypted, nonce.length);
-
-      await authFetch(`${serverURL}/send`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          to: contactId,
-          encryptedContent: encodeBase64(uint8ArrayToString(fullMessage))
-        })
-      });
+      await queueEnvelope(getPeer(), { type: 'read', timestamp: Date.now() });
     } catch (e) { }
   };
 
@@ -252,17 +247,8 @@ export default function ChatScreen() {
   const cleanExpiredMessages = async () => {
     if (!ephemeralTimer || !contactId) return;
     try {
-      const key = `history_${contactId}`;
-      const stored = await secureGet(key);
-      if (!stored) return;
-      const history: Message[] = JSON.parse(stored);
-      const now = Date.now();
-      const expiryMs = ephemeralTimer * 1000; // timer is in seconds
-      const filtered = history.filter(m => (now - m.timestamp) < expiryMs);
-      if (filtered.length < history.length) {
-        await secureSet(key, JSON.stringify(filtered));
-        setMessages(filtered);
-      }
+      const removed = await expireMessages(contactId as string, ephemeralTimer * 1000); // timer is in seconds
+      if (removed > 0) await loadHistory(true);
     } catch (e) {
       console.error("[EPHEMERAL] Cleanup error", e);
     }
@@ -270,28 +256,47 @@ export default function ChatScreen() {
 
   const loadOnlineStatus = async () => {
     try {
-      const json = await AsyncStorage.getItem("contact_presence");
-      if (json) {
-        const presenceData = JSON.parse(json);
-        if (presenceData[contactId as string]) {
-          setContactStatus(presenceData[contactId as string]);
-        }
+      const presenceData = await getPresence();
+      if (presenceData[contactId as string]) {
+        setContactStatus(presenceData[contactId as string]);
       }
     } catch (e) { }
   };
 
-  const loadHistory = async () => {
-    const key = `history_${contactId}`;
-    const stored = await secureGet(key);
-    if (stored) setMessages(JSON.parse(stored));
+  // Refresh the newest page; older pages loaded by scrolling back are kept below it
+  const loadHistory = async (reset = false) => {
+    const { messages: latest, next } = await readMessages(contactId as string);
+    if (reset || !hasScrolledBack.current) {
+      hasScrolledBack.current = false;
+      olderCursor.current = next;
+      setMessages(latest);
+      return;
+    }
+    const latestIds = new Set(latest.map(m => m.id));
+    setMessages(prev => [...latest, ...prev.filter(m => !latestIds.has(m.id))]);
   };
 
-  /* ... existing loadHistory ... */
+  const loadOlderMessages = async () => {
+    if (!olderCursor.current || loadingOlder.current) return;
+    loadingOlder.current = true;
+    hasScrolledBack.current = true;
+    try {
+      const { messages: older, next } = await readMessages(contactId as string, olderCursor.current);
+      olderCursor.current = next;
+      setMessages(prev => {
+        const known = new Set(prev.map(m => m.id));
+        return [...prev, ...older.filter(m => !known.has(m.id))];
+      });
+    } catch (e) {
+      console.error("[HISTORY] Failed to load older messages", e);
+    } finally {
+      loadingOlder.current = false;
+    }
+  };
 
   const markAsRead = async () => {
     try {
-      const key = `last_read_${contactId}`;
-      await secureSet(key, Date.now().toString());
+      await markConversationRead(contactId as string);
     } catch (e) {
       // Silently fail if encryption key not ready yet
     }
@@ -302,17 +307,10 @@ export default function ChatScreen() {
     sendReadSignal();
   }, [contactId, myID]); // Send read signal when entering chat
 
-  const saveMessageToStorage = async (msg: Message) => {
-    const key = `history_${contactId}`;
-    const stored = await secureGet(key);
-    const history = stored ? JSON.parse(stored) : [];
-
-    // Avoid duplicates
-    if (history.find((m: any) => m.id === msg.id)) return;
-
-    const updated = [msg, ...history];
-    setMessages(updated);
-    await secureSet(key, JSON.stringify(updated));
+  // Our message goes to history as 'sending' and to the outbox, which sends it and updates its status
+  const queueMessage = async (envelope: Envelope, msg: Message) => {
+    await queueEnvelope(getPeer(), envelope, { record: msg });
+    await loadHistory();
 
     // Since we are IN the chat, mark as read immediately
     markAsRead();
@@ -320,73 +318,48 @@ export default function ChatScreen() {
 
   const send = async () => {
     if ((!message.trim() && !pendingMedia) || !myKeyRef.current) return;
-    const serverURL = await getServerURL();
     setIsSending(true);
 
     try {
-      let contentToSend = message.trim();
-      let mediaData = null;
-
-      if (pendingMedia) {
-        // Format: GHOST_MEDIA:TYPE:BASE64:CAPTION
-        contentToSend = `GHOST_MEDIA:${pendingMedia.type}:${pendingMedia.b64}:${message.trim()}`;
-        mediaData = { uri: pendingMedia.uri, type: pendingMedia.type };
-      }
-
-      const nonce = nacl.randomBytes(nacl.box.nonceLength);
-      const msgBytes = stringToUint8Array(contentToSend);
-
-      const pk = typeof contactKey === 'string' ? contactKey : contactKey[0];
-      const peerPublicKeyBytes = new Uint8Array(pk.match(/.{1,2}/g)!.map((byte: string) => parseInt(byte, 16)));
-
-      const encrypted = nacl.box(msgBytes, nonce, peerPublicKeyBytes, myKeyRef.current!);
-
-      const fullMessage = new Uint8Array(nonce.length + encrypted.length);
-      fullMessage.set(nonce);
-      fullMessage.set(encrypted, nonce.length);
-
-      const base64Content = encodeBase64(uint8ArrayToString(fullMessage));
-
-      const res = await authFetch(`${serverURL}/send`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          to: contactId,
-          encryptedContent: base64Content
-        })
-      });
-
-
-      if (res.ok) {
-        let storedText = contentToSend;
-        if (pendingMedia) {
-          storedText = `GHOST_MEDIA_REF:${pendingMedia.type}:${pendingMedia.uri}:${message.trim()}`;
-        }
-
-        const newMsg: Message = {
-          id: `${Date.now()}_${Array.from(Crypto.getRandomBytes(8)).map(b => b.toString(16).padStart(2, '0')).join('')}`,
-          text: storedText,
-          timestamp: Date.now(),
-          isMe: true,
-          localUri: mediaData?.uri,
-          mediaType: mediaData?.type,
-          status: 'sent'
-        };
-        await saveMessageToStorage(newMsg);
-        setMessage("");
-        setPendingMedia(null);
-      } else {
-        Alert.alert("Erreur", "Erreur serveur lors de l'envoi du message.");
-      }
-
+      const text = message.trim();
+      const envelope: Envelope = pendingMedia
+        ? { type: 'media', mediaType: pendingMedia.type, data: pendingMedia.b64, caption: text }
+        : { type: 'text', text };
+
+      // Media records keep the caption as text and point at an encrypted copy of the file
+      const file = pendingMedia ? await storeMedia(pendingMedia.b64) : null;
+      const newMsg: Message = {
+        id: `${Date.now()}_${Array.from(Crypto.getRandomBytes(8)).map(b => b.toString(16).padStart(2, '0')).join('')}`,
+        text,
+        timestamp: Date.now(),
+        isMe: true,
+        localUri: file?.uri,
+        mediaType: pendingMedia?.type,
+        mediaKey: file?.key,
+        status: 'sending'
+      };
+      // Stored before any network call: it goes out now or once the relay is reachable
+      await queueMessage(envelope, newMsg);
+      setMessage("");
+      setPendingMedia(null);
     } catch (e) {
-      console.error("Encryption failed", e);
-      Alert.alert("Erreur", "Échec de l'envoi. Vérifiez votre connexion.");
+      console.error("[OUTBOX] Failed to queue message", e);
+      Alert.alert("Erreur", "Impossible d'enregistrer le message.");
     } finally {
       setIsSending(false);
     }
   };
 
+  const retrySend = async (msg: Message) => {
+    try {
+      if (!(await retryMessage(contactId as string, msg.id))) {
+        Alert.alert("Erreur", "Ce message ne peut plus être renvoyé.");
+      }
+    } catch (e) {
+      console.error("[OUTBOX] Retry failed", e);
+    }
+  };
+
 
   const pickMedia = async () => {
     const result = await ImagePicker.launchImageLibraryAsync({
@@ -428,7 +401,8 @@ export default function ChatScreen() {
         const b64 = parts[1];
         const extension = uri.includes('video') ? 'mp4' : 'jpg';
         const filename = `temp_save_${Date.now()}.${extension}`;
-        const tempUri = ((FileSystem as any).documentDirectory || (FileSystem as any).cacheDirectory || "") + filename;
+        // Cache only: the document directory holds encrypted media only (see MediaVault)
+        const tempUri = (FileSystem.cacheDirectory || "") + filename;
 
         await FileSystem.writeAsStringAsync(tempUri, b64, { encoding: 'base64' });
         fileToSave = tempUri;
@@ -441,6 +415,7 @@ export default function ChatScreen() {
 
       const asset = await MediaLibrary.createAssetAsync(fileToSave);
       await MediaLibrary.createAlbumAsync("MySecretApp", asset, false);
+      if (fileToSave !== uri) await FileSystem.deleteAsync(fileToSave, { idempotent: true });
       Alert.alert("Succès", "Média enregistré dans la galerie !");
     } catch (err) {
       console.error("Save failed", err);
@@ -487,7 +462,7 @@ export default function ChatScreen() {
         >
           <View style={{ width: 36, height: 36, borderRadius: 18, overflow: 'hidden', marginRight: 10, backgroundColor: colors.border }}>
             {currentContact.avatar ? (
-              <Image source={{ uri: currentContact.avatar }} style={{ width: '100%', height: '100%' }} />
+              <VaultImage uri={currentContact.avatar} fileKey={currentContact.avatarKey} style={{ width: '100%', height: '100%' }} />
             ) : (
               <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}><Text style={{ fontSize: 18, color: colors.textSecondary }}>👤</Text></View>
             )}
@@ -535,60 +510,58 @@ export default function ChatScreen() {
           ref={flatListRef}
           data={messages}
           inverted
+          onEndReached={loadOlderMessages}
+          onEndReachedThreshold={0.5}
           style={{ flex: 1, backgroundColor: colors.background }}
           contentContainerStyle={{ paddingVertical: 10, paddingHorizontal: 10 }}
           keyExtractor={item => item.id}
           renderItem={({ item }) => {
-            const isMedia = item.text?.startsWith("GHOST_MEDIA:");
-            const isMediaRef = item.text?.startsWith("GHOST_MEDIA_REF:");
-            let mediaType = "";
-            let mediaUri = item.localUri;
-            let caption = "";
-
-            if (isMedia && !mediaUri) {
-              const parts = item.text.split(":");
-              mediaType = parts[1];
-              mediaUri = `data:${mediaType === 'VIDEO' ? 'video/mp4' : 'image/jpeg'};base64,${parts[2]}`;
-              caption = parts[3] || "";
-            } else if (isMediaRef) {
-              const parts = item.text.split(":");
-              mediaType = parts[1];
-              // mediaUri is at index 2, but could contain colons (file://)
-              // Caption is the last part
-              caption = parts[parts.length - 1];
-              mediaUri = parts.slice(2, parts.length - 1).join(":");
-            }
+            const media = readStoredMedia(item);
 
             return (
               <View style={[
                 chatStyles.bubble,
                 item.isMe ? chatStyles.bubbleMe : chatStyles.bubbleThem,
-                (isMedia || isMediaRef) && { padding: 4, borderRadius: 12 }
+                media && { padding: 4, borderRadius: 12 }
               ]}>
-                {(isMedia || isMediaRef) ? (
+                {media ? (
                   <View>
-                    {mediaType === 'VIDEO' || item.mediaType === 'VIDEO' ? (
+                    {media.key ? (
+                      // Encrypted file: decrypted only when opened in the viewer
+                      <TouchableOpacity onPress={() => openViewer(media)} style={chatStyles.sealedMedia}>
+                        <Text style={{ fontSize: 32 }}>{media.mediaType === 'VIDEO' ? '🎥' : '📷'}</Text>
+                        <Text style={{ color: item.isMe ? colors.bubbleTextMe : colors.bubbleTextThem, marginTop: 6, fontSize: 12 }}>
+                          {media.mediaType === 'VIDEO' ? 'Vidéo' : 'Photo'} · Toucher pour ouvrir
+                        </Text>
+                      </TouchableOpacity>
+                    ) : media.mediaType === 'VIDEO' ? (
                       <ChatVideo
-                        uri={mediaUri || ""}
-                        onPress={() => setViewerMedia({ uri: mediaUri || "", type: mediaType || item.mediaType || "" })}
+                        uri={media.uri}
+                        onPress={() => openViewer(media)}
                       />
                     ) : (
-                      <TouchableOpacity onPress={() => setViewerMedia({ uri: mediaUri || "", type: mediaType || item.mediaType || "" })}>
-                        <Image source={{ uri: mediaUri }} style={{ width: 200, height: 200, borderRadius: 8 }} />
+                      <TouchableOpacity onPress={() => openViewer(media)}>
+                        <Image source={{ uri: media.uri }} style={{ width: 200, height: 200, borderRadius: 8 }} />
                       </TouchableOpacity>
                     )}
-                    {caption ? (
+                    {media.caption ? (
                       <Text style={[item.isMe ? chatStyles.textMe : chatStyles.textThem, { marginTop: 4, paddingHorizontal: 6, paddingBottom: 4 }]}>
-                        {caption}
+                        {media.caption}
                       </Text>
                     ) : null}
                   </View>
                 ) : (
                   <Text style={item.isMe ? chatStyles.textMe : chatStyles.textThem}>{item.text}</Text>
                 )}
-                {item.isMe && (
+                {item.isMe && item.status === 'failed' ? (
+                  <TouchableOpacity onPress={() => retrySend(item)} style={{ alignSelf: 'flex-end' }}>
+                    <Text style={{ fontSize: 10, color: colors.bubbleTextMe, marginTop: 2, fontWeight: 'bold' }}>
+                      ⚠️ Échec · Toucher pour réessayer
+                    </Text>
+                  </TouchableOpacity>
+                ) : item.isMe && (
                   <Text style={{ fontSize: 10, color: colors.bubbleTextMe, alignSelf: 'flex-end', marginTop: 2, opacity: 0.7 }}>
-                    {item.status === 'read' && allowReadReceipts ? '✓✓ Lu' : '✓ Envoyé'}
+                    {item.status === 'sending' ? '🕓 Envoi...' : item.status === 'read' && allowReadReceipts ? '✓✓ Lu' : '✓ Envoyé'}
                   </Text>
                 )}
                 {ephemeralTimer && (
@@ -827,6 +800,14 @@ const getChatStyles = (colors: any) => StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  sealedMedia: {
+    width: 200,
+    height: 120,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.15)',
+  },
   viewerMedia: {
     width: '100%',
     height: '100%',
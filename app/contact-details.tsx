@@ -1,21 +1,27 @@
 import { getGhostStyles } from '@/components/GhostTheme';
+import VaultImage from '@/components/VaultImage';
 import { useTheme } from '@/context/ThemeContext';
-import { getBoxPublicKeyHex } from '@/utils/AuthHelper';
-import { secureGet, secureSet } from '@/utils/SecureStorage';
-import * as ExpoCrypto from 'expo-crypto';
-import * as SecureStore from 'expo-secure-store';
+import { getBoxPublicKeyHex, getMyID } from '@/utils/AuthHelper';
+import { Contact, getContact, removeContact, updateContact } from '@/utils/ContactRepository';
+import { getEphemeralTimer, setEphemeralTimer as saveEphemeralTimer } from '@/utils/ConversationRepository';
+import { deleteMedia } from '@/utils/MediaVault';
+import { deleteSession } from '@/utils/RatchetSession';
+import { getHeldShare } from '@/utils/RecoveryRepository';
+import { computeSafetyNumber, decodeSafetyQr, encodeSafetyQr, formatSafetyNumber } from '@/utils/SafetyNumber';
+import { returnRecoveryShare } from '@/utils/SocialRecovery';
+import { formatUserId } from '@/utils/UserId';
+import { CameraView, useCameraPermissions } from 'expo-camera';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useEffect, useMemo, useState } from 'react';
-import { Alert, Image, Modal, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
-
-const CONTACTS_KEY = "my_contacts_list_v1";
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Modal, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
 
 export default function ContactDetailsScreen() {
     const { colors } = useTheme();
     const styles = useMemo(() => getGhostStyles(colors), [colors]);
     const router = useRouter();
     const { contactId } = useLocalSearchParams();
-    const [contact, setContact] = useState<any>(null);
+    const [contact, setContact] = useState<Contact | null>(null);
     const [isEditingAlias, setIsEditingAlias] = useState(false);
     const [alias, setAlias] = useState("");
     const [isDeleted, setIsDeleted] = useState(false);
@@ -24,6 +30,15 @@ export default function ContactDetailsScreen() {
     const [pendingSafetyNumber, setPendingSafetyNumber] = useState<string | null>(null);
     const [ephemeralTimer, setEphemeralTimer] = useState<number | null>(null);
     const [showEphemeralModal, setShowEphemeralModal] = useState(false);
+    const [showSafetyQr, setShowSafetyQr] = useState(false);
+    const [isScanning, setIsScanning] = useState(false);
+    const [permission, requestPermission] = useCameraPermissions();
+    // This contact entrusted us with a share of their identity key
+    const [holdsShare, setHoldsShare] = useState(false);
+    const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+    const [isSendingShare, setIsSendingShare] = useState(false);
+    // The camera fires several times per code
+    const scanHandled = useRef(false);
 
     useEffect(() => {
         loadContact();
@@ -31,31 +46,29 @@ export default function ContactDetailsScreen() {
 
     const loadContact = async () => {
         try {
-            const json = await secureGet(CONTACTS_KEY);
-            if (json) {
-                const list = JSON.parse(json);
-                const found = list.find((c: any) => c.id === contactId);
-                if (found) {
-                    setContact(found);
-                    setAlias(found.alias || "");
-                    setIsVerified(found.isVerified || false);
-
-                    // Load ephemeral timer for this conversation
-                    const timerStr = await SecureStore.getItemAsync(`ephemeral_timer_${contactId}`);
-                    setEphemeralTimer(timerStr ? parseInt(timerStr) : null);
-
-                    // Calculate Safety Number using AuthHelper
-                    const myPkHex = await getBoxPublicKeyHex();
-                    if (myPkHex) {
-                        const sn = await generateSafetyNumber(myPkHex, found.key);
-                        setSafetyNumber(sn);
-
-                        if (found.pendingNewKey) {
-                            const psn = await generateSafetyNumber(myPkHex, found.pendingNewKey);
-                            setPendingSafetyNumber(psn);
-                        } else {
-                            setPendingSafetyNumber(null);
-                        }
+            const found = await getContact(contactId as string);
+            if (found) {
+                setContact(found);
+                setAlias(found.alias || "");
+                // A verification only holds for the key that was scanned
+                setIsVerified(!!found.isVerified && found.verifiedKey === found.key);
+
+                // Load ephemeral timer for this conversation
+                setEphemeralTimer(await getEphemeralTimer(found.id));
+                setHoldsShare(!!(await getHeldShare(found.id)));
+
+                // Calculate Safety Number using AuthHelper
+                const myPkHex = await getBoxPublicKeyHex();
+                const myID = await getMyID();
+                if (myPkHex && myID) {
+                    const me = { id: myID, key: myPkHex };
+                    setSafetyNumber(computeSafetyNumber(me, { id: found.id, key: found.key }));
+
+                    if (found.pendingNewKey) {
+                        const psn = computeSafetyNumber(me, { id: found.id, key: found.pendingNewKey });
+                        setPendingSafetyNumber(psn);
+                    } else {
+                        setPendingSafetyNumber(null);
                     }
                 }
             }
@@ -64,29 +77,57 @@ export default function ContactDetailsScreen() {
         }
     };
 
-    const generateSafetyNumber = async (key1: string, key2: string) => {
-        const sorted = [key1, key2].sort().join("");
-        const hash = await ExpoCrypto.digestStringAsync(ExpoCrypto.CryptoDigestAlgorithm.SHA256, sorted);
-        // Create 12 digits: 3 groups of 4
-        const n1 = parseInt(hash.substring(0, 4), 16).toString().padStart(4, '0').slice(-4);
-        const n2 = parseInt(hash.substring(4, 8), 16).toString().padStart(4, '0').slice(-4);
-        const n3 = parseInt(hash.substring(8, 12), 16).toString().padStart(4, '0').slice(-4);
-        const n4 = parseInt(hash.substring(12, 16), 16).toString().padStart(4, '0').slice(-4);
-        return `${n1} ${n2} ${n3} ${n4}`;
-    };
-
-    const toggleVerified = async () => {
+    const setVerified = async (verified: boolean) => {
         try {
-            const json = await secureGet(CONTACTS_KEY);
-            if (json) {
-                let list = JSON.parse(json);
-                list = list.map((c: any) => c.id === contactId ? { ...c, isVerified: !isVerified } : c);
-                await secureSet(CONTACTS_KEY, JSON.stringify(list));
-                setIsVerified(!isVerified);
-            }
+            const updated = await updateContact(contactId as string, c => ({ ...c, isVerified: verified, verifiedKey: verified ? c.key : undefined }));
+            if (updated) setIsVerified(verified);
         } catch (e) { }
     };
 
+    const startSafetyScan = () => {
+        scanHandled.current = false;
+        setIsScanning(true);
+    };
+
+    const handleSafetyScan = async (data: string) => {
+        if (scanHandled.current) return;
+        scanHandled.current = true;
+        setIsScanning(false);
+
+        const scanned = decodeSafetyQr(data);
+        if (!scanned) {
+            Alert.alert("Code invalide", "Ce QR code n'est pas un numéro de sécurité MySecretApp.");
+            return;
+        }
+        if (!safetyNumber || scanned !== safetyNumber) {
+            // A mismatch is evidence against the current key: never keep it marked verified
+            if (isVerified) await setVerified(false);
+            Alert.alert(
+                "⚠️ Numéros différents",
+                "Le numéro de sécurité de votre contact ne correspond pas au vôtre. La conversation n'est peut-être pas sûre : ne la marquez pas comme vérifiée."
+            );
+            return;
+        }
+
+        await setVerified(true);
+        Alert.alert("Contact vérifié", "Les numéros de sécurité correspondent.");
+    };
+
+    const toggleVerified = () => {
+        if (!isVerified) {
+            startSafetyScan();
+            return;
+        }
+        Alert.alert(
+            "Retirer la vérification",
+            "Ce contact ne sera plus marqué comme vérifié.",
+            [
+                { text: "Annuler", style: "cancel" },
+                { text: "Retirer", style: "destructive", onPress: () => setVerified(false) }
+            ]
+        );
+    };
+
     const approveNewKey = async () => {
         Alert.alert(
             "Approuver la nouvelle clé",
@@ -98,16 +139,10 @@ export default function ContactDetailsScreen() {
                     style: "default",
                     onPress: async () => {
                         try {
-                            const json = await secureGet(CONTACTS_KEY);
-                            if (json) {
-                                let list = JSON.parse(json);
-                                list = list.map((c: any) => {
-                                    if (c.id === contactId) {
-                                        return { ...c, key: c.pendingNewKey, securityWarning: false, pendingNewKey: undefined, isVerified: false };
-                                    }
-                                    return c;
-                                });
-                                await secureSet(CONTACTS_KEY, JSON.stringify(list));
+                            const updated = await updateContact(contactId as string, c => c.pendingNewKey
+                                ? { ...c, key: c.pendingNewKey, securityWarning: false, pendingNewKey: undefined, isVerified: false, verifiedKey: undefined }
+                                : c);
+                            if (updated) {
                                 loadContact();
                                 Alert.alert("Clé mise à jour", "La nouvelle clé a été acceptée.");
                             }
@@ -120,17 +155,8 @@ export default function ContactDetailsScreen() {
 
     const saveAlias = async () => {
         try {
-            const json = await secureGet(CONTACTS_KEY);
-            if (json) {
-                let list = JSON.parse(json);
-                list = list.map((c: any) => {
-                    if (c.id === contactId) {
-                        return { ...c, alias: alias.trim() || undefined };
-                    }
-                    return c;
-                });
-                await secureSet(CONTACTS_KEY, JSON.stringify(list));
-
+            const updated = await updateContact(contactId as string, { alias: alias.trim() || undefined });
+            if (updated) {
                 await loadContact();
 
                 setIsEditingAlias(false);
@@ -144,12 +170,7 @@ export default function ContactDetailsScreen() {
 
     const handleEphemeralTimerChange = async (value: number | null) => {
         try {
-            const key = `ephemeral_timer_${contactId}`;
-            if (value === null) {
-                await SecureStore.deleteItemAsync(key);
-            } else {
-                await SecureStore.setItemAsync(key, value.toString());
-            }
+            await saveEphemeralTimer(contactId as string, value);
             setEphemeralTimer(value);
             setShowEphemeralModal(false);
         } catch (e) {
@@ -168,20 +189,47 @@ export default function ContactDetailsScreen() {
         return `${value}s`;
     };
 
+    const sendRecoveryShare = () => {
+        if (!contact || !recoveryCode) return;
+        const name = contact.alias || contact.name;
+        Alert.alert(
+            "Envoyer votre part",
+            `Ne continuez que si ${name} vous a donné ce code lui-même, de vive voix ou en personne. Quelqu'un qui réunit assez de parts prend le contrôle de son compte.`,
+            [
+                { text: "Annuler", style: "cancel" },
+                {
+                    text: "Envoyer",
+                    onPress: async () => {
+                        setIsSendingShare(true);
+                        try {
+                            const result = await returnRecoveryShare(contact, recoveryCode);
+                            if (result === 'queued') {
+                                setRecoveryCode(null);
+                                Alert.alert("Part envoyée", `${name} la recevra sur son nouvel appareil.`);
+                            } else if (result === 'invalid_code') {
+                                Alert.alert("Code invalide", "Vérifiez la saisie : un caractère est erroné ou manquant.");
+                            } else if (result === 'unknown_code') {
+                                Alert.alert("Code inconnu", "Aucun appareil n'attend de part sous ce code.");
+                            } else if (result === 'no_share') {
+                                Alert.alert("Erreur", "Vous ne détenez plus de part pour ce contact.");
+                            } else {
+                                Alert.alert("Erreur", "Envoi impossible. Réessayez plus tard.");
+                            }
+                        } finally {
+                            setIsSendingShare(false);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
     const toggleBlock = async () => {
         try {
-            const json = await secureGet(CONTACTS_KEY);
-            if (json) {
-                let list = JSON.parse(json);
-                list = list.map((c: any) => {
-                    if (c.id === contactId) {
-                        return { ...c, isBlocked: !c.isBlocked };
-                    }
-                    return c;
-                });
-                await secureSet(CONTACTS_KEY, JSON.stringify(list));
-                setContact({ ...contact, isBlocked: !contact.isBlocked });
-                Alert.alert("Contact", contact.isBlocked ? "Contact débloqué" : "Contact bloqué");
+            const updated = await updateContact(contactId as string, c => ({ ...c, isBlocked: !c.isBlocked }));
+            if (updated) {
+                setContact(updated);
+                Alert.alert("Contact", updated.isBlocked ? "Contact bloqué" : "Contact débloqué");
             }
         } catch (e) {
             Alert.alert("Erreur", "Action impossible.");
@@ -199,13 +247,10 @@ export default function ContactDetailsScreen() {
                     style: "destructive",
                     onPress: async () => {
                         try {
-                            const json = await secureGet(CONTACTS_KEY);
-                            if (json) {
-                                let list = JSON.parse(json);
-                                list = list.filter((c: any) => c.id !== contactId);
-                                await secureSet(CONTACTS_KEY, JSON.stringify(list));
-                                router.replace('/(tabs)/contacts');
-                            }
+                            await removeContact(contactId as string);
+                            await deleteMedia(contact?.avatar);
+                            await deleteSession(contactId as string);
+                            router.replace('/(tabs)/contacts');
                         } catch (e) {
                             Alert.alert("Erreur", "Suppression impossible.");
                         }
@@ -217,6 +262,42 @@ export default function ContactDetailsScreen() {
 
     if (!contact) return <View style={styles.container} />;
 
+    if (isScanning) {
+        if (!permission?.granted) {
+            return (
+                <View style={[styles.container, { alignItems: 'center', justifyContent: 'center', padding: 20 }]}>
+                    <Text style={{ color: colors.text, textAlign: 'center', marginBottom: 20 }}>
+                        {"L'accès à la caméra est nécessaire pour scanner le code de votre contact."}
+                    </Text>
+                    <TouchableOpacity
+                        onPress={requestPermission}
+                        style={{ backgroundColor: colors.primary, padding: 10, borderRadius: 10 }}
+                    >
+                        <Text style={{ color: 'white', fontWeight: 'bold' }}>Autoriser la caméra</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => setIsScanning(false)} style={{ marginTop: 20 }}>
+                        <Text style={{ color: colors.text, fontSize: 16 }}>Annuler</Text>
+                    </TouchableOpacity>
+                </View>
+            );
+        }
+
+        return (
+            <CameraView
+                style={{ flex: 1 }}
+                barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+                onBarcodeScanned={({ data }) => handleSafetyScan(data)}
+            >
+                <TouchableOpacity
+                    style={{ position: 'absolute', top: 50, right: 20, padding: 10, backgroundColor: 'rgba(0,0,0,0.5)', borderRadius: 20 }}
+                    onPress={() => setIsScanning(false)}
+                >
+                    <Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>Fermer</Text>
+                </TouchableOpacity>
+            </CameraView>
+        );
+    }
+
     if (isDeleted) {
         return (
             <View style={styles.container}>
@@ -260,14 +341,14 @@ export default function ContactDetailsScreen() {
             <ScrollView contentContainerStyle={{ alignItems: 'center', padding: 20 }}>
                 <View style={{ width: 120, height: 120, borderRadius: 60, overflow: 'hidden', backgroundColor: colors.border, marginBottom: 20 }}>
                     {contact.avatar ? (
-                        <Image source={{ uri: contact.avatar }} style={{ width: '100%', height: '100%' }} />
+                        <VaultImage uri={contact.avatar} fileKey={contact.avatarKey} style={{ width: '100%', height: '100%' }} />
                     ) : (
                         <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}><Text style={{ fontSize: 40, color: colors.textSecondary }}>👤</Text></View>
                     )}
                 </View>
 
                 <Text style={{ fontSize: 18, color: colors.textSecondary, marginBottom: 5 }}>Public ID</Text>
-                <Text style={{ fontSize: 16, fontWeight: 'bold', color: colors.text, marginBottom: 30 }}>{contact.id}</Text>
+                <Text style={{ fontSize: 16, fontWeight: 'bold', color: colors.text, marginBottom: 30 }}>{formatUserId(contact.id)}</Text>
 
                 <View style={{ width: '100%', backgroundColor: colors.surface, padding: 20, borderRadius: 20, marginBottom: 20 }}>
                     <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
@@ -315,7 +396,7 @@ export default function ContactDetailsScreen() {
                             <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 15 }}>
                                 <View style={{ flex: 1 }}>
                                     <Text style={{ fontSize: 12, color: colors.textSecondary }}>NUMÉRO DE SÉCURITÉ ACTUEL</Text>
-                                    <Text style={{ fontSize: 22, fontWeight: 'bold', color: colors.text, letterSpacing: 2 }}>{safetyNumber || "Chargement..."}</Text>
+                                    <Text style={{ fontSize: 17, fontWeight: 'bold', color: colors.text, letterSpacing: 1, marginTop: 5 }}>{safetyNumber ? formatSafetyNumber(safetyNumber) : "Chargement..."}</Text>
                                 </View>
                             </View>
 
@@ -323,7 +404,7 @@ export default function ContactDetailsScreen() {
                                 <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 15, padding: 10, backgroundColor: 'rgba(255, 149, 0, 0.1)', borderRadius: 10, borderWidth: 1, borderColor: '#FF9500' }}>
                                     <View style={{ flex: 1 }}>
                                         <Text style={{ fontSize: 12, color: '#FF9500', fontWeight: 'bold' }}>NOUVEAU NUMÉRO DÉTECTÉ</Text>
-                                        <Text style={{ fontSize: 22, fontWeight: 'bold', color: colors.text, letterSpacing: 2 }}>{pendingSafetyNumber}</Text>
+                                        <Text style={{ fontSize: 17, fontWeight: 'bold', color: colors.text, letterSpacing: 1, marginTop: 5 }}>{formatSafetyNumber(pendingSafetyNumber)}</Text>
                                         <Text style={{ fontSize: 11, color: colors.textSecondary, marginTop: 5 }}>
                                             Comparez ce numéro avec votre contact. S'il correspond au sien, vous pouvez approuver la nouvelle clé.
                                         </Text>
@@ -338,16 +419,25 @@ export default function ContactDetailsScreen() {
                             )}
 
                             <Text style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 15 }}>
-                                Pour vérifier le chiffrement de bout en bout, comparez ce numéro avec votre contact sur un autre canal (appel, de vive voix).
+                                Pour vérifier le chiffrement de bout en bout, scannez le code QR affiché sur le téléphone de votre contact, ou comparez les 60 chiffres de vive voix.
                             </Text>
 
+                            <TouchableOpacity
+                                style={{ flexDirection: 'row', alignItems: 'center', padding: 10, backgroundColor: colors.background, borderRadius: 10, borderWidth: 1, borderColor: colors.border, marginBottom: 10 }}
+                                onPress={() => setShowSafetyQr(true)}
+                                disabled={!safetyNumber}
+                            >
+                                <Text style={{ fontSize: 18, marginRight: 10 }}>🔳</Text>
+                                <Text style={{ color: colors.text, fontWeight: 'bold' }}>AFFICHER MON CODE</Text>
+                            </TouchableOpacity>
+
                             <TouchableOpacity
                                 style={{ flexDirection: 'row', alignItems: 'center', padding: 10, backgroundColor: isVerified ? 'rgba(76, 175, 80, 0.1)' : colors.background, borderRadius: 10, borderWidth: 1, borderColor: isVerified ? '#4CAF50' : colors.border }}
                                 onPress={toggleVerified}
                             >
                                 <Text style={{ fontSize: 18, marginRight: 10 }}>{isVerified ? "🔒" : "🔓"}</Text>
                                 <Text style={{ color: isVerified ? '#4CAF50' : colors.text, fontWeight: 'bold' }}>
-                                    {isVerified ? "VÉRIFIÉ ET SÉCURISÉ" : "MARQUER COMME VÉRIFIÉ"}
+                                    {isVerified ? "VÉRIFIÉ ET SÉCURISÉ" : "SCANNER SON CODE POUR VÉRIFIER"}
                                 </Text>
                             </TouchableOpacity>
                         </View>
@@ -377,6 +467,22 @@ export default function ContactDetailsScreen() {
                     </TouchableOpacity>
                 </View>
 
+                {/* RÉCUPÉRATION */}
+                {holdsShare && (
+                    <View style={{ width: '100%', backgroundColor: colors.surface, padding: 20, borderRadius: 20, marginBottom: 20, borderWidth: 1, borderColor: colors.border }}>
+                        <Text style={styles.label}>RÉCUPÉRATION DE COMPTE</Text>
+                        <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 5, marginBottom: 15 }}>
+                            {"Ce contact vous a confié une part de sa clé. S'il perd son téléphone, il vous donnera un code de récupération."}
+                        </Text>
+                        <TouchableOpacity
+                            style={{ padding: 12, backgroundColor: colors.background, borderRadius: 10, borderWidth: 1, borderColor: colors.border, alignItems: 'center' }}
+                            onPress={() => setRecoveryCode("")}
+                        >
+                            <Text style={{ color: colors.primary, fontWeight: 'bold' }}>Aider à récupérer son compte</Text>
+                        </TouchableOpacity>
+                    </View>
+                )}
+
                 <TouchableOpacity
                     style={{ width: '100%', padding: 15, borderRadius: 12, backgroundColor: colors.surface, alignItems: 'center', marginBottom: 15, borderWidth: 1, borderColor: colors.border }}
                     onPress={toggleBlock}
@@ -394,6 +500,60 @@ export default function ContactDetailsScreen() {
                 </TouchableOpacity>
             </ScrollView>
 
+            {/* SAFETY NUMBER QR MODAL */}
+            <Modal visible={showSafetyQr} transparent animationType="fade" onRequestClose={() => setShowSafetyQr(false)}>
+                <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center' }}>
+                    <View style={{ width: '85%', backgroundColor: colors.surface, borderRadius: 20, padding: 20, alignItems: 'center' }}>
+                        <Text style={{ fontSize: 18, fontWeight: 'bold', color: colors.text, marginBottom: 10 }}>Numéro de sécurité</Text>
+                        <Text style={{ color: colors.textSecondary, textAlign: 'center', marginBottom: 20, fontSize: 13 }}>
+                            Demandez à votre contact de scanner ce code depuis sa fiche contact.
+                        </Text>
+                        {safetyNumber && (
+                            <View style={{ padding: 10, backgroundColor: 'white', borderRadius: 10, marginBottom: 15 }}>
+                                <QRCode value={encodeSafetyQr(safetyNumber)} size={200} />
+                            </View>
+                        )}
+                        {safetyNumber && (
+                            <Text style={{ fontSize: 15, color: colors.text, textAlign: 'center', letterSpacing: 1 }}>{formatSafetyNumber(safetyNumber)}</Text>
+                        )}
+                        <TouchableOpacity onPress={() => setShowSafetyQr(false)} style={{ marginTop: 20, padding: 10 }}>
+                            <Text style={{ color: colors.primary, fontSize: 16 }}>Fermer</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+
+            {/* RECOVERY CODE MODAL */}
+            <Modal visible={recoveryCode !== null} transparent animationType="fade" onRequestClose={() => setRecoveryCode(null)}>
+                <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center' }}>
+                    <View style={{ width: '85%', backgroundColor: colors.surface, borderRadius: 20, padding: 20, alignItems: 'center' }}>
+                        <Text style={{ fontSize: 18, fontWeight: 'bold', color: colors.text, marginBottom: 10 }}>Code de récupération</Text>
+                        <Text style={{ color: colors.textSecondary, textAlign: 'center', marginBottom: 20, fontSize: 13 }}>
+                            Saisissez le code affiché sur le nouvel appareil de votre contact.
+                        </Text>
+                        <TextInput
+                            style={{ width: '100%', padding: 12, borderRadius: 10, borderWidth: 1, borderColor: colors.border, color: colors.text, marginBottom: 20 }}
+                            value={recoveryCode ?? ""}
+                            onChangeText={setRecoveryCode}
+                            placeholder="XXXXX-XXXXX-XXXXX-XXXXX-XXXXX"
+                            placeholderTextColor={colors.textSecondary}
+                            autoCapitalize="characters"
+                            autoCorrect={false}
+                        />
+                        <TouchableOpacity
+                            onPress={sendRecoveryShare}
+                            disabled={isSendingShare || !recoveryCode?.trim()}
+                            style={{ width: '100%', padding: 15, borderRadius: 12, backgroundColor: colors.primary, alignItems: 'center', opacity: recoveryCode?.trim() ? 1 : 0.5 }}
+                        >
+                            <Text style={{ color: 'white', fontWeight: 'bold', fontSize: 16 }}>ENVOYER MA PART</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => setRecoveryCode(null)} style={{ marginTop: 20, padding: 10 }}>
+                            <Text style={{ color: colors.primary, fontSize: 16 }}>Annuler</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+
             {/* EPHEMERAL TIMER MODAL */}
             <Modal visible={showEphemeralModal} transparent animationType="fade" onRequestClose={() => setShowEphemeralModal(false)}>
                 <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.5)', justifyContent: 'center', alignItems: 'center' }}>
@@ -1,17 +1,29 @@
 import { getGhostStyles } from '@/components/GhostTheme';
 import LockScreen from '@/components/LockScreen';
+import RecoveryPhraseView from '@/components/RecoveryPhraseView';
 import { AVATARS } from '@/constants/Avatars';
 import { useTheme } from '@/context/ThemeContext';
-import { ensureRegistered, generateNewIdentity } from '@/utils/AuthHelper';
-import { secureSet } from '@/utils/SecureStorage';
+import { ensureRegistered, generateNewIdentity, getMyID, restoreIdentity } from '@/utils/AuthHelper';
+import { restoreBackup } from '@/utils/Backup';
+import { getActiveVault } from '@/utils/MasterKey';
+import { saveProfile } from '@/utils/ProfileRepository';
+import {
+    decodeRecoveryPhrase,
+    findUnknownWords,
+    getRecoveryPhrase,
+    RECOVERY_PHRASE_LENGTH,
+    splitRecoveryPhrase,
+} from '@/utils/RecoveryPhrase';
+import { collectRecoveryShares, completeSocialRecovery, endRecoverySession, RecoveryProgress, startRecoverySession } from '@/utils/SocialRecovery';
+import { formatUserId, normalizeUserId } from '@/utils/UserId';
+import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as ImagePicker from 'expo-image-picker';
 import { useRouter } from 'expo-router';
-import React, { useMemo, useState } from 'react';
-import { Alert, Image, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Image, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
 const APP_LOCK_KEY = "my_app_lock_pin_v1";
-const PROFILE_KEY = "my_profile_data_v1";
 
 export default function OnboardingScreen() {
     const { colors } = useTheme();
@@ -20,35 +32,126 @@ export default function OnboardingScreen() {
     const [pseudo, setPseudo] = useState("");
     const [selectedAvatar, setSelectedAvatar] = useState(AVATARS[0]);
     const [showLockSetup, setShowLockSetup] = useState(false);
+    // Picked backup file, waiting for its passphrase
+    const [backupUri, setBackupUri] = useState<string | null>(null);
+    const [backupPassphrase, setBackupPassphrase] = useState("");
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [restored, setRestored] = useState(false);
+    // Recovery phrase typed by the user (null: not on that screen), then the ID it restored
+    const [phraseInput, setPhraseInput] = useState<string | null>(null);
+    const [restoredId, setRestoredId] = useState<string | null>(null);
+    // Phrase of the identity just created, shown once before entering the app
+    const [recoveryWords, setRecoveryWords] = useState<string[] | null>(null);
+    // Social recovery: the ID typed by the user (null: not on that screen), then the temporary
+    // identity whose ID contacts send their shares to
+    const [ownerInput, setOwnerInput] = useState<string | null>(null);
+    const [recoverySession, setRecoverySession] = useState<{ ownerId: string; code: string } | null>(null);
+    const [recoveryProgress, setRecoveryProgress] = useState<RecoveryProgress | null>(null);
+    const [isStartingRecovery, setIsStartingRecovery] = useState(false);
+    const isCollecting = useRef(false);
 
-    const handleNext = () => {
-        if (!pseudo.trim()) return;
+    useEffect(() => {
+        if (!recoverySession) return;
+        const collect = async () => {
+            if (isCollecting.current) return;
+            isCollecting.current = true;
+            try {
+                const progress = await collectRecoveryShares(recoverySession.ownerId);
+                setRecoveryProgress(progress);
+                if (progress.secretKey) {
+                    await completeSocialRecovery(progress.secretKey);
+                    setRestoredId(await getMyID());
+                    setRecoverySession(null);
+                    setOwnerInput(null);
+                }
+            } catch (e) {
+                console.warn("[RECOVERY] Poll failed", e);
+            } finally {
+                isCollecting.current = false;
+            }
+        };
+        collect();
+        const interval = setInterval(collect, 5000);
+        return () => clearInterval(interval);
+    }, [recoverySession]);
 
-        // Ask for Lock
+    const askForLock = (onSkip: () => void) => {
+        // A vault other than the main one already opens with its own code
+        if (getActiveVault()) {
+            onSkip();
+            return;
+        }
         Alert.alert(
             "Sécuriser MySecretApp ?",
             "Voulez-vous définir un code PIN pour protéger l'accès à l'application ?",
             [
-                { text: "Non, plus tard", style: "cancel", onPress: finishOnboarding },
+                { text: "Non, plus tard", style: "cancel", onPress: onSkip },
                 { text: "Oui, sécuriser", onPress: () => setShowLockSetup(true) }
             ]
         );
     };
 
-    const finishOnboarding = async () => {
-        // Sanitize pseudo: trim, limit length, remove control chars
-        const safePseudo = pseudo.trim().substring(0, 50).replace(/[\x00-\x1F\x7F]/g, '');
-        const profile = {
-            pseudo: safePseudo,
-            avatar: selectedAvatar
-        };
+    const handleNext = () => {
+        if (!pseudo.trim()) return;
+        askForLock(finishOnboarding);
+    };
 
+    const pickBackup = async () => {
+        const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+        if (!result.canceled) setBackupUri(result.assets[0].uri);
+    };
+
+    const cancelRestore = async () => {
+        if (backupUri) await FileSystem.deleteAsync(backupUri, { idempotent: true }).catch(() => { });
+        setBackupUri(null);
+        setBackupPassphrase("");
+    };
+
+    const restore = async () => {
+        if (!backupUri || !backupPassphrase) return;
+        setIsRestoring(true);
+        try {
+            const result = await restoreBackup(backupUri, backupPassphrase);
+            if (result === 'wrong_passphrase') {
+                Alert.alert("Erreur", "Phrase secrète incorrecte.");
+            } else if (result === 'invalid_file') {
+                Alert.alert("Erreur", "Ce fichier n'est pas une sauvegarde MySecretApp.");
+            } else {
+                await cancelRestore();
+                setRestored(true);
+                askForLock(() => router.replace('/(tabs)'));
+            }
+        } catch (e) {
+            console.error("Restore failed", e);
+            Alert.alert("Erreur", "La restauration a échoué. Réessayez.");
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const finishOnboarding = async () => {
         try {
-            // Ensure crypto keys are generated and registered before storing profile
-            await generateNewIdentity();
+            // Ensure crypto keys are generated (unless restored from a phrase) and registered before storing profile
+            if (!restoredId) await generateNewIdentity();
             await ensureRegistered();
-            // Store profile using encrypted storage (not plain AsyncStorage)
-            await secureSet(PROFILE_KEY, JSON.stringify(profile));
+
+            // A new identity shows its phrase first; the profile is saved once it is noted
+            const words = restoredId ? null : await getRecoveryPhrase();
+            if (words) {
+                setRecoveryWords(words);
+                return;
+            }
+            await enterApp();
+        } catch (e) {
+            console.error("Failed to save profile", e);
+            Alert.alert("Erreur", "Impossible de sauvegarder le profil. Réessayez.");
+        }
+    };
+
+    const enterApp = async () => {
+        try {
+            // Encrypted storage; the pseudo is sanitized on save
+            await saveProfile({ pseudo, avatar: selectedAvatar });
             // Navigate to main app
             router.replace('/(tabs)');
         } catch (e) {
@@ -57,6 +160,59 @@ export default function OnboardingScreen() {
         }
     };
 
+    const restoreFromPhrase = async () => {
+        const words = splitRecoveryPhrase(phraseInput || "");
+        const unknown = findUnknownWords(words);
+        if (unknown.length > 0) {
+            Alert.alert("Mot inconnu", `Vérifiez l'orthographe de : ${unknown.join(', ')}`);
+            return;
+        }
+        if (words.length !== RECOVERY_PHRASE_LENGTH) {
+            Alert.alert("Phrase incomplète", `La phrase compte ${RECOVERY_PHRASE_LENGTH} mots, vous en avez saisi ${words.length}.`);
+            return;
+        }
+        const secretKey = decodeRecoveryPhrase(words);
+        if (!secretKey) {
+            Alert.alert("Phrase invalide", "Un mot est erroné ou deux mots sont inversés.");
+            return;
+        }
+
+        try {
+            await restoreIdentity(secretKey);
+            setRestoredId(await getMyID());
+            setPhraseInput(null);
+        } catch (e) {
+            console.error("Phrase restore failed", e);
+            Alert.alert("Erreur", "Impossible de restaurer cette identité.");
+        }
+    };
+
+    const startSocialRecovery = async () => {
+        const ownerId = normalizeUserId(ownerInput || "");
+        if (!ownerId) {
+            Alert.alert("Identifiant invalide", "Vérifiez la saisie : un caractère est erroné ou manquant.");
+            return;
+        }
+        setIsStartingRecovery(true);
+        try {
+            const code = await startRecoverySession();
+            if (code) {
+                setRecoveryProgress(null);
+                setRecoverySession({ ownerId, code });
+            } else {
+                Alert.alert("Erreur", "Serveur injoignable. Réessayez plus tard.");
+            }
+        } finally {
+            setIsStartingRecovery(false);
+        }
+    };
+
+    const cancelSocialRecovery = async () => {
+        setRecoverySession(null);
+        setOwnerInput(null);
+        await endRecoverySession();
+    };
+
     const pickImage = async () => {
         const result = await ImagePicker.launchImageLibraryAsync({
             mediaTypes: ['images'],
@@ -76,22 +232,174 @@ export default function OnboardingScreen() {
         }
     };
 
+    if (recoveryWords) {
+        return <RecoveryPhraseView words={recoveryWords} onDone={enterApp} />;
+    }
+
     if (showLockSetup) {
         return (
             <LockScreen
                 isSetup={true}
-                onUnlock={finishOnboarding}
-                onCancel={() => setShowLockSetup(false)}
+                onUnlock={restored ? () => router.replace('/(tabs)') : finishOnboarding}
+                onCancel={() => restored ? router.replace('/(tabs)') : setShowLockSetup(false)}
             />
         );
     }
 
+    if (phraseInput !== null) {
+        return (
+            <View style={[styles.container, { paddingTop: 100, alignItems: 'center' }]}>
+                <Text style={{ fontSize: 28, fontWeight: 'bold', color: colors.text, marginBottom: 10 }}>Phrase de récupération</Text>
+                <Text style={{ fontSize: 16, color: colors.textSecondary, marginBottom: 40, textAlign: 'center', paddingHorizontal: 40 }}>
+                    {`Saisissez vos ${RECOVERY_PHRASE_LENGTH} mots dans l'ordre, séparés par des espaces.`}
+                </Text>
+
+                <TextInput
+                    style={[styles.input, { width: '85%', minHeight: 140, textAlignVertical: 'top', backgroundColor: colors.surface, color: colors.text }]}
+                    value={phraseInput}
+                    onChangeText={setPhraseInput}
+                    placeholder="mot1 mot2 mot3..."
+                    placeholderTextColor={colors.textSecondary}
+                    multiline
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                />
+
+                <TouchableOpacity
+                    style={[styles.buttonPrimary, { width: '80%', marginTop: 30, opacity: phraseInput.trim() ? 1 : 0.5 }]}
+                    onPress={restoreFromPhrase}
+                    disabled={!phraseInput.trim()}
+                >
+                    <Text style={styles.buttonText}>RESTAURER</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity onPress={() => setPhraseInput(null)} style={{ marginTop: 20, padding: 10 }}>
+                    <Text style={{ color: colors.primary, fontSize: 16 }}>Annuler</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    if (recoverySession) {
+        return (
+            <View style={[styles.container, { paddingTop: 100, alignItems: 'center' }]}>
+                <Text style={{ fontSize: 28, fontWeight: 'bold', color: colors.text, marginBottom: 10 }}>Code de récupération</Text>
+                <Text style={{ fontSize: 16, color: colors.textSecondary, marginBottom: 30, textAlign: 'center', paddingHorizontal: 40 }}>
+                    {"Appelez les contacts à qui vous avez confié votre clé et dictez-leur ce code. Chacun l'entre depuis votre fiche contact pour vous renvoyer sa part."}
+                </Text>
+
+                <View style={{ width: '85%', padding: 20, borderRadius: 15, backgroundColor: colors.surface, borderWidth: 1, borderColor: colors.border, marginBottom: 30 }}>
+                    <Text selectable style={{ fontSize: 18, fontWeight: 'bold', color: colors.text, textAlign: 'center', letterSpacing: 1 }}>
+                        {formatUserId(recoverySession.code)}
+                    </Text>
+                </View>
+
+                <ActivityIndicator color={colors.primary} />
+                <Text style={{ fontSize: 15, color: colors.textSecondary, marginTop: 15 }}>
+                    {recoveryProgress?.threshold
+                        ? `${recoveryProgress.received} / ${recoveryProgress.threshold} parts reçues`
+                        : "En attente des parts..."}
+                </Text>
+
+                <TouchableOpacity onPress={cancelSocialRecovery} style={{ marginTop: 30, padding: 10 }}>
+                    <Text style={{ color: colors.primary, fontSize: 16 }}>Annuler</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    if (ownerInput !== null) {
+        return (
+            <View style={[styles.container, { paddingTop: 100, alignItems: 'center' }]}>
+                <Text style={{ fontSize: 28, fontWeight: 'bold', color: colors.text, marginBottom: 10 }}>Récupérer mon compte</Text>
+                <Text style={{ fontSize: 16, color: colors.textSecondary, marginBottom: 40, textAlign: 'center', paddingHorizontal: 40 }}>
+                    {"Entrez l'ID de votre ancien compte. Vos proches vous renverront les parts de votre clé."}
+                </Text>
+
+                <View style={{ width: '80%', marginBottom: 30 }}>
+                    <Text style={styles.label}>MON ID</Text>
+                    <TextInput
+                        style={[styles.input, { textAlign: 'center', backgroundColor: colors.surface, color: colors.text }]}
+                        value={ownerInput}
+                        onChangeText={setOwnerInput}
+                        placeholder="XXXXX-XXXXX-XXXXX-XXXXX-XXXXX"
+                        placeholderTextColor={colors.textSecondary}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                    />
+                </View>
+
+                <TouchableOpacity
+                    style={[styles.buttonPrimary, { width: '80%', opacity: ownerInput.trim() ? 1 : 0.5 }]}
+                    onPress={startSocialRecovery}
+                    disabled={!ownerInput.trim() || isStartingRecovery}
+                >
+                    {isStartingRecovery ? (
+                        <ActivityIndicator color="white" />
+                    ) : (
+                        <Text style={styles.buttonText}>CONTINUER</Text>
+                    )}
+                </TouchableOpacity>
+
+                <TouchableOpacity onPress={() => setOwnerInput(null)} disabled={isStartingRecovery} style={{ marginTop: 20, padding: 10 }}>
+                    <Text style={{ color: colors.primary, fontSize: 16 }}>Annuler</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    if (backupUri) {
+        return (
+            <View style={[styles.container, { paddingTop: 100, alignItems: 'center' }]}>
+                <Text style={{ fontSize: 28, fontWeight: 'bold', color: colors.text, marginBottom: 10 }}>Restaurer</Text>
+                <Text style={{ fontSize: 16, color: colors.textSecondary, marginBottom: 40, textAlign: 'center', paddingHorizontal: 40 }}>
+                    {"Entrez la phrase secrète choisie lors de l'export de la sauvegarde."}
+                </Text>
+
+                <View style={{ width: '80%', marginBottom: 30 }}>
+                    <Text style={styles.label}>PHRASE SECRÈTE</Text>
+                    <TextInput
+                        style={[styles.input, { textAlign: 'center', backgroundColor: colors.surface, color: colors.text }]}
+                        value={backupPassphrase}
+                        onChangeText={setBackupPassphrase}
+                        placeholder="Phrase secrète..."
+                        placeholderTextColor={colors.textSecondary}
+                        secureTextEntry
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                    />
+                </View>
+
+                <TouchableOpacity
+                    style={[styles.buttonPrimary, { width: '80%', opacity: backupPassphrase ? 1 : 0.5 }]}
+                    onPress={restore}
+                    disabled={!backupPassphrase || isRestoring}
+                >
+                    {isRestoring ? (
+                        <ActivityIndicator color="white" />
+                    ) : (
+                        <Text style={styles.buttonText}>RESTAURER</Text>
+                    )}
+                </TouchableOpacity>
+
+                <TouchableOpacity onPress={cancelRestore} disabled={isRestoring} style={{ marginTop: 20, padding: 10 }}>
+                    <Text style={{ color: colors.primary, fontSize: 16 }}>Annuler</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
     return (
         <View style={[styles.container, { paddingTop: 100, alignItems: 'center' }]}>
             <Text style={{ fontSize: 28, fontWeight: 'bold', color: colors.text, marginBottom: 10 }}>Bienvenue</Text>
-            <Text style={{ fontSize: 16, color: colors.textSecondary, marginBottom: 40, textAlign: 'center', paddingHorizontal: 40 }}>
+            <Text style={{ fontSize: 16, color: colors.textSecondary, marginBottom: restoredId ? 10 : 40, textAlign: 'center', paddingHorizontal: 40 }}>
                 Choisissez votre identité pour commencer à échanger en toute sécurité.
             </Text>
+            {restoredId && (
+                <Text style={{ fontSize: 14, color: colors.secondary, marginBottom: 30, textAlign: 'center', paddingHorizontal: 40 }}>
+                    Identité restaurée : {formatUserId(restoredId)}
+                </Text>
+            )}
 
             <View style={{ marginBottom: 30 }}>
                 <Image
@@ -143,6 +451,20 @@ export default function OnboardingScreen() {
             >
                 <Text style={styles.buttonText}>COMMENCER</Text>
             </TouchableOpacity>
+
+            {!restoredId && (
+                <>
+                    <TouchableOpacity onPress={pickBackup} style={{ marginTop: 20, padding: 10 }}>
+                        <Text style={{ color: colors.primary, fontSize: 16 }}>Restaurer une sauvegarde</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => setPhraseInput("")} style={{ padding: 10 }}>
+                        <Text style={{ color: colors.primary, fontSize: 16 }}>Restaurer depuis une phrase</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => setOwnerInput("")} style={{ padding: 10 }}>
+                        <Text style={{ color: colors.primary, fontSize: 16 }}>Récupérer via mes proches</Text>
+                    </TouchableOpacity>
+                </>
+            )}
         </View>
     );
 }
@@ -1,5 +1,10 @@
 
 import { useTheme } from '@/context/ThemeContext';
+import { bytesToHex, constantTimeEqual, hexToBytes } from '@/utils/CryptoPrimitives';
+import { changeDuressPin, DuressAction, enterDuressMode, getDuressLockType, matchesDuressPin, removeDuressPin, setDuressPin } from '@/utils/DuressPin';
+import { createCodeSlot, deriveCodeKey, isCodeSlotParams, isKdfParams, StretchedCode, stretchCode } from '@/utils/KeyDerivation';
+import { enableSecretWrapping, getActiveVault, isDecoyActive, isSecretWrapped, unlockWithBiometrics, unlockWithPin } from '@/utils/MasterKey';
+import { createVault, findVault, openVault } from '@/utils/Vaults';
 import { Ionicons } from '@expo/vector-icons';
 import * as Crypto from 'expo-crypto';
 import * as LocalAuthentication from 'expo-local-authentication';
@@ -13,13 +18,27 @@ interface LockScreenProps {
     onUnlock: () => void;
     isSetup?: boolean;
     onCancel?: () => void;
+    // App lock screen: the code picks the vault to open and the duress code runs its action
+    // (elsewhere a code only verifies in its own vault)
+    selectsVault?: boolean;
+    // Setup of the duress code, typed like the real code
+    duressAction?: DuressAction;
+    // Setup of the code of a new vault, typed like the real code
+    createsVault?: boolean;
+    // Setup without changing the lock type (other codes must stay typable)
+    keepLockType?: boolean;
 }
 
 type LockType = 'pin4' | 'pin6' | 'password';
 
-// ─── PIN Hashing (iterated SHA-256 with domain separation) ──────
-const HASH_ITERATIONS = 50000;
-async function hashPin(pin: string, salt: string, iterations: number = HASH_ITERATIONS): Promise<string> {
+// ─── PIN Hashing (code slot of the stretched code, see KeyDerivation) ─
+function createLockRecord(type: LockType, code: StretchedCode): string {
+    const kdf = createCodeSlot();
+    return JSON.stringify({ type, kdf, hash: bytesToHex(deriveCodeKey(code, kdf)) });
+}
+
+// Previous format: iterated SHA-256 over the bridge, migrated on the next unlock
+async function hashPinIterated(pin: string, salt: string, iterations: number = 50000): Promise<string> {
     // HMAC-like construction with domain separator
     let hash = await Crypto.digestStringAsync(
         Crypto.CryptoDigestAlgorithm.SHA256,
@@ -40,11 +59,6 @@ async function hashPinLegacy(pin: string, salt: string): Promise<string> {
     return hash;
 }
 
-function generateSalt(): string {
-    const bytes = Crypto.getRandomBytes(16);
-    return Array.from(bytes).map(b => ('00' + b.toString(16)).slice(-2)).join('');
-}
-
 // ─── Brute-force delay calculation (exponential backoff) ────────
 const FAILED_ATTEMPTS_KEY = "ghost_lock_failed_attempts";
 
@@ -77,11 +91,25 @@ async function clearFailedAttempts(): Promise<void> {
     } catch { }
 }
 
-export default function LockScreen({ onUnlock, isSetup = false, onCancel }: LockScreenProps) {
+// Checks a code against the current lock record (keeps the duress code distinct from it).
+// PBKDF2 records from before code slots still match.
+function matchesLockRecord(code: StretchedCode, storedValue: string | null): boolean {
+    try {
+        const parsed = JSON.parse(storedValue || "");
+        return !!parsed.hash && (isCodeSlotParams(parsed.kdf) || isKdfParams(parsed.kdf)) &&
+            constantTimeEqual(deriveCodeKey(code, parsed.kdf), hexToBytes(parsed.hash));
+    } catch {
+        return false;
+    }
+}
+
+export default function LockScreen({ onUnlock, isSetup = false, onCancel, selectsVault = false, duressAction, createsVault = false, keepLockType = false }: LockScreenProps) {
     const { colors } = useTheme();
     const [pin, setPin] = useState("");
     const [confirmPin, setConfirmPin] = useState("");
-    const [step, setStep] = useState(isSetup ? "type_selection" : "unlock");
+    // The duress and vault codes, and a code changed from inside a vault, keep the real code's type
+    const keepsLockType = !!duressAction || createsVault || keepLockType || (isSetup && getActiveVault() !== null);
+    const [step, setStep] = useState(isSetup && !keepsLockType ? "type_selection" : isSetup ? "create" : "unlock");
     const [error, setError] = useState("");
     const [lockType, setLockType] = useState<LockType>('pin4');
     const [failedAttempts, setFailedAttempts] = useState(0);
@@ -93,6 +121,8 @@ export default function LockScreen({ onUnlock, isSetup = false, onCancel }: Lock
             loadPersistedState();
             checkBiometrics();
             loadLockType();
+        } else if (keepsLockType) {
+            loadLockType();
         }
         return () => {
             if (cooldownTimer.current) clearInterval(cooldownTimer.current);
@@ -124,9 +154,16 @@ export default function LockScreen({ onUnlock, isSetup = false, onCancel }: Lock
     };
 
     const checkBiometrics = async () => {
+        // Biometrics open the main vault: inside another one only its own code verifies
+        if (getActiveVault()) return;
         const hasHardware = await LocalAuthentication.hasHardwareAsync();
         const isEnrolled = await LocalAuthentication.isEnrolledAsync();
         if (hasHardware && isEnrolled) {
+            // The wrapped master secret has a copy behind the OS biometric prompt
+            if (await isSecretWrapped()) {
+                if (await unlockWithBiometrics('Déverrouiller MySecretApp')) onUnlock();
+                return;
+            }
             const result = await LocalAuthentication.authenticateAsync({
                 promptMessage: 'Déverrouiller MySecretApp',
                 fallbackLabel: 'Utiliser le code',
@@ -177,35 +214,63 @@ export default function LockScreen({ onUnlock, isSetup = false, onCancel }: Lock
             if (cooldownRemaining > 0) return;
 
             const storedValue = await SecureStore.getItemAsync(APP_LOCK_KEY);
+            let code: StretchedCode;
+            try {
+                code = await stretchCode(enteredInput);
+            } catch (e) {
+                console.error("[LOCK] Code derivation failed", e);
+                setError("Erreur de déverrouillage");
+                setPin("");
+                return;
+            }
             let valid = false;
+            // The one key derivation of the attempt is done: the main code, the duress code and
+            // every vault are each checked with a cheap derivation from it
+            const isDuress = await matchesDuressPin(code);
+            const vault = await findVault(code);
 
             try {
                 const parsed = JSON.parse(storedValue || "");
 
-                if (parsed.hash && parsed.salt) {
-                    // Current hashed format
-                    const computedHash = await hashPin(enteredInput, parsed.salt);
-                    if (computedHash === parsed.hash) {
-                        valid = true;
-                    } else {
-                        // Try legacy hash for migration (old iterations/format)
-                        const legacyHash = await hashPinLegacy(enteredInput, parsed.salt);
-                        if (legacyHash === parsed.hash) {
-                            valid = true;
-                            // Auto-migrate to new hash format
-                            const newSalt = generateSalt();
-                            const newHash = await hashPin(enteredInput, newSalt);
-                            const migrated = JSON.stringify({ type: parsed.type || lockType, hash: newHash, salt: newSalt });
-                            await SecureStore.setItemAsync(APP_LOCK_KEY, migrated);
-                        }
+                if (parsed.hash && (isCodeSlotParams(parsed.kdf) || isKdfParams(parsed.kdf))) {
+                    valid = matchesLockRecord(code, storedValue);
+                    // PBKDF2 record from before code slots: moved to one
+                    if (valid && parsed.kdf.alg !== 'code-slot') {
+                        await SecureStore.setItemAsync(APP_LOCK_KEY, createLockRecord(parsed.type || lockType, code));
+                    }
+                } else if (parsed.hash && parsed.salt) {
+                    // Older {type, hash, salt} records: check, then auto-migrate to the KDF record
+                    valid = await hashPinIterated(enteredInput, parsed.salt) === parsed.hash ||
+                        await hashPinLegacy(enteredInput, parsed.salt) === parsed.hash;
+                    if (valid) {
+                        await SecureStore.setItemAsync(APP_LOCK_KEY, createLockRecord(parsed.type || lockType, code));
                     }
                 }
                 // Legacy plaintext formats removed for security
+
+                // Inside another vault only its own code verifies
+                if (getActiveVault()) valid = false;
+
+                if (valid) {
+                    if (await isSecretWrapped()) {
+                        valid = await unlockWithPin(code);
+                    } else {
+                        // Lock set before secret wrapping existed
+                        await enableSecretWrapping(code);
+                    }
+                }
             } catch (e) {
                 // Parse error - invalid stored data
                 valid = false;
             }
 
+            if (!valid && isDuress) {
+                valid = isDecoyActive() || (selectsVault && await enterDuressMode(code));
+            }
+            if (!valid && vault) {
+                valid = vault === getActiveVault() || (selectsVault && await openVault(vault, code));
+            }
+
             if (valid) {
                 setFailedAttempts(0);
                 await clearFailedAttempts();
@@ -231,11 +296,49 @@ export default function LockScreen({ onUnlock, isSetup = false, onCancel }: Lock
             setStep("confirm");
         } else if (step === "confirm") {
             if (enteredInput === confirmPin) {
-                const salt = generateSalt();
-                const hash = await hashPin(enteredInput, salt);
-                const data = JSON.stringify({ type: lockType, hash, salt });
-                await SecureStore.setItemAsync(APP_LOCK_KEY, data);
-                Alert.alert("Succès", "Verrouillage activé !");
+                const storedValue = await SecureStore.getItemAsync(APP_LOCK_KEY);
+                const code = await stretchCode(enteredInput);
+                // A code opens one thing only; typing the one being replaced again is fine
+                const isMain = matchesLockRecord(code, storedValue);
+                const isDuress = await matchesDuressPin(code);
+                const vault = await findVault(code);
+                const replaced = duressAction || isDecoyActive() ? isDuress
+                    : createsVault ? false
+                    : getActiveVault() ? vault === getActiveVault()
+                    : isMain;
+                if ((isMain || isDuress || vault) && !replaced) {
+                    setError(isMain && !getActiveVault() ? "Ce code est déjà votre code principal" : "Ce code est déjà utilisé");
+                    setPin("");
+                    setStep("create");
+                    setConfirmPin("");
+                    return;
+                }
+
+                if (duressAction) {
+                    await setDuressPin(code, lockType, duressAction);
+                    Alert.alert("Succès", "Code de contrainte enregistré.");
+                } else if (createsVault) {
+                    if (!(await createVault(code))) {
+                        Alert.alert("Erreur", "Nombre maximum de coffres atteint.");
+                        onCancel?.();
+                        return;
+                    }
+                    Alert.alert("Coffre créé", "Verrouillez l'application puis saisissez ce code pour ouvrir le coffre.");
+                } else if (isDecoyActive()) {
+                    await changeDuressPin(code);
+                    Alert.alert("Succès", "Verrouillage activé !");
+                } else if (getActiveVault()) {
+                    // Only this vault's code changes
+                    await enableSecretWrapping(code);
+                    Alert.alert("Succès", "Verrouillage activé !");
+                } else {
+                    await enableSecretWrapping(code);
+                    await SecureStore.setItemAsync(APP_LOCK_KEY, createLockRecord(lockType, code));
+                    // A duress code of another type could no longer be typed
+                    const duressType = await getDuressLockType();
+                    if (duressType && duressType !== lockType) await removeDuressPin();
+                    Alert.alert("Succès", "Verrouillage activé !");
+                }
                 onUnlock();
             } else {
                 setError("Les codes ne correspondent pas");
@@ -0,0 +1,52 @@
+import { getGhostStyles } from '@/components/GhostTheme';
+import { useTheme } from '@/context/ThemeContext';
+import { allowScreenCapture, preventScreenCapture } from '@/utils/ScreenshotDetector';
+import * as SecureStore from 'expo-secure-store';
+import React, { useEffect, useMemo } from 'react';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+interface RecoveryPhraseViewProps {
+    words: string[];
+    onDone: () => void;
+    doneLabel?: string;
+}
+
+/**
+ * Full-screen display of the recovery phrase. Screen capture is blocked while it is shown.
+ */
+export default function RecoveryPhraseView({ words, onDone, doneLabel = "J'AI NOTÉ MA PHRASE" }: RecoveryPhraseViewProps) {
+    const { colors } = useTheme();
+    const styles = useMemo(() => getGhostStyles(colors), [colors]);
+
+    useEffect(() => {
+        preventScreenCapture();
+        return () => {
+            // Back to the user's screenshot setting
+            SecureStore.getItemAsync("security_screenshot_detection").then(enabled => {
+                if (enabled !== "true") allowScreenCapture();
+            });
+        };
+    }, []);
+
+    return (
+        <ScrollView style={{ flex: 1, backgroundColor: colors.background }} contentContainerStyle={{ paddingTop: 80, paddingBottom: 40, alignItems: 'center' }}>
+            <Text style={{ fontSize: 28, fontWeight: 'bold', color: colors.text, marginBottom: 10 }}>Phrase de récupération</Text>
+            <Text style={{ fontSize: 15, color: colors.textSecondary, marginBottom: 30, textAlign: 'center', paddingHorizontal: 30 }}>
+                {"Ces 24 mots permettent de retrouver votre identité sur un autre téléphone. Écrivez-les sur papier, dans l'ordre, et ne les partagez avec personne."}
+            </Text>
+
+            <View style={{ width: '90%', flexDirection: 'row', flexWrap: 'wrap', backgroundColor: colors.surface, borderRadius: 15, borderWidth: 1, borderColor: colors.border, padding: 10, marginBottom: 30 }}>
+                {words.map((word, i) => (
+                    <View key={i} style={{ width: '50%', flexDirection: 'row', paddingVertical: 8, paddingHorizontal: 10 }}>
+                        <Text style={{ width: 28, color: colors.textSecondary, fontSize: 15 }}>{i + 1}.</Text>
+                        <Text style={{ color: colors.text, fontSize: 16, fontWeight: '600' }}>{word}</Text>
+                    </View>
+                ))}
+            </View>
+
+            <TouchableOpacity style={[styles.buttonPrimary, { width: '80%' }]} onPress={onDone}>
+                <Text style={styles.buttonText}>{doneLabel}</Text>
+            </TouchableOpacity>
+        </ScrollView>
+    );
+}
@@ -0,0 +1,36 @@
+import { isVaultUri, loadVaultImage } from '@/utils/MediaVault';
+import React, { useEffect, useState } from 'react';
+import { Image, ImageStyle, StyleProp } from 'react-native';
+
+interface VaultImageProps {
+    uri: string;
+    // Key of a vault file; plain URIs (presets, older records) are shown as they are
+    fileKey?: string;
+    style?: StyleProp<ImageStyle>;
+}
+
+/**
+ * Image that may live encrypted in the media vault (contact avatars)
+ */
+export default function VaultImage({ uri, fileKey, style }: VaultImageProps) {
+    const encrypted = isVaultUri(uri);
+    const [source, setSource] = useState<string | null>(encrypted ? null : uri);
+
+    useEffect(() => {
+        if (!encrypted) {
+            setSource(uri);
+            return;
+        }
+        setSource(null);
+        if (!fileKey) return;
+
+        let cancelled = false;
+        loadVaultImage({ uri, key: fileKey })
+            .then(data => { if (!cancelled) setSource(data); })
+            .catch(e => console.warn("[VAULT] Cannot open image", e));
+        return () => { cancelled = true; };
+    }, [uri, fileKey, encrypted]);
+
+    if (!source) return null;
+    return <Image source={{ uri: source }} style={style} />;
+}
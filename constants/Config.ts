@@ -3,7 +3,8 @@ import Constants from 'expo-constants';
 const SERVER_PORT = 3000;
 
 // En production, remplace par ton domaine : "https://tondomaine.com"
-const PRODUCTION_URL = "https://mysecret-server.onrender.com";
+// EXPO_PUBLIC_SERVER_URL="" force le relais local (Mysecretserver) en dev
+const PRODUCTION_URL = process.env.EXPO_PUBLIC_SERVER_URL ?? "https://mysecret-server.onrender.com";
 
 // En dev, on tolère HTTP pour le réseau local uniquement
 const __DEV_MODE__ = __DEV__;
@@ -0,0 +1,88 @@
+import { getServerURL } from '@/constants/Config';
+import { authFetch, clearAuthCache, getMyID } from '@/utils/AuthHelper';
+import { deleteCodeKdf } from '@/utils/KeyDerivation';
+import { deleteMasterSecret, getActiveVault, lockMasterSecret, vaultKey } from '@/utils/MasterKey';
+import { wipeMediaVault } from '@/utils/MediaVault';
+import { clearReplayGuardCache } from '@/utils/ReplayGuard';
+import { clearSecureStorageCache, secureKeys } from '@/utils/SecureStorage';
+import { deleteAllVaults, deleteVault } from '@/utils/Vaults';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * Account deletion: the relay account first (best-effort), then every local trace. Shared by
+ * the settings, the inactivity auto-delete and the duress code. From a vault other than the
+ * main one, the settings delete only that vault (wipeOpenVault).
+ */
+
+// Settings and lock state kept in SecureStore next to the master secret
+const SECURE_STORE_KEYS = [
+    "my_pending_secret_key_v1",
+    "my_previous_secret_key_v1",
+    "my_app_lock_pin_v1",
+    "my_app_duress_pin_v1",
+    "privacy_read_receipts",
+    "privacy_online_status",
+    "security_last_active_timestamp",
+    "security_auto_delete_delay",
+    "ghost_lock_failed_attempts",
+    "security_screenshot_detection",
+];
+
+async function deleteRelayAccount(): Promise<void> {
+    try {
+        const myID = await getMyID();
+        if (myID) {
+            const serverURL = await getServerURL();
+            await authFetch(`${serverURL}/delete-account`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: myID })
+            });
+        }
+    } catch (e) {
+        // Server notification failed but proceed with local wipe anyway
+        console.error("[WIPE] Failed to notify server of deletion", e);
+    }
+}
+
+export async function wipeAccount(): Promise<void> {
+    // Notify server before wiping local data
+    await deleteRelayAccount();
+
+    // Clear caches before wiping
+    clearAuthCache();
+    clearSecureStorageCache();
+    clearReplayGuardCache();
+
+    // Local wipe ALWAYS happens regardless of server response
+    await AsyncStorage.clear();
+    await wipeMediaVault();
+    await deleteMasterSecret();
+    await deleteAllVaults();
+    await deleteCodeKdf();
+    for (const key of SECURE_STORE_KEYS) {
+        await SecureStore.deleteItemAsync(key);
+    }
+}
+
+/**
+ * Delete the open vault (not the main one): its relay account, data, media and secret. The
+ * app is left locked.
+ */
+export async function wipeOpenVault(): Promise<void> {
+    const vault = getActiveVault();
+    if (!vault) throw new Error('No vault open');
+
+    await deleteRelayAccount();
+    const keys = (await secureKeys()).map(key => vaultKey(key));
+
+    clearAuthCache();
+    clearSecureStorageCache();
+    clearReplayGuardCache();
+
+    await AsyncStorage.multiRemove(keys);
+    await wipeMediaVault(vault);
+    await deleteVault(vault);
+    lockMasterSecret();
+}
@@ -1,11 +1,18 @@
 import nacl from '@/components/CryptoPolyfill';
 import { getServerURL } from '@/constants/Config';
+import { getMasterSecret, setMasterSecret, vaultKey } from '@/utils/MasterKey';
+import { buildPreKeyUpload, ONE_TIME_PREKEY_BATCH, ONE_TIME_PREKEY_LOW_WATER } from '@/utils/PreKeys';
+import { clearSecureStorageCache, reencryptSecureStorage } from '@/utils/SecureStorage';
+import { deriveUserId } from '@/utils/UserId';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { decode as decodeBase64, encode as encodeBase64 } from 'base-64';
 import * as Crypto from 'expo-crypto';
 import * as SecureStore from 'expo-secure-store';
 
-const STORAGE_KEY = "my_permanent_secret_key_v1";
+// Successor identity while a key rotation is in progress
+const PENDING_STORAGE_KEY = "my_pending_secret_key_v1";
+// Kept until SecureStorage has re-encrypted everything under the new identity
+const PREVIOUS_STORAGE_KEY = "my_previous_secret_key_v1";
 
 const stringToUint8Array = (str: string) => {
     const bytes = new Uint8Array(str.length);
@@ -26,23 +33,18 @@ const fromHex = (hex: string) =>
 let cachedSigningKeyPair: nacl.SignKeyPair | null = null;
 let cachedMyID: string | null = null;
 let cachedBoxSecretKey: Uint8Array | null = null;
+let lastPreKeyCheck = 0;
+
+// How often the poller may ask the relay how many one-time prekeys are left
+const PREKEY_CHECK_INTERVAL_MS = 10 * 60 * 1000;
 
 /**
- * Load and cache the identity (box secret key, signing keypair, user ID)
+ * Derive the signing keypair and user ID from a stored (base64) box secret key
  */
-async function loadIdentity(): Promise<{ signingKeyPair: nacl.SignKeyPair; myID: string; boxSecretKey: Uint8Array } | null> {
-    if (cachedSigningKeyPair && cachedMyID && cachedBoxSecretKey) {
-        return { signingKeyPair: cachedSigningKeyPair, myID: cachedMyID, boxSecretKey: cachedBoxSecretKey };
-    }
-
-    const stored = await SecureStore.getItemAsync(STORAGE_KEY);
-    if (!stored) return null;
-
+async function deriveIdentity(stored: string): Promise<{ signingKeyPair: nacl.SignKeyPair; myID: string; boxSecretKey: Uint8Array }> {
     const boxSecretKey = new Uint8Array(stringToUint8Array(decodeBase64(stored)));
     const boxKeyPair = nacl.box.keyPair.fromSecretKey(boxSecretKey);
-    const pkHex = toHex(boxKeyPair.publicKey);
-    const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, pkHex);
-    const myID = hash.substring(0, 12).toUpperCase();
+    const myID = deriveUserId(toHex(boxKeyPair.publicKey));
 
     // Derive signing keypair from box secret key using SHA256 as seed
     // nacl.sign.keyPair.fromSeed needs exactly 32 bytes
@@ -50,6 +52,23 @@ async function loadIdentity(): Promise<{ signingKeyPair: nacl.SignKeyPair; myID:
     const seed = fromHex(seedHex.substring(0, 64)); // 32 bytes
     const signingKeyPair = nacl.sign.keyPair.fromSeed(seed);
 
+    return { signingKeyPair, myID, boxSecretKey };
+}
+
+/**
+ * Load and cache the identity (box secret key, signing keypair, user ID)
+ */
+async function loadIdentity(): Promise<{ signingKeyPair: nacl.SignKeyPair; myID: string; boxSecretKey: Uint8Array } | null> {
+    if (cachedSigningKeyPair && cachedMyID && cachedBoxSecretKey) {
+        return { signingKeyPair: cachedSigningKeyPair, myID: cachedMyID, boxSecretKey: cachedBoxSecretKey };
+    }
+
+    // Null while the app lock keeps the secret wrapped
+    const stored = await getMasterSecret();
+    if (!stored) return null;
+
+    const { signingKeyPair, myID, boxSecretKey } = await deriveIdentity(stored);
+
     cachedSigningKeyPair = signingKeyPair;
     cachedMyID = myID;
     cachedBoxSecretKey = boxSecretKey;
@@ -64,6 +83,7 @@ export function clearAuthCache() {
     cachedSigningKeyPair = null;
     cachedMyID = null;
     cachedBoxSecretKey = null;
+    lastPreKeyCheck = 0;
 }
 
 /**
@@ -74,35 +94,132 @@ export async function generateNewIdentity(): Promise<void> {
     // Force reload comment
     const boxKeyPair = nacl.box.keyPair();
     const secretKeyB64 = encodeBase64(uint8ArrayToString(boxKeyPair.secretKey));
-    await SecureStore.setItemAsync(STORAGE_KEY, secretKeyB64);
+    await setMasterSecret(secretKeyB64);
 
     // Reset cache so next load picks up the new key
     clearAuthCache();
 }
 
 /**
- * Get authentication headers for a server request.
- * Signs: "ID:timestamp:METHOD:path"
+ * Store an identity brought back from a recovery phrase or a backup. Its prekeys are lost, so
+ * the next registration publishes a full new batch in place of those the relay still holds.
  */
-export async function getAuthHeaders(path: string, method: string = 'GET'): Promise<Record<string, string>> {
-    const identity = await loadIdentity();
-    if (!identity) {
-        console.warn('[AUTH] Cannot generate auth headers: identity not loaded');
-        return {};
+export async function restoreIdentity(secretKey: Uint8Array): Promise<void> {
+    if (secretKey.length !== nacl.box.secretKeyLength) throw new Error('Invalid secret key');
+    await setMasterSecret(encodeBase64(uint8ArrayToString(secretKey)));
+    await AsyncStorage.removeItem(vaultKey('auth_registered'));
+
+    clearAuthCache();
+    clearSecureStorageCache();
+}
+
+/**
+ * First half of a key rotation: create the successor identity (or reuse the one of an
+ * interrupted rotation) and register it on the relay, signed by the current identity.
+ * The current identity stays active so it can still notify contacts.
+ */
+export async function registerRotatedIdentity(): Promise<{ id: string; publicKey: string } | null> {
+    try {
+        const identity = await loadIdentity();
+        if (!identity) return null;
+
+        let pending = await SecureStore.getItemAsync(vaultKey(PENDING_STORAGE_KEY));
+        if (!pending) {
+            pending = encodeBase64(uint8ArrayToString(nacl.box.keyPair().secretKey));
+            await SecureStore.setItemAsync(vaultKey(PENDING_STORAGE_KEY), pending);
+        }
+        const next = await deriveIdentity(pending);
+        const boxPkHex = toHex(nacl.box.keyPair.fromSecretKey(next.boxSecretKey).publicKey);
+
+        const prekeys = await buildPreKeyUpload(boxPkHex, next.signingKeyPair.secretKey, ONE_TIME_PREKEY_BATCH);
+        const proof = nacl.sign.detached(
+            stringToUint8Array(`GHOST_ROTATE:${identity.myID}:${next.myID}`),
+            next.signingKeyPair.secretKey
+        );
+
+        const serverURL = await getServerURL();
+        const res = await authFetch(`${serverURL}/rotate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                id: next.myID,
+                publicKey: boxPkHex,
+                signingKey: toHex(next.signingKeyPair.publicKey),
+                proof: encodeBase64(uint8ArrayToString(proof)),
+                prekeys,
+            })
+        });
+        if (!res.ok) {
+            console.warn('[AUTH] Rotation refused by the server', res.status);
+            return null;
+        }
+        return { id: next.myID, publicKey: boxPkHex };
+    } catch (e) {
+        console.error('[AUTH] Rotation registration failed', e);
+        return null;
     }
+}
 
+/**
+ * Second half of a key rotation: make the registered successor the current identity
+ * and re-encrypt local storage under it.
+ */
+export async function commitRotatedIdentity(): Promise<void> {
+    const pending = await SecureStore.getItemAsync(vaultKey(PENDING_STORAGE_KEY));
+    const current = await getMasterSecret();
+    if (!pending || !current) throw new Error('No rotation in progress');
+
+    await SecureStore.setItemAsync(vaultKey(PREVIOUS_STORAGE_KEY), current);
+    await setMasterSecret(pending);
+    await SecureStore.deleteItemAsync(vaultKey(PENDING_STORAGE_KEY));
+
+    clearAuthCache();
+    clearSecureStorageCache();
+    // The relay registered the successor in /rotate
+    await AsyncStorage.setItem(vaultKey('auth_registered'), 'true');
+    await reencryptSecureStorage();
+}
+
+/**
+ * Sign a request as `myID`. The nonce makes every signature single-use on the relay
+ * and the body hash binds the signature to the exact payload.
+ */
+async function signRequest(
+    myID: string,
+    signingSecretKey: Uint8Array,
+    path: string,
+    method: string,
+    body: string
+): Promise<Record<string, string>> {
     const timestamp = Date.now().toString();
-    const message = `${identity.myID}:${timestamp}:${method.toUpperCase()}:${path}`;
-    const messageBytes = stringToUint8Array(message);
-    const signature = nacl.sign.detached(messageBytes, identity.signingKeyPair.secretKey);
+    const nonce = toHex(nacl.randomBytes(16));
+    // digestStringAsync hashes the UTF-8 bytes, which is what fetch sends
+    const bodyHash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, body);
+    const message = `${myID}:${timestamp}:${nonce}:${method.toUpperCase()}:${path}:${bodyHash}`;
+    const signature = nacl.sign.detached(stringToUint8Array(message), signingSecretKey);
 
     return {
-        'X-Ghost-ID': identity.myID,
+        'X-Ghost-ID': myID,
         'X-Ghost-Timestamp': timestamp,
+        'X-Ghost-Nonce': nonce,
         'X-Ghost-Signature': encodeBase64(uint8ArrayToString(signature)),
     };
 }
 
+/**
+ * Get authentication headers for a server request.
+ * Signs: "ID:timestamp:nonce:METHOD:path:SHA256(body)"
+ */
+export async function getAuthHeaders(path: string, method: string = 'GET', body: string = ''): Promise<Record<string, string>> {
+    const identity = await loadIdentity();
+    if (!identity) {
+        console.warn('[AUTH] Cannot generate auth headers: identity not loaded');
+        return {};
+    }
+
+    return signRequest(identity.myID, identity.signingKeyPair.secretKey, path, method, body);
+}
+
 /**
  * Get the current user's ID
  */
@@ -128,6 +245,15 @@ export async function getSigningPublicKeyHex(): Promise<string | null> {
     return toHex(identity.signingKeyPair.publicKey);
 }
 
+/**
+ * Sign arbitrary bytes with the identity signing key (Ed25519, detached)
+ */
+export async function signWithIdentity(message: Uint8Array): Promise<Uint8Array | null> {
+    const identity = await loadIdentity();
+    if (!identity) return null;
+    return nacl.sign.detached(message, identity.signingKeyPair.secretKey);
+}
+
 /**
  * Get the box public key in hex
  */
@@ -153,35 +279,40 @@ export async function registerWithServer(): Promise<boolean> {
 
         const serverURL = await getServerURL();
 
-        // Sign the registration itself
-        const timestamp = Date.now().toString();
-        const message = `${identity.myID}:${timestamp}:POST:/register`;
-        const messageBytes = stringToUint8Array(message);
-        const signature = nacl.sign.detached(messageBytes, identity.signingKeyPair.secretKey);
+        // First registration publishes a full batch of one-time prekeys; later calls
+        // only re-send the signed prekey and let replenishPreKeys top up the pool
+        const alreadyRegistered = (await AsyncStorage.getItem(vaultKey('auth_registered'))) === 'true';
+        const prekeys = await buildPreKeyUpload(
+            boxPkHex,
+            identity.signingKeyPair.secretKey,
+            alreadyRegistered ? 0 : ONE_TIME_PREKEY_BATCH
+        );
+
+        const body = JSON.stringify({
+            id: identity.myID,
+            publicKey: boxPkHex,
+            signingKey: signPkHex,
+            prekeys,
+        });
 
+        // Sign the registration itself
         const res = await fetch(`${serverURL}/register`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
-                'X-Ghost-ID': identity.myID,
-                'X-Ghost-Timestamp': timestamp,
-                'X-Ghost-Signature': encodeBase64(uint8ArrayToString(signature)),
+                ...(await signRequest(identity.myID, identity.signingKeyPair.secretKey, '/register', 'POST', body)),
             },
-            body: JSON.stringify({
-                id: identity.myID,
-                publicKey: boxPkHex,
-                signingKey: signPkHex,
-            })
+            body
         });
 
         if (res.ok) {
-            await AsyncStorage.setItem('auth_registered', 'true');
+            await AsyncStorage.setItem(vaultKey('auth_registered'), 'true');
             return true;
         }
 
         const data = await res.json().catch(() => ({}));
         if (data.status === 'ALREADY_REGISTERED') {
-            await AsyncStorage.setItem('auth_registered', 'true');
+            await AsyncStorage.setItem(vaultKey('auth_registered'), 'true');
             return true;
         }
 
@@ -198,7 +329,41 @@ export async function registerWithServer(): Promise<boolean> {
 export async function ensureRegistered(): Promise<void> {
     // We always attempt registration to ensure synchronization with the server state (e.g., if the DB was reset).
     // The server handles duplicate registrations gracefully (ALREADY_REGISTERED).
-    await registerWithServer();
+    if (await registerWithServer()) {
+        await replenishPreKeys(true);
+    }
+}
+
+/**
+ * Top up the one-time prekeys published on the relay and push a rotated signed prekey.
+ * Throttled unless `force` is set, so it can be called from the polling loop.
+ */
+export async function replenishPreKeys(force: boolean = false): Promise<void> {
+    if (!force && Date.now() - lastPreKeyCheck < PREKEY_CHECK_INTERVAL_MS) return;
+    lastPreKeyCheck = Date.now();
+
+    try {
+        const identity = await loadIdentity();
+        const boxPkHex = await getBoxPublicKeyHex();
+        if (!identity || !boxPkHex) return;
+
+        const serverURL = await getServerURL();
+        const res = await authFetch(`${serverURL}/prekeys/count`, { method: 'GET' });
+        if (!res.ok) return;
+        const { count, signedPreKeyId } = await res.json();
+
+        const missing = count < ONE_TIME_PREKEY_LOW_WATER ? ONE_TIME_PREKEY_BATCH - count : 0;
+        const upload = await buildPreKeyUpload(boxPkHex, identity.signingKeyPair.secretKey, missing);
+        if (missing === 0 && upload.signedPreKey.id === signedPreKeyId) return;
+
+        await authFetch(`${serverURL}/prekeys`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(upload)
+        });
+    } catch (e) {
+        console.error('[PREKEYS] Replenish failed', e);
+    }
 }
 
 /**
@@ -208,9 +373,11 @@ export async function authFetch(url: string, options: RequestInit = {}): Promise
     const urlObj = new URL(url);
     const path = urlObj.pathname;
     const method = options.method || 'GET';
+    // Every caller sends JSON strings; anything else is signed as an empty body
+    const body = typeof options.body === 'string' ? options.body : '';
 
     const getHeaders = async () => {
-        const authHeaders = await getAuthHeaders(path, method);
+        const authHeaders = await getAuthHeaders(path, method, body);
         return {
             ...options.headers,
             ...authHeaders,
@@ -0,0 +1,258 @@
+import nacl from '@/components/CryptoPolyfill';
+import { ensureRegistered, restoreIdentity } from '@/utils/AuthHelper';
+import { Contact, parseContact, readContacts, updateContacts } from '@/utils/ContactRepository';
+import {
+    getEphemeralTimer,
+    getLastRead,
+    listConversationIds,
+    markConversationRead,
+    setEphemeralTimer,
+} from '@/utils/ConversationRepository';
+import { bytesToHex, hexToBytes, utf8Decode, utf8Encode } from '@/utils/CryptoPrimitives';
+import { calibrateIterations, createKdfParams, deriveKey, isKdfParams, KdfParams } from '@/utils/KeyDerivation';
+import { getMasterSecret } from '@/utils/MasterKey';
+import { exportVaultFile, importVaultFile } from '@/utils/MediaVault';
+import { readMessages, replaceConversation, StoredMessage } from '@/utils/MessageStore';
+import { getProfile, parseProfile, Profile, saveProfile } from '@/utils/ProfileRepository';
+import { decode as decodeBase64, encode as encodeBase64 } from 'base-64';
+import * as FileSystem from 'expo-file-system/legacy';
+
+/**
+ * Passphrase-encrypted backup of the whole account: identity key, profile, contacts (with
+ * their verification state), histories with their media files, read markers and ephemeral
+ * timers. Restoring it on a fresh install brings the same identity back.
+ *
+ * File: JSON { format, v, kdf, nonce, box } where `box` is the secretbox (base64) of the
+ * archive JSON under a key derived from the passphrase. Media files travel still sealed with
+ * their own keys, which are in the records that reference them.
+ *
+ * Ratchet sessions and prekeys are not included: the restored install publishes fresh prekeys
+ * and conversations start new sessions.
+ */
+
+const BACKUP_FORMAT = 'mysecretapp-backup';
+const BACKUP_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 10;
+// The file can be attacked offline, so derivation is slower than for the PIN
+const BACKUP_DERIVATION_MS = 1000;
+
+interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    v: number;
+    kdf: KdfParams;
+    nonce: string;
+    box: string;
+}
+
+interface BackupConversation {
+    id: string;
+    // Oldest first
+    messages: StoredMessage[];
+    lastRead: number;
+    ephemeralTimer: number | null;
+}
+
+interface BackupArchive {
+    v: 1;
+    createdAt: number;
+    // Base64 box secret key (MasterKey)
+    identity: string;
+    profile: Profile | null;
+    contacts: Contact[];
+    conversations: BackupConversation[];
+    // Sealed vault files by the URI the records use
+    media: Record<string, string>;
+}
+
+export type RestoreResult = 'restored' | 'wrong_passphrase' | 'invalid_file';
+
+const stringToUint8Array = (str: string) => {
+    const arr = new Uint8Array(str.length);
+    for (let i = 0; i < str.length; i++) arr[i] = str.charCodeAt(i) & 0xFF;
+    return arr;
+};
+const uint8ArrayToString = (arr: Uint8Array) => {
+    let str = '';
+    for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]);
+    return str;
+};
+
+async function collectArchive(identity: string): Promise<BackupArchive> {
+    const media: Record<string, string> = {};
+    const addMedia = async (uri: string | null | undefined, key: string | undefined) => {
+        if (!uri || !key || media[uri]) return;
+        const sealed = await exportVaultFile(uri);
+        if (sealed) media[uri] = sealed;
+    };
+
+    // Strict read: a backup without the contacts would be worse than none
+    const contacts = await readContacts();
+    for (const contact of contacts) await addMedia(contact.avatar, contact.avatarKey);
+
+    const conversations: BackupConversation[] = [];
+    for (const id of await listConversationIds()) {
+        const { messages } = await readMessages(id, null, Number.MAX_SAFE_INTEGER);
+        messages.reverse();
+        for (const message of messages) await addMedia(message.localUri, message.mediaKey);
+        conversations.push({
+            id,
+            messages,
+            lastRead: await getLastRead(id),
+            ephemeralTimer: await getEphemeralTimer(id),
+        });
+    }
+
+    return {
+        v: 1,
+        createdAt: Date.now(),
+        identity,
+        profile: await getProfile(),
+        contacts,
+        conversations,
+        media,
+    };
+}
+
+/**
+ * Write an encrypted backup to the cache directory and return its URI. The caller shares it
+ * and deletes it. Null while the app is locked or if there is no identity.
+ */
+export async function createBackup(passphrase: string): Promise<string | null> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error('Passphrase too short');
+    const identity = await getMasterSecret();
+    if (!identity) return null;
+
+    const archive = await collectArchive(identity);
+    const kdf = createKdfParams(calibrateIterations(BACKUP_DERIVATION_MS));
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+    const box = nacl.secretbox(utf8Encode(JSON.stringify(archive)), nonce, deriveKey(passphrase, kdf, nacl.secretbox.keyLength));
+
+    const file: BackupFile = {
+        format: BACKUP_FORMAT,
+        v: BACKUP_VERSION,
+        kdf,
+        nonce: bytesToHex(nonce),
+        box: encodeBase64(uint8ArrayToString(box)),
+    };
+    const date = new Date().toISOString().substring(0, 10);
+    const uri = `${FileSystem.cacheDirectory || ""}mysecretapp-${date}.backup`;
+    await FileSystem.writeAsStringAsync(uri, JSON.stringify(file));
+    return uri;
+}
+
+function parseBackupFile(json: string): BackupFile | null {
+    try {
+        const file = JSON.parse(json);
+        if (!file || file.format !== BACKUP_FORMAT || file.v !== BACKUP_VERSION) return null;
+        if (!isKdfParams(file.kdf) || typeof file.nonce !== 'string' || !/^[a-f0-9]{48}$/.test(file.nonce)) return null;
+        return typeof file.box === 'string' ? file : null;
+    } catch {
+        return null;
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isStoredMessage = (value: unknown): value is StoredMessage =>
+    isRecord(value) && typeof value.id === 'string' && typeof value.text === 'string' &&
+    typeof value.timestamp === 'number' && typeof value.isMe === 'boolean';
+
+/**
+ * Keep only well-formed records; null if the archive itself is not usable
+ */
+function parseArchive(value: unknown): BackupArchive | null {
+    if (!isRecord(value) || value.v !== 1 || typeof value.identity !== 'string') return null;
+    let identityKey: Uint8Array;
+    try {
+        identityKey = stringToUint8Array(decodeBase64(value.identity));
+    } catch {
+        return null;
+    }
+    if (identityKey.length !== nacl.box.secretKeyLength) return null;
+
+    const contacts = Array.isArray(value.contacts) ? value.contacts.map(parseContact).filter((c): c is Contact => c !== null) : [];
+    const conversations: BackupConversation[] = [];
+    for (const c of Array.isArray(value.conversations) ? value.conversations : []) {
+        if (!isRecord(c) || typeof c.id !== 'string' || !/^[A-Z0-9]+$/.test(c.id) || !Array.isArray(c.messages)) continue;
+        conversations.push({
+            id: c.id,
+            messages: c.messages.filter(isStoredMessage),
+            lastRead: typeof c.lastRead === 'number' ? c.lastRead : 0,
+            ephemeralTimer: typeof c.ephemeralTimer === 'number' && c.ephemeralTimer > 0 ? c.ephemeralTimer : null,
+        });
+    }
+    const media: Record<string, string> = {};
+    if (isRecord(value.media)) {
+        for (const [uri, sealed] of Object.entries(value.media)) {
+            if (typeof sealed === 'string') media[uri] = sealed;
+        }
+    }
+
+    return {
+        v: 1,
+        createdAt: typeof value.createdAt === 'number' ? value.createdAt : 0,
+        identity: value.identity,
+        profile: parseProfile(value.profile),
+        contacts,
+        conversations,
+        media,
+    };
+}
+
+/**
+ * Decrypt a backup file. Null if the file is not a readable backup.
+ */
+async function openBackup(uri: string, passphrase: string): Promise<BackupArchive | 'wrong_passphrase' | null> {
+    const file = parseBackupFile(await FileSystem.readAsStringAsync(uri));
+    if (!file) return null;
+    try {
+        const key = deriveKey(passphrase, file.kdf, nacl.secretbox.keyLength);
+        const opened = nacl.secretbox.open(stringToUint8Array(decodeBase64(file.box)), hexToBytes(file.nonce), key);
+        if (!opened) return 'wrong_passphrase';
+        return parseArchive(JSON.parse(utf8Decode(opened)));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Restore a backup on an install without identity (onboarding), then register with the relay.
+ * The profile is saved last: its presence marks a finished onboarding, so an interrupted
+ * restore is simply started again.
+ */
+export async function restoreBackup(uri: string, passphrase: string): Promise<RestoreResult> {
+    const archive = await openBackup(uri, passphrase);
+    if (archive === 'wrong_passphrase') return archive;
+    if (!archive) return 'invalid_file';
+
+    await restoreIdentity(stringToUint8Array(decodeBase64(archive.identity)));
+
+    // Vault files get new paths on this install
+    const uris = new Map<string, string>();
+    for (const [oldUri, sealed] of Object.entries(archive.media)) {
+        uris.set(oldUri, await importVaultFile(sealed));
+    }
+
+    await updateContacts(() => archive.contacts.map(contact => {
+        if (!contact.avatarKey || !contact.avatar) return contact;
+        const avatar = uris.get(contact.avatar);
+        return avatar ? { ...contact, avatar } : { ...contact, avatar: null, avatarKey: undefined };
+    }));
+
+    for (const conversation of archive.conversations) {
+        const messages = conversation.messages.map(message => {
+            if (!message.mediaKey || !message.localUri) return message;
+            const localUri = uris.get(message.localUri);
+            return localUri
+                ? { ...message, localUri }
+                : { ...message, localUri: undefined, mediaType: undefined, mediaKey: undefined };
+        });
+        await replaceConversation(conversation.id, messages);
+        if (conversation.lastRead > 0) await markConversationRead(conversation.id, conversation.lastRead);
+        await setEphemeralTimer(conversation.id, conversation.ephemeralTimer);
+    }
+
+    await saveProfile(archive.profile ?? { pseudo: '', avatar: null });
+    await ensureRegistered();
+    return 'restored';
+}
@@ -0,0 +1,43 @@
+import { Contact, updateContacts } from '@/utils/ContactRepository';
+import { moveContactData } from '@/utils/KeyRotation';
+import { moveSession } from '@/utils/RatchetSession';
+import { deriveLegacyUserId, deriveUserId, isLegacyUserId } from '@/utils/UserId';
+
+/**
+ * Move contacts stored under legacy 12-hex IDs to the current ID format (see UserId).
+ * The relay resolves both formats to the same account, so a contact that has not upgraded
+ * yet is still reachable under its new ID. Run as storage migration 2 (StorageMigrations).
+ */
+
+/**
+ * Re-key legacy contacts and their data. Returns the number of contacts migrated.
+ * Data moves first and the list is saved last, so an interrupted run is simply resumed.
+ */
+export async function migrateLegacyContactIds(): Promise<number> {
+    let count = 0;
+    await updateContacts(async list => {
+        const renames: { from: string; to: string }[] = [];
+        const seen = new Set<string>();
+        const migrated: Contact[] = [];
+        for (const contact of list) {
+            let entry = contact;
+            if (isLegacyUserId(contact.id) && deriveLegacyUserId(contact.key) === contact.id) {
+                entry = { ...contact, id: deriveUserId(contact.key) };
+                renames.push({ from: contact.id, to: entry.id });
+            }
+            // Same person already added under the new ID (new QR code): keep the first entry
+            if (seen.has(entry.id)) continue;
+            seen.add(entry.id);
+            migrated.push(entry);
+        }
+
+        for (const { from, to } of renames) {
+            await moveSession(from, to);
+            await moveContactData(from, to);
+        }
+        count = renames.length;
+        return migrated;
+    });
+    if (count > 0) console.log(`[MIGRATION] ${count} contact(s) moved to the new ID format`);
+    return count;
+}
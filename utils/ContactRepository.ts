@@ -0,0 +1,169 @@
+import { vaultKey } from '@/utils/MasterKey';
+import { secureGet, secureTransaction } from '@/utils/SecureStorage';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * The contact list: one encrypted JSON array, read and written only through this module.
+ * Writes hold the list's key lock so the poller and the screens never overwrite each other's changes.
+ */
+
+export interface Contact {
+    id: string;
+    // Name the contact chose (profile updates replace it)
+    name: string;
+    // Box public key, hex
+    key: string;
+    // Ed25519 key registered on the relay, learned from the handshake
+    signingKey?: string;
+    avatar: string | null;
+    // Key of the vault file at `avatar`, when the avatar came as an image
+    avatarKey?: string;
+    // Local name chosen by the user, shown instead of `name`
+    alias?: string;
+    isSelf?: boolean;
+    isBlocked?: boolean;
+    // Safety number checked, for `verifiedKey` only
+    isVerified?: boolean;
+    verifiedKey?: string;
+    // A different key was announced for this ID and awaits approval
+    securityWarning?: boolean;
+    pendingNewKey?: string;
+}
+
+export interface Presence {
+    isOnline: boolean;
+    lastSeen: number | null;
+}
+
+const CONTACTS_KEY = "my_contacts_list_v1";
+// Plain AsyncStorage: last relay answer, nothing secret
+const PRESENCE_KEY = "contact_presence";
+
+const KEY_PATTERN = /^[a-f0-9]{64}$/i;
+
+const optionalString = (value: unknown) => typeof value === 'string' && value.length > 0 ? value : undefined;
+const optionalFlag = (value: unknown) => value === true ? true : undefined;
+
+/**
+ * A stored contact record, or null if it lacks an ID or a valid key. Unknown fields are dropped.
+ */
+export function parseContact(value: unknown): Contact | null {
+    if (!value || typeof value !== 'object') return null;
+    const v = value as Record<string, unknown>;
+    if (typeof v.id !== 'string' || v.id.length === 0) return null;
+    if (typeof v.key !== 'string' || !KEY_PATTERN.test(v.key)) return null;
+
+    const contact: Contact = {
+        id: v.id,
+        name: typeof v.name === 'string' ? v.name : `Contact ${v.id.substring(0, 4)}`,
+        key: v.key,
+        avatar: typeof v.avatar === 'string' ? v.avatar : null,
+        avatarKey: optionalString(v.avatarKey),
+        signingKey: optionalString(v.signingKey),
+        alias: optionalString(v.alias),
+        isSelf: optionalFlag(v.isSelf),
+        isBlocked: optionalFlag(v.isBlocked),
+        isVerified: optionalFlag(v.isVerified),
+        verifiedKey: optionalString(v.verifiedKey),
+        securityWarning: optionalFlag(v.securityWarning),
+        pendingNewKey: optionalString(v.pendingNewKey),
+    };
+    // Keep the stored JSON free of empty keys
+    for (const field of Object.keys(contact) as (keyof Contact)[]) {
+        if (contact[field] === undefined) delete contact[field];
+    }
+    return contact;
+}
+
+/**
+ * Stored contacts. Throws on an unreadable list, so an update never replaces it with an empty
+ * one (and the media collector never takes its avatars for orphans).
+ */
+export async function readContacts(): Promise<Contact[]> {
+    return parseContactList(await secureGet(CONTACTS_KEY));
+}
+
+function parseContactList(json: string | null): Contact[] {
+    const list = json ? JSON.parse(json) : [];
+    if (!Array.isArray(list)) throw new Error('Contact list is not an array');
+    return list.map(parseContact).filter((c): c is Contact => c !== null);
+}
+
+/**
+ * Every stored contact, the user's own entry included if there is one
+ */
+export async function getContacts(): Promise<Contact[]> {
+    try {
+        return await readContacts();
+    } catch (e) {
+        console.warn('[CONTACTS] Unreadable contact list', e);
+        return [];
+    }
+}
+
+/**
+ * Contacts other than the user's own entry
+ */
+export async function getPeerContacts(): Promise<Contact[]> {
+    return (await getContacts()).filter(c => !c.isSelf);
+}
+
+export async function getContact(id: string): Promise<Contact | null> {
+    return (await getContacts()).find(c => c.id === id) ?? null;
+}
+
+/**
+ * Read-modify-write of the whole list in one transaction. Returns the saved list.
+ */
+export function updateContacts(update: (contacts: Contact[]) => Contact[] | Promise<Contact[]>): Promise<Contact[]> {
+    return secureTransaction([CONTACTS_KEY], async tx => {
+        const contacts = await update(parseContactList(await tx.get(CONTACTS_KEY)));
+        const cleaned = contacts.map(parseContact).filter((c): c is Contact => c !== null);
+        tx.set(CONTACTS_KEY, JSON.stringify(cleaned));
+        return cleaned;
+    });
+}
+
+/**
+ * Change one contact. Returns the updated record, or null if there is no contact with this ID.
+ */
+export async function updateContact(id: string, update: Partial<Contact> | ((contact: Contact) => Contact)): Promise<Contact | null> {
+    let updated: Contact | null = null;
+    await updateContacts(contacts => contacts.map(c => {
+        if (c.id !== id) return c;
+        updated = typeof update === 'function' ? update(c) : { ...c, ...update };
+        return updated;
+    }));
+    return updated;
+}
+
+/**
+ * Add a contact, or replace the one stored under the same ID
+ */
+export async function saveContact(contact: Contact): Promise<void> {
+    await updateContacts(contacts => {
+        const index = contacts.findIndex(c => c.id === contact.id);
+        if (index === -1) return [...contacts, contact];
+        const next = contacts.slice();
+        next[index] = contact;
+        return next;
+    });
+}
+
+export async function removeContact(id: string): Promise<void> {
+    await updateContacts(contacts => contacts.filter(c => c.id !== id));
+}
+
+export async function getPresence(): Promise<Record<string, Presence>> {
+    try {
+        const json = await AsyncStorage.getItem(vaultKey(PRESENCE_KEY));
+        const presence = json ? JSON.parse(json) : {};
+        return presence && typeof presence === 'object' ? presence : {};
+    } catch {
+        return {};
+    }
+}
+
+export async function savePresence(presence: Record<string, Presence>): Promise<void> {
+    await AsyncStorage.setItem(vaultKey(PRESENCE_KEY), JSON.stringify(presence));
+}
@@ -0,0 +1,116 @@
+import { vaultKey } from '@/utils/MasterKey';
+import { countUnread, deleteConversation, moveConversation, readLatestMessage, StoredMessage } from '@/utils/MessageStore';
+import { secureClear, secureGet, secureKeys, secureMove, secureSet } from '@/utils/SecureStorage';
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * Per-conversation state around the messages themselves (those are in MessageStore):
+ * last read time, ephemeral timer, and moving or deleting everything kept under a contact ID.
+ */
+
+export interface ConversationSummary {
+    lastMessage: StoredMessage | null;
+    unreadCount: number;
+}
+
+const LAST_READ_PREFIX = "last_read_";
+const EPHEMERAL_TIMER_PREFIX = "ephemeral_timer_";
+// MessageStore keys (index, pages and legacy blobs) all start with it
+const HISTORY_PREFIX = "history_";
+
+/**
+ * When the user last opened the conversation (ms), 0 if never
+ */
+export async function getLastRead(contactId: string): Promise<number> {
+    try {
+        const value = await secureGet(LAST_READ_PREFIX + contactId);
+        const lastRead = value ? parseInt(value, 10) : 0;
+        return isNaN(lastRead) ? 0 : lastRead;
+    } catch {
+        return 0;
+    }
+}
+
+export async function markConversationRead(contactId: string, at: number = Date.now()): Promise<void> {
+    await secureSet(LAST_READ_PREFIX + contactId, at.toString());
+}
+
+/**
+ * Incoming messages received since the conversation was last opened
+ */
+export async function getUnreadCount(contactId: string): Promise<number> {
+    return countUnread(contactId, await getLastRead(contactId));
+}
+
+/**
+ * Last message and unread count, reading only the newest pages of the history
+ */
+export async function getConversationSummary(contactId: string): Promise<ConversationSummary> {
+    const lastMessage = await readLatestMessage(contactId);
+    if (!lastMessage) return { lastMessage: null, unreadCount: 0 };
+    return { lastMessage, unreadCount: await getUnreadCount(contactId) };
+}
+
+/**
+ * Lifetime of the conversation's messages in seconds, null when they do not expire
+ */
+export async function getEphemeralTimer(contactId: string): Promise<number | null> {
+    const value = await SecureStore.getItemAsync(vaultKey(EPHEMERAL_TIMER_PREFIX + contactId));
+    const seconds = value ? parseInt(value, 10) : NaN;
+    return seconds > 0 ? seconds : null;
+}
+
+export async function setEphemeralTimer(contactId: string, seconds: number | null): Promise<void> {
+    if (seconds === null) {
+        await SecureStore.deleteItemAsync(vaultKey(EPHEMERAL_TIMER_PREFIX + contactId));
+    } else {
+        await SecureStore.setItemAsync(vaultKey(EPHEMERAL_TIMER_PREFIX + contactId), seconds.toString());
+    }
+}
+
+/**
+ * Move history, read marker and timer to a contact's new ID (key rotation, ID migration)
+ */
+export async function moveConversationData(previousId: string, id: string): Promise<void> {
+    await moveConversation(previousId, id);
+
+    // Moved as stored (encrypted), no need to decrypt
+    await secureMove(LAST_READ_PREFIX + previousId, LAST_READ_PREFIX + id);
+
+    const timer = await SecureStore.getItemAsync(vaultKey(EPHEMERAL_TIMER_PREFIX + previousId));
+    if (timer) {
+        await SecureStore.setItemAsync(vaultKey(EPHEMERAL_TIMER_PREFIX + id), timer);
+        await SecureStore.deleteItemAsync(vaultKey(EPHEMERAL_TIMER_PREFIX + previousId));
+    }
+}
+
+/**
+ * Delete a conversation's history and read marker (contact deleted)
+ */
+export async function deleteConversationData(contactId: string): Promise<void> {
+    await secureClear(LAST_READ_PREFIX + contactId);
+    await deleteConversation(contactId);
+}
+
+/**
+ * IDs of every conversation with a stored history, including those of deleted contacts
+ */
+export async function listConversationIds(): Promise<string[]> {
+    const ids = new Set<string>();
+    for (const key of await secureKeys()) {
+        if (!key.startsWith(HISTORY_PREFIX)) continue;
+        // history_<id>_index, history_<id>_p<n> and legacy history_<id>; IDs have no underscore
+        ids.add(key.substring(HISTORY_PREFIX.length).split('_')[0]);
+    }
+    return [...ids];
+}
+
+/**
+ * Delete every conversation's history and read marker (settings)
+ */
+export async function clearAllConversations(): Promise<void> {
+    const keys = await secureKeys();
+    for (const key of keys.filter(k => k.startsWith(HISTORY_PREFIX) || k.startsWith(LAST_READ_PREFIX))) {
+        await secureClear(key);
+    }
+}
@@ -0,0 +1,255 @@
+/**
+ * Synchronous hash/KDF primitives that tweetnacl does not provide.
+ * SHA-256 is implemented in pure JS so key derivations stay off the native bridge.
+ */
+
+const K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const IV = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]);
+
+const W = new Uint32Array(64);
+
+function compress(state: Uint32Array, block: Uint8Array, offset: number) {
+    for (let i = 0; i < 16; i++) {
+        const j = offset + i * 4;
+        W[i] = (block[j] << 24) | (block[j + 1] << 16) | (block[j + 2] << 8) | block[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+        const w15 = W[i - 15], w2 = W[i - 2];
+        const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+        const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+        W[i] = (W[i - 16] + s0 + W[i - 7] + s1) | 0;
+    }
+
+    let a = state[0], b = state[1], c = state[2], d = state[3];
+    let e = state[4], f = state[5], g = state[6], h = state[7];
+
+    for (let i = 0; i < 64; i++) {
+        const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+        const ch = (e & f) ^ (~e & g);
+        const t1 = (h + S1 + ch + K[i] + W[i]) | 0;
+        const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+        const maj = (a & b) ^ (a & c) ^ (b & c);
+        const t2 = (S0 + maj) | 0;
+        h = g; g = f; f = e; e = (d + t1) | 0;
+        d = c; c = b; b = a; a = (t1 + t2) | 0;
+    }
+
+    state[0] = (state[0] + a) | 0; state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0; state[3] = (state[3] + d) | 0;
+    state[4] = (state[4] + e) | 0; state[5] = (state[5] + f) | 0;
+    state[6] = (state[6] + g) | 0; state[7] = (state[7] + h) | 0;
+}
+
+/**
+ * SHA-256 digest (FIPS 180-4)
+ */
+export function sha256(data: Uint8Array): Uint8Array {
+    const state = IV.slice();
+
+    const fullBlocks = Math.floor(data.length / 64);
+    for (let i = 0; i < fullBlocks; i++) compress(state, data, i * 64);
+
+    // Padding: 0x80, zeros, then the bit length as a 64-bit big-endian integer
+    const rest = data.length - fullBlocks * 64;
+    const tail = new Uint8Array(rest < 56 ? 64 : 128);
+    tail.set(data.subarray(fullBlocks * 64));
+    tail[rest] = 0x80;
+    const bitLength = data.length * 8;
+    const view = new DataView(tail.buffer);
+    view.setUint32(tail.length - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(tail.length - 4, bitLength >>> 0);
+    for (let i = 0; i < tail.length; i += 64) compress(state, tail, i);
+
+    const out = new Uint8Array(32);
+    const outView = new DataView(out.buffer);
+    for (let i = 0; i < 8; i++) outView.setUint32(i * 4, state[i]);
+    return out;
+}
+
+/**
+ * HMAC-SHA256 (RFC 2104)
+ */
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+    const blockKey = new Uint8Array(64);
+    blockKey.set(key.length > 64 ? sha256(key) : key);
+
+    const inner = new Uint8Array(64 + data.length);
+    const outer = new Uint8Array(64 + 32);
+    for (let i = 0; i < 64; i++) {
+        inner[i] = blockKey[i] ^ 0x36;
+        outer[i] = blockKey[i] ^ 0x5c;
+    }
+    inner.set(data, 64);
+    outer.set(sha256(inner), 64);
+    return sha256(outer);
+}
+
+/**
+ * HKDF-SHA256 (RFC 5869). An empty salt is replaced by 32 zero bytes.
+ */
+export function hkdfSha256(ikm: Uint8Array, salt: Uint8Array | null, info: string, length: number): Uint8Array {
+    const prk = hmacSha256(salt && salt.length > 0 ? salt : new Uint8Array(32), ikm);
+    const infoBytes = utf8Encode(info);
+    const out = new Uint8Array(length);
+
+    let previous: Uint8Array = new Uint8Array(0);
+    for (let i = 1, written = 0; written < length; i++) {
+        const input = concatBytes(previous, infoBytes, new Uint8Array([i]));
+        previous = hmacSha256(prk, input);
+        out.set(previous.subarray(0, Math.min(previous.length, length - written)), written);
+        written += previous.length;
+    }
+    return out;
+}
+
+/**
+ * SHA-256 state after absorbing one HMAC key block (key XOR pad)
+ */
+function hmacPadState(key: Uint8Array, pad: number): Uint32Array {
+    const block = new Uint8Array(64);
+    block.set(key);
+    for (let i = 0; i < 64; i++) block[i] ^= pad;
+    const state = IV.slice();
+    compress(state, block, 0);
+    return state;
+}
+
+function writeState(state: Uint32Array, out: Uint8Array) {
+    for (let i = 0; i < 8; i++) {
+        const w = state[i];
+        out[i * 4] = w >>> 24;
+        out[i * 4 + 1] = (w >>> 16) & 0xff;
+        out[i * 4 + 2] = (w >>> 8) & 0xff;
+        out[i * 4 + 3] = w & 0xff;
+    }
+}
+
+/**
+ * PBKDF2-HMAC-SHA256 (RFC 8018).
+ * The padded key blocks are hashed once, so each iteration costs two compressions.
+ */
+export function pbkdf2Sha256(password: Uint8Array, salt: Uint8Array, iterations: number, length: number): Uint8Array {
+    const key = password.length > 64 ? sha256(password) : password;
+    const inner = hmacPadState(key, 0x36);
+    const outer = hmacPadState(key, 0x5c);
+
+    // Single final block of both hashes: 32-byte digest, 0x80, bit length of 64 + 32 bytes
+    const block = new Uint8Array(64);
+    block[32] = 0x80;
+    block[62] = 0x03;
+    const state = new Uint32Array(8);
+
+    const out = new Uint8Array(length);
+    for (let index = 1, written = 0; written < length; index++) {
+        const blockIndex = new Uint8Array([index >>> 24, (index >>> 16) & 0xff, (index >>> 8) & 0xff, index & 0xff]);
+        const t = hmacSha256(password, concatBytes(salt, blockIndex));
+        block.set(t);
+        for (let i = 1; i < iterations; i++) {
+            state.set(inner);
+            compress(state, block, 0);
+            writeState(state, block);
+            state.set(outer);
+            compress(state, block, 0);
+            writeState(state, block);
+            for (let j = 0; j < 32; j++) t[j] ^= block[j];
+        }
+        out.set(t.subarray(0, Math.min(t.length, length - written)), written);
+        written += t.length;
+    }
+    return out;
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+    const total = parts.reduce((sum, p) => sum + p.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const p of parts) {
+        out.set(p, offset);
+        offset += p.length;
+    }
+    return out;
+}
+
+/**
+ * Compare two byte arrays without short-circuiting on the first difference
+ */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+    return diff === 0;
+}
+
+export const bytesToHex = (bytes: Uint8Array) =>
+    Array.prototype.map.call(bytes, (x: number) => ('00' + x.toString(16)).slice(-2)).join('');
+
+export const hexToBytes = (hex: string) =>
+    new Uint8Array((hex.match(/.{1,2}/g) || []).map(byte => parseInt(byte, 16)));
+
+export function utf8Encode(str: string): Uint8Array {
+    const bytes: number[] = [];
+    for (let i = 0; i < str.length; i++) {
+        let code = str.charCodeAt(i);
+        if (code >= 0xd800 && code < 0xdc00 && i + 1 < str.length) {
+            const low = str.charCodeAt(i + 1);
+            if (low >= 0xdc00 && low < 0xe000) {
+                code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00);
+                i++;
+            }
+        }
+        if (code < 0x80) {
+            bytes.push(code);
+        } else if (code < 0x800) {
+            bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+        } else if (code < 0x10000) {
+            bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        } else {
+            bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Strict UTF-8 decoder: throws on malformed input instead of substituting characters
+ */
+export function utf8Decode(bytes: Uint8Array): string {
+    let out = '';
+    for (let i = 0; i < bytes.length;) {
+        const b0 = bytes[i];
+        let code: number;
+        let extra: number;
+        if (b0 < 0x80) { code = b0; extra = 0; }
+        else if ((b0 & 0xe0) === 0xc0) { code = b0 & 0x1f; extra = 1; }
+        else if ((b0 & 0xf0) === 0xe0) { code = b0 & 0x0f; extra = 2; }
+        else if ((b0 & 0xf8) === 0xf0) { code = b0 & 0x07; extra = 3; }
+        else throw new Error('Invalid UTF-8');
+
+        for (let j = 1; j <= extra; j++) {
+            const b = bytes[i + j];
+            if (b === undefined || (b & 0xc0) !== 0x80) throw new Error('Invalid UTF-8');
+            code = (code << 6) | (b & 0x3f);
+        }
+        i += extra + 1;
+
+        if (code >= 0x10000) {
+            code -= 0x10000;
+            out += String.fromCharCode(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+        } else {
+            out += String.fromCharCode(code);
+        }
+    }
+    return out;
+}
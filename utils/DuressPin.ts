@@ -0,0 +1,145 @@
+import nacl from '@/components/CryptoPolyfill';
+import { wipeAccount } from '@/utils/AccountWipe';
+import { bytesToHex, constantTimeEqual, hexToBytes } from '@/utils/CryptoPrimitives';
+import { CodeSlotParams, createCodeSlot, deriveCodeKey, isCodeSlotParams, isKdfParams, KdfParams, StretchedCode } from '@/utils/KeyDerivation';
+import { DECOY_VAULT, deleteVaultSecret, enableSecretWrapping, isDecoyActive, wrapVaultSecret } from '@/utils/MasterKey';
+import { getProfile, parseProfile, Profile, saveProfile } from '@/utils/ProfileRepository';
+import { openVault } from '@/utils/Vaults';
+import { encode as encodeBase64 } from 'base-64';
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * Duress code: a second lock screen code chosen by the user. Entered in place of the real one,
+ * it either opens a decoy vault (its own identity, contacts and history, never listed with the
+ * user's vaults) or wipes the account, and the lock screen reacts as to a normal unlock.
+ *
+ * The wipe runs while the real secret is still wrapped, so unlike a deletion from the settings
+ * it cannot tell the relay.
+ */
+
+export type DuressAction = 'decoy' | 'wipe';
+
+interface DuressRecord {
+    // Lock type of the real code when it was set: the code is typed on the same keypad
+    type: string;
+    // A code slot, or PBKDF2 for records from before code stretching
+    kdf: CodeSlotParams | KdfParams;
+    hash: string;
+    action: DuressAction;
+    // Profile the decoy vault starts with, until it is first opened
+    seed?: Profile;
+}
+
+const DURESS_PIN_KEY = "my_app_duress_pin_v1";
+
+const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
+
+async function loadRecord(): Promise<DuressRecord | null> {
+    const json = await SecureStore.getItemAsync(DURESS_PIN_KEY);
+    if (!json) return null;
+    try {
+        const record = JSON.parse(json);
+        if (!record || typeof record.hash !== 'string' || !(isCodeSlotParams(record.kdf) || isKdfParams(record.kdf))) return null;
+        if (record.action !== 'decoy' && record.action !== 'wipe') return null;
+        return record;
+    } catch {
+        return null;
+    }
+}
+
+async function saveRecord(record: DuressRecord): Promise<void> {
+    await SecureStore.setItemAsync(DURESS_PIN_KEY, JSON.stringify(record));
+}
+
+/**
+ * What the duress code does, null if none is set
+ */
+export async function getDuressAction(): Promise<DuressAction | null> {
+    return (await loadRecord())?.action ?? null;
+}
+
+/**
+ * Lock type the duress code was set for, null if none is set
+ */
+export async function getDuressLockType(): Promise<string | null> {
+    return (await loadRecord())?.type ?? null;
+}
+
+/**
+ * Set the duress code. A decoy vault gets a new identity and starts with the current
+ * pseudo (and preset avatar), so that it looks like ours.
+ */
+export async function setDuressPin(code: StretchedCode, type: string, action: DuressAction): Promise<void> {
+    const kdf = createCodeSlot();
+    const record: DuressRecord = { type, kdf, hash: bytesToHex(deriveCodeKey(code, kdf)), action };
+
+    if (action === 'decoy') {
+        const profile = await getProfile();
+        if (profile) {
+            record.seed = { pseudo: profile.pseudo, avatar: profile.avatar?.startsWith('data:') ? null : profile.avatar };
+        }
+        await wrapVaultSecret(DECOY_VAULT, code, encodeBase64(uint8ArrayToString(nacl.box.keyPair().secretKey)));
+    } else {
+        await deleteVaultSecret(DECOY_VAULT);
+    }
+    await saveRecord(record);
+}
+
+/**
+ * From inside the decoy vault: its "change code" changes the duress code
+ */
+export async function changeDuressPin(code: StretchedCode): Promise<void> {
+    const record = await loadRecord();
+    if (!record || !isDecoyActive()) throw new Error('No decoy vault');
+
+    const kdf = createCodeSlot();
+    await enableSecretWrapping(code);
+    await saveRecord({ ...record, kdf, hash: bytesToHex(deriveCodeKey(code, kdf)) });
+}
+
+/**
+ * Remove the duress code and the decoy vault's secret. Its data stays unreadable.
+ */
+export async function removeDuressPin(): Promise<void> {
+    await SecureStore.deleteItemAsync(DURESS_PIN_KEY);
+    await deleteVaultSecret(DECOY_VAULT);
+}
+
+/**
+ * Check a code against the duress code. A record from before code stretching is moved to a
+ * code slot once its code matches.
+ */
+export async function matchesDuressPin(code: StretchedCode): Promise<boolean> {
+    const record = await loadRecord();
+    if (!record || !constantTimeEqual(deriveCodeKey(code, record.kdf), hexToBytes(record.hash))) return false;
+
+    if (record.kdf.alg !== 'code-slot') {
+        const kdf = createCodeSlot();
+        await saveRecord({ ...record, kdf, hash: bytesToHex(deriveCodeKey(code, kdf)) });
+    }
+    return true;
+}
+
+/**
+ * Run the duress action for a code that matched. False if the decoy vault cannot be
+ * opened, in which case the code is treated as wrong.
+ */
+export async function enterDuressMode(code: StretchedCode): Promise<boolean> {
+    const record = await loadRecord();
+    if (!record) return false;
+
+    if (record.action === 'wipe') {
+        await wipeAccount();
+        return true;
+    }
+
+    if (!(await openVault(DECOY_VAULT, code))) return false;
+
+    if (record.seed) {
+        const seed = parseProfile(record.seed);
+        if (seed && !(await getProfile())) await saveProfile(seed);
+        delete record.seed;
+        await saveRecord(record);
+    }
+    return true;
+}
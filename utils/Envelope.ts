@@ -0,0 +1,339 @@
+import nacl from '@/components/CryptoPolyfill';
+import { bytesToHex, utf8Decode, utf8Encode } from '@/utils/CryptoPrimitives';
+import { isValidUserId } from '@/utils/UserId';
+
+/**
+ * Message envelope carried inside every encrypted payload.
+ *
+ * Wire format: [ENVELOPE_VERSION][UTF-8 JSON of an Envelope]
+ * encodeEnvelope stamps every envelope with a random `messageId` and its `sentAt` time,
+ * which the receiver uses to drop replays (see ReplayGuard).
+ * Payloads that do not start with a known version byte are read with the legacy
+ * `GHOST_SIGNAL:` / `GHOST_MEDIA:` string parser.
+ */
+
+export const ENVELOPE_VERSION = 1;
+
+export const MAX_TEXT_LENGTH = 10000;
+export const MAX_CAPTION_LENGTH = 500;
+export const MAX_PSEUDO_LENGTH = 100;
+// Avatars travel as base64 data URIs
+export const MAX_AVATAR_LENGTH = 500000;
+// Media are sent inline, max 10MB decoded
+export const MAX_MEDIA_BASE64_LENGTH = Math.ceil(10 * 1024 * 1024 * 1.37);
+
+export type MediaType = 'IMAGE' | 'VIDEO';
+
+export interface EnvelopeMeta {
+    // Absent on legacy payloads
+    messageId?: string;
+    sentAt?: number;
+}
+
+export interface ContactCard {
+    id: string;
+    key: string;
+    name: string;
+    avatar: string | null;
+}
+
+export interface TextEnvelope extends EnvelopeMeta {
+    type: 'text';
+    text: string;
+}
+
+export interface MediaEnvelope extends EnvelopeMeta {
+    type: 'media';
+    mediaType: MediaType;
+    data: string;
+    caption: string;
+}
+
+export interface ReadEnvelope extends EnvelopeMeta {
+    type: 'read';
+    timestamp: number;
+}
+
+export interface ScreenshotEnvelope extends EnvelopeMeta {
+    type: 'screenshot';
+    timestamp: number;
+}
+
+export interface DeleteEnvelope extends EnvelopeMeta {
+    type: 'delete';
+}
+
+export interface ProfileUpdateEnvelope extends EnvelopeMeta {
+    type: 'profile_update';
+    pseudo: string;
+    avatar: string | null;
+}
+
+export interface AcceptEnvelope extends EnvelopeMeta {
+    type: 'accept';
+    contact: ContactCard;
+    // Recipient ID and base64 Ed25519 signature by the sender's registered signing key
+    to: string;
+    signature: string;
+}
+
+export interface KeyRotationEnvelope extends EnvelopeMeta {
+    type: 'key_rotation';
+    // New ID and box public key of the sender, signed (base64 Ed25519) by its previous signing key
+    id: string;
+    key: string;
+    signature: string;
+}
+
+export interface RecoveryShareEnvelope extends EnvelopeMeta {
+    type: 'recovery_share';
+    // Whose identity key the share belongs to, and the split it comes from (see SocialRecovery)
+    owner: string;
+    set: string;
+    threshold: number;
+    x: number;
+    // Hex, as long as the secret key
+    share: string;
+}
+
+export type Envelope =
+    | TextEnvelope
+    | MediaEnvelope
+    | ReadEnvelope
+    | ScreenshotEnvelope
+    | DeleteEnvelope
+    | ProfileUpdateEnvelope
+    | AcceptEnvelope
+    | KeyRotationEnvelope
+    | RecoveryShareEnvelope;
+
+// ─── Validation ─────────────────────────────────────────────────
+const isString = (v: unknown, max: number): v is string => typeof v === 'string' && v.length <= max;
+const isTimestamp = (v: unknown): v is number => typeof v === 'number' && Number.isSafeInteger(v) && v >= 0;
+const isMediaType = (v: unknown): v is MediaType => v === 'IMAGE' || v === 'VIDEO';
+const isOptionalAvatar = (v: unknown): v is string | null => v === null || isString(v, MAX_AVATAR_LENGTH);
+const isMessageId = (v: unknown): v is string => typeof v === 'string' && /^[a-f0-9]{32}$/.test(v);
+const isShareIndex = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v) && v >= 1 && v <= 255;
+// Either ID format (see UserId)
+const isUserId = (v: unknown): v is string => typeof v === 'string' && isValidUserId(v.toUpperCase());
+
+export function isValidContactCard(card: unknown): card is ContactCard {
+    if (!card || typeof card !== 'object') return false;
+    const c = card as Record<string, unknown>;
+    return isUserId(c.id) &&
+        typeof c.key === 'string' && /^[a-f0-9]{64}$/i.test(c.key) &&
+        isString(c.name, MAX_PSEUDO_LENGTH) &&
+        isOptionalAvatar(c.avatar);
+}
+
+/**
+ * Rebuild an envelope from parsed JSON, keeping only known fields.
+ * Returns null if anything is missing, mistyped or out of bounds.
+ */
+function sanitizeEnvelope(value: unknown): Envelope | null {
+    const envelope = sanitizeBody(value);
+    if (!envelope) return null;
+
+    const v = value as Record<string, unknown>;
+    if (v.messageId !== undefined || v.sentAt !== undefined) {
+        if (!isMessageId(v.messageId) || !isTimestamp(v.sentAt)) return null;
+        envelope.messageId = v.messageId;
+        envelope.sentAt = v.sentAt;
+    }
+    return envelope;
+}
+
+function sanitizeBody(value: unknown): Envelope | null {
+    if (!value || typeof value !== 'object') return null;
+    const v = value as Record<string, unknown>;
+
+    switch (v.type) {
+        case 'text':
+            return isString(v.text, MAX_TEXT_LENGTH) && v.text.length > 0 ? { type: 'text', text: v.text } : null;
+        case 'media':
+            return isMediaType(v.mediaType) && isString(v.data, MAX_MEDIA_BASE64_LENGTH) && v.data.length > 0 &&
+                isString(v.caption, MAX_CAPTION_LENGTH)
+                ? { type: 'media', mediaType: v.mediaType, data: v.data, caption: v.caption }
+                : null;
+        case 'read':
+        case 'screenshot':
+            return isTimestamp(v.timestamp) ? { type: v.type, timestamp: v.timestamp } : null;
+        case 'delete':
+            return { type: 'delete' };
+        case 'profile_update':
+            return isString(v.pseudo, MAX_PSEUDO_LENGTH) && isOptionalAvatar(v.avatar)
+                ? { type: 'profile_update', pseudo: v.pseudo, avatar: v.avatar }
+                : null;
+        case 'accept':
+            return isValidContactCard(v.contact) && isUserId(v.to) &&
+                isString(v.signature, 128)
+                ? {
+                    type: 'accept',
+                    contact: { id: v.contact.id, key: v.contact.key, name: v.contact.name, avatar: v.contact.avatar },
+                    to: v.to,
+                    signature: v.signature,
+                }
+                : null;
+        case 'key_rotation':
+            return isUserId(v.id) &&
+                typeof v.key === 'string' && /^[a-f0-9]{64}$/i.test(v.key) && isString(v.signature, 128)
+                ? { type: 'key_rotation', id: v.id, key: v.key, signature: v.signature }
+                : null;
+        case 'recovery_share':
+            return isUserId(v.owner) && typeof v.set === 'string' && /^[a-f0-9]{32}$/.test(v.set) &&
+                isShareIndex(v.threshold) && v.threshold >= 2 && isShareIndex(v.x) &&
+                typeof v.share === 'string' && /^[a-f0-9]{64}$/.test(v.share)
+                ? { type: 'recovery_share', owner: v.owner, set: v.set, threshold: v.threshold, x: v.x, share: v.share }
+                : null;
+        default:
+            return null;
+    }
+}
+
+// ─── Codec ──────────────────────────────────────────────────────
+
+/**
+ * Serialize an envelope, with a fresh message ID unless it already has one.
+ * Throws if it would not pass decodeEnvelope on the other side.
+ */
+export function encodeEnvelope(envelope: Envelope): Uint8Array {
+    const clean = sanitizeEnvelope({
+        ...envelope,
+        messageId: envelope.messageId ?? bytesToHex(nacl.randomBytes(16)),
+        sentAt: envelope.sentAt ?? Date.now(),
+    });
+    if (!clean) throw new Error(`Invalid ${envelope.type} envelope`);
+
+    const json = utf8Encode(JSON.stringify(clean));
+    const out = new Uint8Array(json.length + 1);
+    out[0] = ENVELOPE_VERSION;
+    out.set(json, 1);
+    return out;
+}
+
+/**
+ * Parse a decrypted payload. Returns null for malformed envelopes and unknown versions.
+ */
+export function decodeEnvelope(payload: Uint8Array): Envelope | null {
+    if (payload.length === 0) return null;
+
+    if (payload[0] === ENVELOPE_VERSION) {
+        try {
+            return sanitizeEnvelope(JSON.parse(utf8Decode(payload.subarray(1))));
+        } catch {
+            return null;
+        }
+    }
+
+    // Future versions use the other control bytes; legacy payloads are printable text
+    if (payload[0] < 0x20) return null;
+
+    let legacy = '';
+    for (let i = 0; i < payload.length; i++) legacy += String.fromCharCode(payload[i]);
+    return decodeLegacyPayload(legacy);
+}
+
+// ─── Legacy formats ─────────────────────────────────────────────
+
+/**
+ * Split off the first `count` colon-separated fields; the remainder is returned whole.
+ */
+function splitFields(str: string, count: number): string[] | null {
+    const fields: string[] = [];
+    let rest = str;
+    for (let i = 0; i < count; i++) {
+        const idx = rest.indexOf(':');
+        if (idx === -1) return null;
+        fields.push(rest.substring(0, idx));
+        rest = rest.substring(idx + 1);
+    }
+    fields.push(rest);
+    return fields;
+}
+
+function parseJson(str: string): unknown {
+    try {
+        return JSON.parse(str);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the pre-envelope string payloads (latin1):
+ * GHOST_SIGNAL:READ:ts, GHOST_SIGNAL:SCREENSHOT:ts, GHOST_SIGNAL:DELETE,
+ * GHOST_SIGNAL:PROFILE_UPDATE:{json}, GHOST_MEDIA:TYPE:BASE64:CAPTION, anything else is plain text.
+ * Legacy GHOST_SIGNAL:ACCEPT handshakes are unsigned and no longer accepted.
+ */
+export function decodeLegacyPayload(str: string): Envelope | null {
+    if (str.startsWith('GHOST_SIGNAL:')) {
+        const body = str.substring('GHOST_SIGNAL:'.length);
+
+        if (body === 'DELETE') return { type: 'delete' };
+        if (body.startsWith('READ:') || body.startsWith('SCREENSHOT:')) {
+            const [kind, ts] = splitFields(body, 1)!;
+            const timestamp = /^\d+$/.test(ts) ? parseInt(ts, 10) : Date.now();
+            return sanitizeEnvelope({ type: kind === 'READ' ? 'read' : 'screenshot', timestamp });
+        }
+        if (body.startsWith('PROFILE_UPDATE:')) {
+            const data = parseJson(body.substring('PROFILE_UPDATE:'.length)) as Record<string, unknown> | null;
+            if (!data) return null;
+            return sanitizeEnvelope({ type: 'profile_update', pseudo: data.pseudo, avatar: data.avatar || null });
+        }
+        return null;
+    }
+
+    if (str.startsWith('GHOST_MEDIA:')) {
+        // Base64 has no colons, so everything after the third one is the caption
+        const fields = splitFields(str, 3);
+        if (!fields) return null;
+        return sanitizeEnvelope({ type: 'media', mediaType: fields[1], data: fields[2], caption: fields[3] });
+    }
+
+    return sanitizeEnvelope({ type: 'text', text: str });
+}
+
+export interface StoredMedia {
+    mediaType: MediaType;
+    uri: string;
+    caption: string;
+    // Set when `uri` is an encrypted vault file (see MediaVault)
+    key?: string;
+}
+
+/**
+ * Media of a stored history record. New records keep the caption in `text` and the file in
+ * `localUri`/`mediaType`; older ones embed GHOST_MEDIA_REF:TYPE:URI:CAPTION or a full
+ * GHOST_MEDIA payload in `text`.
+ */
+export function readStoredMedia(msg: { text?: string; localUri?: string; mediaType?: string; mediaKey?: string }): StoredMedia | null {
+    if (msg.localUri && isMediaType(msg.mediaType)) {
+        return { mediaType: msg.mediaType, uri: msg.localUri, caption: msg.text || '', key: msg.mediaKey };
+    }
+
+    const text = msg.text || '';
+    if (text.startsWith('GHOST_MEDIA_REF:')) {
+        // The URI contains colons (file://); the caption never did in practice, so it is after the last one
+        const fields = splitFields(text, 1);
+        const rest = fields ? fields[1] : '';
+        const typeEnd = rest.indexOf(':');
+        const captionStart = rest.lastIndexOf(':');
+        if (typeEnd === -1 || captionStart <= typeEnd) return null;
+        const mediaType = rest.substring(0, typeEnd);
+        if (!isMediaType(mediaType)) return null;
+        return {
+            mediaType,
+            uri: rest.substring(typeEnd + 1, captionStart),
+            caption: rest.substring(captionStart + 1),
+        };
+    }
+
+    if (text.startsWith('GHOST_MEDIA:')) {
+        const envelope = decodeLegacyPayload(text);
+        if (envelope?.type !== 'media') return null;
+        const mime = envelope.mediaType === 'VIDEO' ? 'video/mp4' : 'image/jpeg';
+        return { mediaType: envelope.mediaType, uri: `data:${mime};base64,${envelope.data}`, caption: envelope.caption };
+    }
+
+    return null;
+}
@@ -0,0 +1,68 @@
+import { secureGet, secureSet } from '@/utils/SecureStorage';
+import { isValidUserId } from '@/utils/UserId';
+
+/**
+ * Last list of pending friend requests fetched from the relay, kept for the badge and for
+ * showing the requests before the next poll.
+ */
+
+export interface FriendRequestSender {
+    id: string;
+    key: string;
+    name: string;
+    avatar: string | null;
+}
+
+export interface FriendRequest {
+    from: FriendRequestSender;
+    // ISO date from the relay
+    timestamp: string;
+}
+
+const CONTACT_REQUESTS_KEY = "my_contact_requests_v1";
+
+const KEY_PATTERN = /^[a-f0-9]{64}$/i;
+
+/**
+ * A request as stored or returned by the relay, or null if the sender is malformed
+ */
+export function parseFriendRequest(value: unknown): FriendRequest | null {
+    if (!value || typeof value !== 'object') return null;
+    const v = value as Record<string, unknown>;
+    if (!v.from || typeof v.from !== 'object') return null;
+    const from = v.from as Record<string, unknown>;
+    if (typeof from.id !== 'string' || !isValidUserId(from.id.toUpperCase())) return null;
+    if (typeof from.key !== 'string' || !KEY_PATTERN.test(from.key)) return null;
+    return {
+        from: {
+            id: from.id,
+            key: from.key,
+            name: typeof from.name === 'string' ? from.name : 'Unknown',
+            avatar: typeof from.avatar === 'string' ? from.avatar : null,
+        },
+        timestamp: typeof v.timestamp === 'string' ? v.timestamp : new Date(0).toISOString(),
+    };
+}
+
+export function parseFriendRequests(value: unknown): FriendRequest[] {
+    if (!Array.isArray(value)) return [];
+    return value.map(parseFriendRequest).filter((r): r is FriendRequest => r !== null);
+}
+
+export async function getFriendRequests(): Promise<FriendRequest[]> {
+    try {
+        const json = await secureGet(CONTACT_REQUESTS_KEY);
+        return json ? parseFriendRequests(JSON.parse(json)) : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Replace the stored list with the relay's answer. Returns the requests that were kept.
+ */
+export async function saveFriendRequests(value: unknown): Promise<FriendRequest[]> {
+    const requests = parseFriendRequests(value);
+    await secureSet(CONTACT_REQUESTS_KEY, JSON.stringify(requests));
+    return requests;
+}
@@ -0,0 +1,88 @@
+import nacl from '@/components/CryptoPolyfill';
+import { getServerURL } from '@/constants/Config';
+import { authFetch, signWithIdentity } from '@/utils/AuthHelper';
+import { hexToBytes, utf8Encode } from '@/utils/CryptoPrimitives';
+import { AcceptEnvelope, ContactCard } from '@/utils/Envelope';
+import { userIdMatchesKey } from '@/utils/UserId';
+import { decode as decodeBase64, encode as encodeBase64 } from 'base-64';
+
+/**
+ * Signed ACCEPT handshakes.
+ * The sender signs its contact card and the recipient ID with its identity signing key;
+ * the recipient checks the signature against the signing key registered on the relay.
+ */
+
+const stringToUint8Array = (str: string) => { const bytes = new Uint8Array(str.length); for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xFF; return bytes; };
+const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
+
+export interface RegisteredKeys {
+    id: string;
+    publicKey: string;
+    signingKey: string;
+}
+
+const acceptMessage = (contact: ContactCard, to: string) =>
+    utf8Encode(`GHOST_ACCEPT:${to}:${JSON.stringify([contact.id, contact.key.toLowerCase(), contact.name, contact.avatar])}`);
+
+/**
+ * Keys a user registered on the relay, or null if unknown / unreachable
+ */
+export async function fetchRegisteredKeys(userId: string): Promise<RegisteredKeys | null> {
+    try {
+        const serverURL = await getServerURL();
+        const res = await authFetch(`${serverURL}/keys/${userId}`, { method: 'GET' });
+        if (!res.ok) return null;
+        const data = await res.json();
+        // The relay answers for both ID formats of an account
+        if (!/^[a-f0-9]{64}$/i.test(data?.publicKey) || !/^[a-f0-9]{64}$/i.test(data.signingKey) ||
+            !userIdMatchesKey(userId, data.publicKey)) {
+            return null;
+        }
+        return { id: userId, publicKey: data.publicKey.toLowerCase(), signingKey: data.signingKey.toLowerCase() };
+    } catch {
+        return null;
+    }
+}
+
+export async function createAcceptEnvelope(contact: ContactCard, to: string): Promise<AcceptEnvelope> {
+    const signature = await signWithIdentity(acceptMessage(contact, to));
+    if (!signature) throw new Error('Identity not loaded');
+    return { type: 'accept', contact, to, signature: encodeBase64(uint8ArrayToString(signature)) };
+}
+
+/**
+ * Verify an ACCEPT addressed to us (either ID format of `myPublicKey`).
+ * Returns the sender's signing key on success.
+ */
+export async function verifyAcceptEnvelope(envelope: AcceptEnvelope, myPublicKey: string): Promise<string | null> {
+    const { contact } = envelope;
+    if (!userIdMatchesKey(envelope.to, myPublicKey)) {
+        console.warn("[HANDSHAKE] Handshake addressed to another user");
+        return null;
+    }
+
+    // The ID must derive from the key, as the relay enforces at registration
+    if (!userIdMatchesKey(contact.id, contact.key)) {
+        console.warn("[HANDSHAKE] ID does not match key");
+        return null;
+    }
+
+    const registered = await fetchRegisteredKeys(contact.id);
+    if (!registered || registered.publicKey !== contact.key.toLowerCase()) {
+        console.warn("[HANDSHAKE] Key not registered on the relay");
+        return null;
+    }
+
+    try {
+        const signature = stringToUint8Array(decodeBase64(envelope.signature));
+        if (signature.length !== nacl.sign.signatureLength) return null;
+        const ok = nacl.sign.detached.verify(acceptMessage(contact, envelope.to), signature, hexToBytes(registered.signingKey));
+        if (!ok) {
+            console.warn("[HANDSHAKE] Invalid signature");
+            return null;
+        }
+        return registered.signingKey;
+    } catch {
+        return null;
+    }
+}
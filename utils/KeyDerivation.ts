@@ -0,0 +1,140 @@
+import nacl from '@/components/CryptoPolyfill';
+import { bytesToHex, hexToBytes, hkdfSha256, pbkdf2Sha256, utf8Encode } from '@/utils/CryptoPrimitives';
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * Password/PIN key derivation with a stored parameter record.
+ * Iterations are calibrated once per install to the speed of the device, and the record
+ * keeps them next to the salt so a later calibration never changes an existing derivation.
+ *
+ * Lock screen codes are stretched once per attempt with the install's parameters (stretchCode),
+ * and each code slot (lock record, wrapped secrets, duress code) derives its own key from the
+ * result with HKDF: an attempt is tested against every slot for the cost of one derivation.
+ */
+
+export interface KdfParams {
+    alg: 'pbkdf2-sha256';
+    iterations: number;
+    salt: string;
+}
+
+// Key of a code slot, derived from the stretched code
+export interface CodeSlotParams {
+    alg: 'code-slot';
+    salt: string;
+}
+
+export interface StretchedCode {
+    // As typed: slots set before code stretching still derive from it
+    typed: string;
+    key: Uint8Array;
+}
+
+// Time one derivation should take on this device
+export const TARGET_DERIVATION_MS = 250;
+// Bounds whatever the probe measured
+export const MIN_ITERATIONS = 20000;
+export const MAX_ITERATIONS = 2000000;
+const PROBE_ITERATIONS = 2000;
+// Parameters every lock screen code is stretched with, kept for the life of the install
+const CODE_KDF_KEY = "my_code_kdf_v1";
+
+let calibratedIterations: number | null = null;
+let codeKdf: Promise<KdfParams> | null = null;
+
+/**
+ * Iterations that take about `targetMs` here. Measured once, then cached for the session.
+ */
+export function calibrateIterations(targetMs: number = TARGET_DERIVATION_MS): number {
+    if (calibratedIterations !== null && targetMs === TARGET_DERIVATION_MS) return calibratedIterations;
+
+    const salt = nacl.randomBytes(16);
+    const start = Date.now();
+    pbkdf2Sha256(utf8Encode('calibration'), salt, PROBE_ITERATIONS, 32);
+    const elapsed = Math.max(1, Date.now() - start);
+
+    const scaled = Math.round((PROBE_ITERATIONS * targetMs) / elapsed / 1000) * 1000;
+    const iterations = Math.min(MAX_ITERATIONS, Math.max(MIN_ITERATIONS, scaled));
+    if (targetMs === TARGET_DERIVATION_MS) calibratedIterations = iterations;
+    return iterations;
+}
+
+/**
+ * Fresh parameters (random salt, calibrated iterations) for a new secret
+ */
+export function createKdfParams(iterations: number = calibrateIterations()): KdfParams {
+    return { alg: 'pbkdf2-sha256', iterations, salt: bytesToHex(nacl.randomBytes(16)) };
+}
+
+export function isKdfParams(value: unknown): value is KdfParams {
+    if (!value || typeof value !== 'object') return false;
+    const v = value as Record<string, unknown>;
+    return v.alg === 'pbkdf2-sha256' &&
+        typeof v.iterations === 'number' && Number.isInteger(v.iterations) && v.iterations > 0 && v.iterations <= MAX_ITERATIONS &&
+        typeof v.salt === 'string' && /^[a-f0-9]{32,}$/.test(v.salt);
+}
+
+/**
+ * Derive `length` bytes from a password or PIN
+ */
+export function deriveKey(secret: string, params: KdfParams, length: number = 32): Uint8Array {
+    return pbkdf2Sha256(utf8Encode(secret), hexToBytes(params.salt), params.iterations, length);
+}
+
+function loadCodeKdf(): Promise<KdfParams> {
+    if (!codeKdf) {
+        codeKdf = (async () => {
+            const json = await SecureStore.getItemAsync(CODE_KDF_KEY);
+            if (json) {
+                // Replacing them would lock every code out
+                const stored = JSON.parse(json);
+                if (!isKdfParams(stored)) throw new Error('Unreadable code parameters');
+                return stored;
+            }
+            const params = createKdfParams();
+            await SecureStore.setItemAsync(CODE_KDF_KEY, JSON.stringify(params));
+            return params;
+        })().catch(e => {
+            codeKdf = null;
+            throw e;
+        });
+    }
+    return codeKdf;
+}
+
+/**
+ * Stretch a lock screen code: the one calibrated derivation of an attempt or of a new code
+ */
+export async function stretchCode(code: string): Promise<StretchedCode> {
+    return { typed: code, key: deriveKey(code, await loadCodeKdf()) };
+}
+
+/**
+ * Fresh parameters (random salt) for a code slot
+ */
+export function createCodeSlot(): CodeSlotParams {
+    return { alg: 'code-slot', salt: bytesToHex(nacl.randomBytes(16)) };
+}
+
+export function isCodeSlotParams(value: unknown): value is CodeSlotParams {
+    if (!value || typeof value !== 'object') return false;
+    const v = value as Record<string, unknown>;
+    return v.alg === 'code-slot' && typeof v.salt === 'string' && /^[a-f0-9]{32,}$/.test(v.salt);
+}
+
+/**
+ * Derive the key of a code slot. A slot set before code stretching keeps its own PBKDF2
+ * parameters, and costs a full derivation until it is written again.
+ */
+export function deriveCodeKey(code: StretchedCode, params: CodeSlotParams | KdfParams, length: number = 32): Uint8Array {
+    if (params.alg === 'pbkdf2-sha256') return deriveKey(code.typed, params, length);
+    return hkdfSha256(code.key, hexToBytes(params.salt), 'ghost:code-slot', length);
+}
+
+/**
+ * Forget the code parameters (account wipe)
+ */
+export async function deleteCodeKdf(): Promise<void> {
+    codeKdf = null;
+    await SecureStore.deleteItemAsync(CODE_KDF_KEY);
+}
@@ -0,0 +1,118 @@
+import nacl from '@/components/CryptoPolyfill';
+import { commitRotatedIdentity, getMyID, registerRotatedIdentity, signWithIdentity } from '@/utils/AuthHelper';
+import { getPeerContacts } from '@/utils/ContactRepository';
+import { moveConversationData } from '@/utils/ConversationRepository';
+import { hexToBytes, utf8Encode } from '@/utils/CryptoPrimitives';
+import { KeyRotationEnvelope } from '@/utils/Envelope';
+import { fetchRegisteredKeys } from '@/utils/Handshake';
+import { queueEncrypted } from '@/utils/Outbox';
+import { deleteSession } from '@/utils/RatchetSession';
+import { clearRecoverySetup } from '@/utils/RecoveryRepository';
+import { userIdMatchesKey } from '@/utils/UserId';
+import { decode as decodeBase64, encode as encodeBase64 } from 'base-64';
+
+/**
+ * Identity key rotation.
+ * The new identity is registered on the relay as the successor of the current one, every
+ * contact gets a KEY_ROTATION notice signed by the old signing key (queued in the Outbox,
+ * already encrypted), then the new identity replaces the old one locally. Contacts re-key their entry for us instead of raising the
+ * "security number changed" alert.
+ */
+
+const stringToUint8Array = (str: string) => { const bytes = new Uint8Array(str.length); for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xFF; return bytes; };
+const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
+
+const rotationMessage = (previousId: string, id: string, key: string) =>
+    utf8Encode(`GHOST_KEY_ROTATION:${previousId}:${id}:${key.toLowerCase()}`);
+
+/**
+ * Rotate our identity keypair. Returns false if the relay did not accept the new identity or
+ * the notices could not be queued, in which case nothing changed locally and the rotation can
+ * be retried.
+ */
+export async function rotateIdentity(): Promise<boolean> {
+    const previousId = await getMyID();
+    if (!previousId) return false;
+
+    const next = await registerRotatedIdentity();
+    if (!next) return false;
+
+    const contacts = await getPeerContacts();
+
+    const signature = await signWithIdentity(rotationMessage(previousId, next.id, next.publicKey));
+    if (!signature) return false;
+
+    // Encrypted while the old identity is still active: contacts only know its sessions and
+    // routing tags. A contact left without the notice could not reach us again.
+    try {
+        await queueEncrypted(contacts, {
+            type: 'key_rotation',
+            id: next.id,
+            key: next.publicKey,
+            signature: encodeBase64(uint8ArrayToString(signature)),
+        });
+    } catch (e) {
+        console.error("[ROTATION] Failed to queue the notices", e);
+        return false;
+    }
+
+    // Contacts drop their session with the old identity and start over with the new one
+    for (const contact of contacts) {
+        await deleteSession(contact.id);
+    }
+
+    await commitRotatedIdentity();
+    // Contacts drop the shares of the old key when they get the notice
+    await clearRecoverySetup();
+    console.log(`[ROTATION] Identity rotated from ${previousId} to ${next.id}`);
+    return true;
+}
+
+/**
+ * Check a rotation notice from `sender`. Returns the successor's signing key, or null if the
+ * notice is not signed by the sender's current signing key or the relay does not know the
+ * successor under that key.
+ */
+export async function verifyKeyRotation(
+    envelope: KeyRotationEnvelope,
+    sender: { id: string; key: string; signingKey?: string }
+): Promise<string | null> {
+    if (!userIdMatchesKey(envelope.id, envelope.key)) {
+        console.warn("[ROTATION] ID does not match key");
+        return null;
+    }
+
+    let signingKey = sender.signingKey;
+    if (!signingKey) {
+        // Contacts added before signed handshakes: the old account stays registered after a rotation
+        const registered = await fetchRegisteredKeys(sender.id);
+        if (!registered || registered.publicKey !== sender.key.toLowerCase()) return null;
+        signingKey = registered.signingKey;
+    }
+
+    try {
+        const signature = stringToUint8Array(decodeBase64(envelope.signature));
+        if (signature.length !== nacl.sign.signatureLength ||
+            !nacl.sign.detached.verify(rotationMessage(sender.id, envelope.id, envelope.key), signature, hexToBytes(signingKey))) {
+            console.warn("[ROTATION] Invalid signature");
+            return null;
+        }
+    } catch {
+        return null;
+    }
+
+    const successor = await fetchRegisteredKeys(envelope.id);
+    if (!successor || successor.publicKey !== envelope.key.toLowerCase()) {
+        console.warn("[ROTATION] Successor not registered on the relay");
+        return null;
+    }
+    return successor.signingKey;
+}
+
+/**
+ * Move the per-contact data kept under a contact ID to its new ID and drop the old session
+ */
+export async function moveContactData(previousId: string, id: string): Promise<void> {
+    await moveConversationData(previousId, id);
+    await deleteSession(previousId);
+}
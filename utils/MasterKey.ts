@@ -0,0 +1,322 @@
+import nacl from '@/components/CryptoPolyfill';
+import { bytesToHex, hexToBytes, utf8Decode, utf8Encode } from '@/utils/CryptoPrimitives';
+import { createCodeSlot, deriveCodeKey, StretchedCode } from '@/utils/KeyDerivation';
+import { decode as decodeBase64, encode as encodeBase64 } from 'base-64';
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * Storage of the master secret (the base64 NaCl secret key every other key derives from).
+ *
+ * Without an app lock it sits in SecureStore as it always did. Once a lock is set it is only
+ * stored wrapped (secretbox) under a key derived from the PIN (a code slot, see KeyDerivation), and the unwrapped copy lives in
+ * memory between a successful unlock and the next lock.
+ *
+ * Other vaults (see Vaults, and the decoy of DuressPin) each wrap their own secret under their
+ * own code. Unlocking one makes its secret the master secret until the next lock, so everything
+ * derived from it (identity, storage key) and every key named through vaultKey belongs to it.
+ */
+
+const STORAGE_KEY = "my_permanent_secret_key_v1";
+const WRAPPED_STORAGE_KEY = "my_wrapped_secret_key_v1";
+// Secret and wrapping key behind the OS biometric prompt, so biometric unlock keeps working
+const BIOMETRIC_STORAGE_KEY = "my_biometric_secret_key_v1";
+// Vault opened by the duress code, never listed with the others
+export const DECOY_VAULT = "decoy";
+// Keys stored by a vault other than the main one start with its ID
+const VAULT_KEY_PATTERN = /^(vault_[0-9a-f]+|decoy)_/;
+
+const vaultStorageKey = (vault: string) => `my_${vault}_secret_key_v1`;
+
+interface WrappedSecret {
+    v: 1;
+    salt: string;
+    // PBKDF2 count of records from before code stretching, wrapped again at their next unlock;
+    // without it the key is the code slot salted with `salt`
+    iterations?: number;
+    // Absent while there is no identity yet (lock chosen during onboarding)
+    nonce?: string;
+    box?: string;
+}
+
+let unlockedSecret: string | null = null;
+let wrappingKey: Uint8Array | null = null;
+// Null for the main vault
+let activeVault: string | null = null;
+
+const stringToUint8Array = (str: string) => { const bytes = new Uint8Array(str.length); for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xFF; return bytes; };
+const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
+
+async function loadWrapped(storageKey: string = WRAPPED_STORAGE_KEY): Promise<WrappedSecret | null> {
+    const json = await SecureStore.getItemAsync(storageKey);
+    if (!json) return null;
+    try {
+        const record = JSON.parse(json);
+        return record && record.v === 1 ? record : null;
+    } catch {
+        return null;
+    }
+}
+
+function deriveWrappingKey(code: StretchedCode, record: WrappedSecret): Uint8Array {
+    const params = record.iterations
+        ? { alg: 'pbkdf2-sha256' as const, iterations: record.iterations, salt: record.salt }
+        : { alg: 'code-slot' as const, salt: record.salt };
+    return deriveCodeKey(code, params, nacl.secretbox.keyLength);
+}
+
+function seal(record: WrappedSecret, secret: string, key: Uint8Array): WrappedSecret {
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+    const box = nacl.secretbox(utf8Encode(secret), nonce, key);
+    return { ...record, nonce: bytesToHex(nonce), box: encodeBase64(uint8ArrayToString(box)) };
+}
+
+/**
+ * Open a wrapped record with the PIN: its secret (null if it has none yet) and the wrapping key,
+ * or null if the PIN does not open it
+ */
+function openWrapped(record: WrappedSecret, code: StretchedCode): { secret: string | null; key: Uint8Array } | null {
+    const key = deriveWrappingKey(code, record);
+    if (!record.box || !record.nonce) return { secret: null, key };
+    try {
+        const opened = nacl.secretbox.open(stringToUint8Array(decodeBase64(record.box)), hexToBytes(record.nonce), key);
+        return opened ? { secret: utf8Decode(opened), key } : null;
+    } catch {
+        return null;
+    }
+}
+
+function createWrapped(code: StretchedCode, secret: string | null): { record: WrappedSecret; key: Uint8Array } {
+    let record: WrappedSecret = { v: 1, salt: createCodeSlot().salt };
+    const key = deriveWrappingKey(code, record);
+    if (secret) record = seal(record, secret, key);
+    return { record, key };
+}
+
+/**
+ * Open a wrapped record, and wrap a record from before code stretching again as a code slot.
+ * Null if the code does not open it.
+ */
+async function openAndMigrate(storageKey: string, record: WrappedSecret, code: StretchedCode): Promise<{ secret: string | null; key: Uint8Array } | null> {
+    const opened = openWrapped(record, code);
+    if (!opened || !record.iterations) return opened;
+
+    const migrated = createWrapped(code, opened.secret);
+    await SecureStore.setItemAsync(storageKey, JSON.stringify(migrated.record));
+    return { secret: opened.secret, key: migrated.key };
+}
+
+async function storeBiometricCopy(): Promise<void> {
+    // Biometrics only ever open the main vault
+    if (!wrappingKey || activeVault) return;
+    try {
+        if (!SecureStore.canUseBiometricAuthentication()) return;
+        await SecureStore.setItemAsync(
+            BIOMETRIC_STORAGE_KEY,
+            JSON.stringify({ secret: unlockedSecret, key: bytesToHex(wrappingKey) }),
+            { requireAuthentication: true }
+        );
+    } catch (e) {
+        console.warn('[MASTER_KEY] Biometric copy unavailable', e);
+    }
+}
+
+/**
+ * The master secret, or null if there is none yet or the app is locked
+ */
+export async function getMasterSecret(): Promise<string | null> {
+    if (unlockedSecret) return unlockedSecret;
+    return SecureStore.getItemAsync(STORAGE_KEY);
+}
+
+/**
+ * Store a new master secret (new identity, key rotation), wrapped if an app lock is set
+ */
+export async function setMasterSecret(secret: string): Promise<void> {
+    if (activeVault) {
+        const vault = await loadWrapped(vaultStorageKey(activeVault));
+        if (!vault || !wrappingKey) throw new Error('App locked');
+        await SecureStore.setItemAsync(vaultStorageKey(activeVault), JSON.stringify(seal(vault, secret, wrappingKey)));
+        unlockedSecret = secret;
+        return;
+    }
+
+    const record = await loadWrapped();
+    if (!record) {
+        await SecureStore.setItemAsync(STORAGE_KEY, secret);
+        return;
+    }
+    if (!wrappingKey) throw new Error('App locked');
+
+    await SecureStore.setItemAsync(WRAPPED_STORAGE_KEY, JSON.stringify(seal(record, secret, wrappingKey)));
+    unlockedSecret = secret;
+    await storeBiometricCopy();
+}
+
+export async function isSecretWrapped(): Promise<boolean> {
+    return (await loadWrapped()) !== null;
+}
+
+/**
+ * Wrap the master secret under a new PIN (lock enabled or PIN changed) and drop the plain copy.
+ * In another vault, only that vault's code changes.
+ */
+export async function enableSecretWrapping(code: StretchedCode): Promise<void> {
+    if (activeVault) {
+        if (!unlockedSecret) throw new Error('App locked');
+        await wrapVaultSecret(activeVault, code, unlockedSecret);
+        return;
+    }
+
+    const existing = await loadWrapped();
+    if (existing?.box && !unlockedSecret) throw new Error('App locked');
+
+    const secret = await getMasterSecret();
+    const { record, key } = createWrapped(code, secret);
+    await SecureStore.setItemAsync(WRAPPED_STORAGE_KEY, JSON.stringify(record));
+    await SecureStore.deleteItemAsync(STORAGE_KEY);
+
+    unlockedSecret = secret;
+    wrappingKey = key;
+    await storeBiometricCopy();
+}
+
+/**
+ * Store the master secret in the clear again (lock disabled). Requires an unlocked app.
+ */
+export async function disableSecretWrapping(): Promise<void> {
+    const record = await loadWrapped();
+    if (!record) return;
+    if (record.box && !unlockedSecret) throw new Error('App locked');
+    if (activeVault) throw new Error('Vault open');
+
+    if (unlockedSecret) await SecureStore.setItemAsync(STORAGE_KEY, unlockedSecret);
+    await SecureStore.deleteItemAsync(WRAPPED_STORAGE_KEY);
+    await SecureStore.deleteItemAsync(BIOMETRIC_STORAGE_KEY);
+    lockMasterSecret();
+}
+
+/**
+ * Unwrap the master secret with the PIN. False if the PIN does not open it.
+ */
+export async function unlockWithPin(code: StretchedCode): Promise<boolean> {
+    const record = await loadWrapped();
+    if (!record) return true;
+
+    const opened = await openAndMigrate(WRAPPED_STORAGE_KEY, record, code);
+    if (!opened) return false;
+    if (opened.secret) unlockedSecret = opened.secret;
+    wrappingKey = opened.key;
+    activeVault = null;
+    // A migrated record has a new wrapping key
+    if (record.iterations) await storeBiometricCopy();
+    return true;
+}
+
+/**
+ * True if `code` opens `vault`. Nothing is unlocked.
+ */
+export async function vaultOpensWith(vault: string, code: StretchedCode): Promise<boolean> {
+    const record = await loadWrapped(vaultStorageKey(vault));
+    return !!record && !!openWrapped(record, code)?.secret;
+}
+
+/**
+ * Unwrap another vault's secret with its code. False if the vault does not exist or the code
+ * does not open it.
+ */
+export async function unlockVault(vault: string, code: StretchedCode): Promise<boolean> {
+    const record = await loadWrapped(vaultStorageKey(vault));
+    const opened = record ? await openAndMigrate(vaultStorageKey(vault), record, code) : null;
+    if (!opened?.secret) return false;
+
+    unlockedSecret = opened.secret;
+    wrappingKey = opened.key;
+    activeVault = vault;
+    return true;
+}
+
+/**
+ * Vault of the unwrapped secret, null for the main one
+ */
+export function getActiveVault(): string | null {
+    return activeVault;
+}
+
+/**
+ * True between a duress unlock and the next lock
+ */
+export function isDecoyActive(): boolean {
+    return activeVault === DECOY_VAULT;
+}
+
+/**
+ * Key under which the open vault keeps `key`, in AsyncStorage and SecureStore alike
+ */
+export function vaultKey(key: string, vault: string | null = activeVault): string {
+    return vault ? `${vault}_${key}` : key;
+}
+
+/**
+ * `storedKey` without its vault prefix if it belongs to the open vault, null otherwise
+ */
+export function keyInOpenVault(storedKey: string): string | null {
+    if (activeVault) {
+        const prefix = vaultKey('');
+        return storedKey.startsWith(prefix) ? storedKey.substring(prefix.length) : null;
+    }
+    return VAULT_KEY_PATTERN.test(storedKey) ? null : storedKey;
+}
+
+/**
+ * Store the secret of another vault wrapped under its code
+ */
+export async function wrapVaultSecret(vault: string, code: StretchedCode, secret: string): Promise<void> {
+    const { record, key } = createWrapped(code, secret);
+    await SecureStore.setItemAsync(vaultStorageKey(vault), JSON.stringify(record));
+    if (activeVault === vault) wrappingKey = key;
+}
+
+export async function deleteVaultSecret(vault: string): Promise<void> {
+    await SecureStore.deleteItemAsync(vaultStorageKey(vault));
+}
+
+/**
+ * Unlock through the biometric-protected copy. The OS shows its own prompt.
+ */
+export async function unlockWithBiometrics(prompt: string): Promise<boolean> {
+    try {
+        const json = await SecureStore.getItemAsync(BIOMETRIC_STORAGE_KEY, {
+            requireAuthentication: true,
+            authenticationPrompt: prompt,
+        });
+        if (!json) return false;
+        const { secret, key } = JSON.parse(json);
+        if (typeof key !== 'string' || !/^[a-f0-9]{64}$/.test(key)) return false;
+        unlockedSecret = typeof secret === 'string' ? secret : null;
+        wrappingKey = hexToBytes(key);
+        activeVault = null;
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Forget the unwrapped secret and wrapping key (app locked)
+ */
+export function lockMasterSecret() {
+    unlockedSecret = null;
+    if (wrappingKey) wrappingKey.fill(0);
+    wrappingKey = null;
+    activeVault = null;
+}
+
+/**
+ * Delete every stored copy of the main vault's master secret (account wipe)
+ */
+export async function deleteMasterSecret(): Promise<void> {
+    lockMasterSecret();
+    await SecureStore.deleteItemAsync(STORAGE_KEY);
+    await SecureStore.deleteItemAsync(WRAPPED_STORAGE_KEY);
+    await SecureStore.deleteItemAsync(BIOMETRIC_STORAGE_KEY);
+}
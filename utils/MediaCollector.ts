@@ -0,0 +1,123 @@
+import { readContacts } from '@/utils/ContactRepository';
+import { listConversationIds } from '@/utils/ConversationRepository';
+import { getActiveVault, getMasterSecret, vaultKey } from '@/utils/MasterKey';
+import { listVaultFiles } from '@/utils/MediaVault';
+import { listMediaUris } from '@/utils/MessageStore';
+import { listOutboxFiles } from '@/utils/Outbox';
+import { getProfile } from '@/utils/ProfileRepository';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+
+/**
+ * Deletes media files that no record references anymore. Removing history (ephemeral expiry,
+ * deleted contact, cleared conversations) drops the records but not their files.
+ *
+ * A sweep counts the references to each file from message history, contacts, profile and the
+ * Outbox, then deletes the files with none. Candidates are the vault files and the plaintext
+ * files older versions wrote to the document directory. It needs every record: it does nothing while the
+ * storage key is unavailable and stops if a record cannot be read.
+ */
+
+export interface SweepResult {
+    files: number;
+    bytes: number;
+}
+
+// Files older versions wrote to the document directory
+const LEGACY_FILE_PATTERN = /^(media_|avatar_|temp_save_)/;
+// A file is saved before the record that references it
+const GRACE_PERIOD_MS = 10 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const LAST_SWEEP_KEY = "media_last_sweep";
+
+let running: Promise<SweepResult> | null = null;
+let queued: Promise<SweepResult> | null = null;
+
+async function countReferences(): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    const add = (uri: string | null | undefined) => {
+        if (uri) counts.set(uri, (counts.get(uri) ?? 0) + 1);
+    };
+
+    for (const contact of await readContacts()) add(contact.avatar);
+    add((await getProfile())?.avatar);
+    for (const id of await listConversationIds()) {
+        for (const uri of await listMediaUris(id)) add(uri);
+    }
+    for (const uri of await listOutboxFiles()) add(uri);
+    return counts;
+}
+
+async function listCandidates(): Promise<string[]> {
+    const candidates = await listVaultFiles();
+    const dir = FileSystem.documentDirectory;
+    // Older versions only ever had the main vault
+    if (dir && !getActiveVault()) {
+        for (const name of await FileSystem.readDirectoryAsync(dir)) {
+            if (LEGACY_FILE_PATTERN.test(name)) candidates.push(dir + name);
+        }
+    }
+    return candidates;
+}
+
+async function sweep(): Promise<SweepResult> {
+    const result: SweepResult = { files: 0, bytes: 0 };
+    if (!(await getMasterSecret())) return result;
+
+    // Listed first: a file saved during the count is not a candidate
+    const candidates = await listCandidates();
+    const references = await countReferences();
+    // Locked while counting: records read as missing
+    if (!(await getMasterSecret())) return result;
+
+    const cutoff = Date.now() - GRACE_PERIOD_MS;
+    for (const uri of candidates) {
+        if (references.has(uri)) continue;
+        const info = await FileSystem.getInfoAsync(uri);
+        if (!info.exists || info.isDirectory || info.modificationTime * 1000 > cutoff) continue;
+
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+        result.files++;
+        result.bytes += info.size;
+    }
+
+    await AsyncStorage.setItem(vaultKey(LAST_SWEEP_KEY), Date.now().toString());
+    if (result.files > 0) console.log(`[MEDIA] Swept ${result.files} orphaned file(s), ${result.bytes} bytes`);
+    return result;
+}
+
+/**
+ * Delete orphaned media files now. A call made while a sweep runs starts another one after
+ * it, since records removed in the meantime were counted as references.
+ */
+export function sweepOrphanedMedia(): Promise<SweepResult> {
+    if (!running) {
+        running = sweep().finally(() => { running = null; });
+        return running;
+    }
+    if (!queued) {
+        queued = running.catch(() => { }).then(() => {
+            queued = null;
+            return sweepOrphanedMedia();
+        });
+    }
+    return queued;
+}
+
+/**
+ * Background sweep, at most every SWEEP_INTERVAL_MS
+ */
+export async function sweepOrphanedMediaIfDue(): Promise<SweepResult | null> {
+    const last = parseInt((await AsyncStorage.getItem(vaultKey(LAST_SWEEP_KEY))) || '0', 10);
+    if (!isNaN(last) && Date.now() - last < SWEEP_INTERVAL_MS) return null;
+    return sweepOrphanedMedia();
+}
+
+/**
+ * Human-readable size for sweep reports
+ */
+export function formatReclaimedSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} o`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} Ko`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} Mo`;
+}
@@ -0,0 +1,56 @@
+import { Contact, getContacts, updateContacts } from '@/utils/ContactRepository';
+import { readStoredMedia } from '@/utils/Envelope';
+import { deleteLegacyFile, isVaultUri, sealLegacyFile } from '@/utils/MediaVault';
+import { rewriteMessages, StoredMessage } from '@/utils/MessageStore';
+
+/**
+ * Move media files saved in plaintext by older versions (avatars, attachments) into the media
+ * vault. Run as storage migration 3 (StorageMigrations).
+ *
+ * Each record is saved with its encrypted copy before the original is deleted, so an
+ * interrupted run loses nothing; at worst a copy is left unreferenced.
+ */
+
+const isLegacyFile = (uri: string | null | undefined): uri is string =>
+    !!uri && uri.startsWith('file://') && !isVaultUri(uri);
+
+/**
+ * Seal every legacy file referenced by contacts and message history. Returns how many were moved.
+ */
+export async function sealLegacyMedia(): Promise<number> {
+    const originals: string[] = [];
+
+    await updateContacts(async list => {
+        const sealed: Contact[] = [];
+        for (const contact of list) {
+            if (!isLegacyFile(contact.avatar) || contact.avatarKey) {
+                sealed.push(contact);
+                continue;
+            }
+            const file = await sealLegacyFile(contact.avatar);
+            originals.push(contact.avatar);
+            sealed.push({ ...contact, avatar: file?.uri ?? null, avatarKey: file?.key });
+        }
+        return sealed;
+    });
+
+    for (const contact of await getContacts()) {
+        await rewriteMessages(contact.id, async (message): Promise<StoredMessage | null> => {
+            if (message.mediaKey) return null;
+            const media = readStoredMedia(message);
+            if (!media || !isLegacyFile(media.uri)) return null;
+
+            const file = await sealLegacyFile(media.uri);
+            originals.push(media.uri);
+            // Missing file: keep the caption, as a text message
+            if (!file) return { ...message, text: media.caption, localUri: undefined, mediaType: undefined };
+            return { ...message, text: media.caption, localUri: file.uri, mediaType: media.mediaType, mediaKey: file.key };
+        });
+    }
+
+    for (const uri of originals) {
+        await deleteLegacyFile(uri).catch(e => console.warn("[MIGRATION] Cannot delete legacy file", e));
+    }
+    if (originals.length > 0) console.log(`[MIGRATION] ${originals.length} media file(s) moved to the vault`);
+    return originals.length;
+}
@@ -0,0 +1,220 @@
+import nacl from '@/components/CryptoPolyfill';
+import { bytesToHex, concatBytes, hexToBytes } from '@/utils/CryptoPrimitives';
+import { MediaType } from '@/utils/Envelope';
+import { vaultKey } from '@/utils/MasterKey';
+import { decode as decodeBase64, encode as encodeBase64 } from 'base-64';
+import * as FileSystem from 'expo-file-system/legacy';
+
+/**
+ * Media files encrypted at rest. Each attachment or avatar is sealed with its own random key,
+ * which is kept in the record that references the file (message or contact), itself in
+ * encrypted storage. The document directory therefore only ever holds ciphertext.
+ *
+ * Attachments are decrypted to a cache file while the viewer shows them; avatars are small
+ * and decrypted in memory. Both are dropped on lock (purgeMediaCache).
+ *
+ * Each vault of MasterKey has its own directory.
+ */
+
+export interface VaultFile {
+    uri: string;
+    // secretbox key, hex
+    key: string;
+}
+
+const VAULT_DIR_NAME = "media_vault";
+const vaultDir = (vault?: string | null) => (FileSystem.documentDirectory || "") + vaultKey(VAULT_DIR_NAME, vault) + "/";
+const VIEW_CACHE_DIR = (FileSystem.cacheDirectory || "") + "media_view/";
+
+const EXTENSIONS: Record<MediaType, string> = { IMAGE: 'jpg', VIDEO: 'mp4' };
+
+const stringToUint8Array = (str: string) => {
+    const arr = new Uint8Array(str.length);
+    for (let i = 0; i < str.length; i++) arr[i] = str.charCodeAt(i) & 0xFF;
+    return arr;
+};
+const uint8ArrayToString = (arr: Uint8Array) => {
+    let str = '';
+    for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]);
+    return str;
+};
+
+// Decrypted avatars, as data URIs
+const imageCache = new Map<string, string>();
+
+async function ensureDirectory(dir: string): Promise<void> {
+    const info = await FileSystem.getInfoAsync(dir);
+    if (!info.exists) await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+}
+
+/**
+ * Whether `uri` is a file of the vault (records written before it point at plaintext files)
+ */
+export function isVaultUri(uri: string | null | undefined): boolean {
+    return !!uri && uri.startsWith(vaultDir());
+}
+
+/**
+ * Encrypt base64 file content into a new vault file
+ */
+export async function storeMedia(base64: string): Promise<VaultFile> {
+    const key = nacl.randomBytes(nacl.secretbox.keyLength);
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+    const sealed = nacl.secretbox(stringToUint8Array(decodeBase64(base64)), nonce, key);
+    const full = concatBytes(nonce, sealed);
+
+    await ensureDirectory(vaultDir());
+    const uri = `${vaultDir()}${bytesToHex(nacl.randomBytes(16))}.bin`;
+    await FileSystem.writeAsStringAsync(uri, encodeBase64(uint8ArrayToString(full)), { encoding: 'base64' });
+    return { uri, key: bytesToHex(key) };
+}
+
+/**
+ * Base64 content of a vault file. Throws if the file is missing or does not open with its key.
+ */
+export async function readMedia(file: VaultFile): Promise<string> {
+    const data = stringToUint8Array(decodeBase64(await FileSystem.readAsStringAsync(file.uri, { encoding: 'base64' })));
+    const nonce = data.slice(0, nacl.secretbox.nonceLength);
+    const opened = nacl.secretbox.open(data.slice(nacl.secretbox.nonceLength), nonce, hexToBytes(file.key));
+    if (!opened) throw new Error('Media file does not match its key');
+    return encodeBase64(uint8ArrayToString(opened));
+}
+
+/**
+ * Decrypt an attachment to the view cache for the viewer. Remove it with closeMedia.
+ */
+export async function openMedia(file: VaultFile, mediaType: MediaType): Promise<string> {
+    const base64 = await readMedia(file);
+    await ensureDirectory(VIEW_CACHE_DIR);
+    const uri = `${VIEW_CACHE_DIR}${bytesToHex(nacl.randomBytes(8))}.${EXTENSIONS[mediaType]}`;
+    await FileSystem.writeAsStringAsync(uri, base64, { encoding: 'base64' });
+    return uri;
+}
+
+export async function closeMedia(uri: string): Promise<void> {
+    if (!uri.startsWith(VIEW_CACHE_DIR)) return;
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+}
+
+/**
+ * Decrypted image as a data URI, kept in memory until the next purge (avatars)
+ */
+export async function loadVaultImage(file: VaultFile): Promise<string> {
+    const cached = imageCache.get(file.uri);
+    if (cached) return cached;
+    const uri = `data:image/jpeg;base64,${await readMedia(file)}`;
+    imageCache.set(file.uri, uri);
+    return uri;
+}
+
+/**
+ * Delete a vault file. Anything else (preset URL, null) is ignored.
+ */
+export async function deleteMedia(uri: string | null | undefined): Promise<void> {
+    if (!uri || !isVaultUri(uri)) return;
+    imageCache.delete(uri);
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+}
+
+/**
+ * Sealed content of a vault file as base64, null if it is missing (backups carry files sealed)
+ */
+export async function exportVaultFile(uri: string): Promise<string | null> {
+    if (!isVaultUri(uri)) return null;
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) return null;
+    return FileSystem.readAsStringAsync(uri, { encoding: 'base64' });
+}
+
+/**
+ * Write sealed content from exportVaultFile to a new vault file. Its key does not change.
+ */
+export async function importVaultFile(sealed: string): Promise<string> {
+    await ensureDirectory(vaultDir());
+    const uri = `${vaultDir()}${bytesToHex(nacl.randomBytes(16))}.bin`;
+    await FileSystem.writeAsStringAsync(uri, sealed, { encoding: 'base64' });
+    return uri;
+}
+
+/**
+ * URIs of every file in the vault (MediaCollector)
+ */
+export async function listVaultFiles(): Promise<string[]> {
+    const info = await FileSystem.getInfoAsync(vaultDir());
+    if (!info.exists) return [];
+    return (await FileSystem.readDirectoryAsync(vaultDir())).map(name => vaultDir() + name);
+}
+
+/**
+ * Forget every decrypted copy: the view cache directory and the in-memory images.
+ * Called on lock and at startup (a crash can leave files behind).
+ */
+export async function purgeMediaCache(): Promise<void> {
+    imageCache.clear();
+    await FileSystem.deleteAsync(VIEW_CACHE_DIR, { idempotent: true });
+}
+
+/**
+ * Delete every vault file and decrypted copy (account wipe), or only the files of `vault`
+ * (vault deleted)
+ */
+export async function wipeMediaVault(vault?: string): Promise<void> {
+    await purgeMediaCache();
+    if (vault) {
+        await FileSystem.deleteAsync(vaultDir(vault), { idempotent: true });
+        return;
+    }
+    const dir = FileSystem.documentDirectory;
+    if (!dir) return;
+    for (const name of await FileSystem.readDirectoryAsync(dir)) {
+        if (name === VAULT_DIR_NAME || name.endsWith(`_${VAULT_DIR_NAME}`)) {
+            await FileSystem.deleteAsync(dir + name, { idempotent: true });
+        }
+    }
+}
+
+/**
+ * Encrypted copy of a plaintext file written by an older version, or null if it is gone.
+ * The caller deletes the original (deleteLegacyFile) once the record points at the copy.
+ */
+export async function sealLegacyFile(uri: string): Promise<VaultFile | null> {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) return null;
+    return storeMedia(await FileSystem.readAsStringAsync(uri, { encoding: 'base64' }));
+}
+
+export async function deleteLegacyFile(uri: string): Promise<void> {
+    if (!uri.startsWith('file://') || isVaultUri(uri)) return;
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+}
+
+/**
+ * Local form of a contact's avatar: {avatar: null, avatarKey: undefined} or a vault file
+ */
+export interface StoredAvatar {
+    avatar: string | null;
+    avatarKey?: string;
+}
+
+/**
+ * Store an avatar received from a contact. Images (data URIs) go to the vault, preset URLs are
+ * kept as they are. An image that is too large or cannot be saved gives a null avatar.
+ */
+export async function storeAvatar(avatar: string | null): Promise<StoredAvatar> {
+    if (!avatar || !avatar.startsWith('data:')) return { avatar };
+    try {
+        // Limit avatar size (max 500KB base64)
+        if (avatar.length > 500000) {
+            console.warn("[AVATAR] Avatar too large, skipping save");
+            return { avatar: null };
+        }
+        const parts = avatar.split(';base64,');
+        const b64 = parts[1] || parts[0];
+        if (!b64) return { avatar: null };
+        const file = await storeMedia(b64);
+        return { avatar: file.uri, avatarKey: file.key };
+    } catch (err) {
+        console.error("[AVATAR] Failed to save avatar", err);
+        return { avatar: null };
+    }
+}
@@ -0,0 +1,447 @@
+import { readStoredMedia } from '@/utils/Envelope';
+import { secureTransaction, SecureTransaction } from '@/utils/SecureStorage';
+
+/**
+ * Append-only message history, stored per conversation as encrypted pages plus an index.
+ *
+ * Pages hold messages oldest first and only the newest one is rewritten when a message
+ * arrives, so saving a message costs one page and the index instead of the whole
+ * conversation. The index keeps the last message, which is all the chat list needs.
+ * Keys stay under the `history_` prefix so wiping history still removes them.
+ *
+ * Every operation is a storage transaction locked on the conversation's index key: the
+ * poller and the open chat write the same conversation, and a page is never saved without
+ * the index that describes it.
+ */
+
+// Our messages: 'sending' and 'failed' while the Outbox holds them
+export type MessageStatus = 'sending' | 'sent' | 'failed' | 'read';
+
+export interface StoredMessage {
+    id: string;
+    text: string;
+    timestamp: number;
+    isMe: boolean;
+    localUri?: string;
+    mediaType?: string;
+    // Key of the vault file at `localUri` (media saved before the vault have none)
+    mediaKey?: string;
+    status?: MessageStatus;
+}
+
+interface PageMeta {
+    n: number;
+    count: number;
+    // Serialized length, so a page of large legacy media records is closed early
+    size: number;
+    newest: number;
+}
+
+interface ConversationIndex {
+    v: 1;
+    nextPage: number;
+    pages: PageMeta[];
+    last: StoredMessage | null;
+}
+
+/**
+ * Position in a conversation: everything before `offset` in page `page`, then older pages
+ */
+export interface MessageCursor {
+    page: number;
+    offset: number;
+}
+
+export const PAGE_SIZE = 50;
+const MAX_PAGE_CHARS = 64 * 1024;
+
+const legacyKey = (contactId: string) => `history_${contactId}`;
+const indexKey = (contactId: string) => `history_${contactId}_index`;
+const pageKey = (contactId: string, n: number) => `history_${contactId}_p${n}`;
+
+// One conversation's transaction, which covers its index and pages
+function inConversation<T>(contactId: string, fn: (tx: SecureTransaction) => Promise<T>): Promise<T> {
+    return secureTransaction([indexKey(contactId)], fn);
+}
+
+function emptyIndex(): ConversationIndex {
+    return { v: 1, nextPage: 0, pages: [], last: null };
+}
+
+async function readPage(tx: SecureTransaction, contactId: string, n: number): Promise<StoredMessage[]> {
+    try {
+        const json = await tx.get(pageKey(contactId, n));
+        return json ? JSON.parse(json) : [];
+    } catch {
+        return [];
+    }
+}
+
+function writePage(tx: SecureTransaction, contactId: string, meta: PageMeta, messages: StoredMessage[]) {
+    const json = JSON.stringify(messages);
+    meta.count = messages.length;
+    meta.size = json.length;
+    meta.newest = messages.reduce((max, m) => Math.max(max, m.timestamp || 0), 0);
+    tx.set(pageKey(contactId, meta.n), json);
+}
+
+function saveIndex(tx: SecureTransaction, contactId: string, index: ConversationIndex) {
+    tx.set(indexKey(contactId), JSON.stringify(index));
+}
+
+/**
+ * Split chronological messages into fresh pages (legacy import, conversation move)
+ */
+function writeAllPages(tx: SecureTransaction, contactId: string, index: ConversationIndex, messages: StoredMessage[]) {
+    let current: StoredMessage[] = [];
+    let size = 2;
+    const flush = () => {
+        if (current.length === 0) return;
+        const meta: PageMeta = { n: index.nextPage++, count: 0, size: 0, newest: 0 };
+        writePage(tx, contactId, meta, current);
+        index.pages.push(meta);
+        current = [];
+        size = 2;
+    };
+    for (const message of messages) {
+        const length = JSON.stringify(message).length + 1;
+        if (current.length >= PAGE_SIZE || (current.length > 0 && size + length > MAX_PAGE_CHARS)) flush();
+        current.push(message);
+        size += length;
+    }
+    flush();
+    index.last = messages.length > 0 ? messages[messages.length - 1] : null;
+}
+
+/**
+ * Index of a conversation. A single-blob history from older versions is split into pages
+ * the first time it is read (the blob is newest first, pages are oldest first).
+ */
+async function loadIndex(tx: SecureTransaction, contactId: string): Promise<ConversationIndex> {
+    try {
+        const json = await tx.get(indexKey(contactId));
+        const index = json ? JSON.parse(json) : null;
+        if (index && index.v === 1 && Array.isArray(index.pages)) return index;
+    } catch { }
+
+    const index = emptyIndex();
+    const legacy = await tx.get(legacyKey(contactId));
+    if (!legacy) return index;
+    try {
+        const history = JSON.parse(legacy);
+        if (Array.isArray(history)) writeAllPages(tx, contactId, index, history.slice().reverse());
+    } catch {
+        console.warn(`[MessageStore] Dropping unreadable history for ${contactId}`);
+    }
+    // Committed with the caller's transaction, together with the pages
+    saveIndex(tx, contactId, index);
+    tx.clear(legacyKey(contactId));
+    return index;
+}
+
+/**
+ * Append a message to a conversation. False if a message with the same ID was just stored.
+ */
+export function appendMessage(contactId: string, message: StoredMessage): Promise<boolean> {
+    return inConversation(contactId, async tx => {
+        const index = await loadIndex(tx, contactId);
+        let meta = index.pages[index.pages.length - 1];
+        let page = meta ? await readPage(tx, contactId, meta.n) : [];
+        if (page.some(m => m.id === message.id)) return false;
+
+        const length = JSON.stringify(message).length + 1;
+        if (!meta || meta.count >= PAGE_SIZE || meta.size + length > MAX_PAGE_CHARS) {
+            meta = { n: index.nextPage++, count: 0, size: 0, newest: 0 };
+            index.pages.push(meta);
+            page = [];
+        }
+        page.push(message);
+
+        writePage(tx, contactId, meta, page);
+        index.last = message;
+        saveIndex(tx, contactId, index);
+        return true;
+    });
+}
+
+/**
+ * Up to `limit` messages, newest first, starting after `cursor` (null = the latest ones).
+ * `next` is the cursor for the following (older) batch, or null once the start is reached.
+ */
+export function readMessages(
+    contactId: string,
+    cursor: MessageCursor | null = null,
+    limit: number = PAGE_SIZE
+): Promise<{ messages: StoredMessage[]; next: MessageCursor | null }> {
+    // A transaction too: the first read of a legacy history imports it
+    return inConversation(contactId, async tx => {
+        const index = await loadIndex(tx, contactId);
+        let position = cursor ? index.pages.findIndex(p => p.n === cursor.page) : index.pages.length - 1;
+        // The page the cursor pointed to has expired since
+        if (cursor && position === -1) return { messages: [], next: null };
+
+        const messages: StoredMessage[] = [];
+        let offset = cursor ? cursor.offset : Infinity;
+        while (position >= 0) {
+            const meta = index.pages[position];
+            const page = await readPage(tx, contactId, meta.n);
+            let i = Math.min(offset, page.length) - 1;
+            for (; i >= 0 && messages.length < limit; i--) messages.push(page[i]);
+
+            if (messages.length >= limit) {
+                if (i >= 0) return { messages, next: { page: meta.n, offset: i + 1 } };
+                const older = index.pages[position - 1];
+                return { messages, next: older ? { page: older.n, offset: older.count } : null };
+            }
+            position--;
+            offset = Infinity;
+        }
+        return { messages, next: null };
+    });
+}
+
+/**
+ * Last message of a conversation, from the index alone
+ */
+export function readLatestMessage(contactId: string): Promise<StoredMessage | null> {
+    return inConversation(contactId, async tx => (await loadIndex(tx, contactId)).last);
+}
+
+/**
+ * Incoming messages newer than `since`. Reads only the pages that can contain some.
+ */
+export function countUnread(contactId: string, since: number): Promise<number> {
+    return inConversation(contactId, async tx => {
+        const index = await loadIndex(tx, contactId);
+        let count = 0;
+        for (let i = index.pages.length - 1; i >= 0 && index.pages[i].newest > since; i--) {
+            const page = await readPage(tx, contactId, index.pages[i].n);
+            for (const m of page) if (!m.isMe && (m.timestamp || 0) > since) count++;
+        }
+        return count;
+    });
+}
+
+/**
+ * Mark our messages as read (read receipt). Stops at the first page that had nothing to mark:
+ * a receipt covers everything before it, so older pages were marked by an earlier one.
+ */
+export function markOutgoingRead(contactId: string): Promise<number> {
+    return inConversation(contactId, async tx => {
+        const index = await loadIndex(tx, contactId);
+        let changed = 0;
+        for (let i = index.pages.length - 1; i >= 0; i--) {
+            const meta = index.pages[i];
+            const page = await readPage(tx, contactId, meta.n);
+            let pageChanged = 0;
+            for (const m of page) {
+                // Messages still in the Outbox have not reached the contact
+                if (m.isMe && (m.status === 'sent' || m.status === undefined)) {
+                    m.status = 'read';
+                    pageChanged++;
+                }
+            }
+            if (pageChanged === 0) break;
+            writePage(tx, contactId, meta, page);
+            changed += pageChanged;
+        }
+        if (changed > 0) {
+            const last = index.last;
+            if (last?.isMe && (last.status === 'sent' || last.status === undefined)) index.last = { ...last, status: 'read' };
+            saveIndex(tx, contactId, index);
+        }
+        return changed;
+    });
+}
+
+/**
+ * Set the status of one of our messages (Outbox). False if it is not in the conversation.
+ */
+export function setMessageStatus(contactId: string, messageId: string, status: MessageStatus): Promise<boolean> {
+    return inConversation(contactId, async tx => {
+        const index = await loadIndex(tx, contactId);
+        // Messages waiting in the Outbox are recent: newest pages first
+        for (let i = index.pages.length - 1; i >= 0; i--) {
+            const meta = index.pages[i];
+            const page = await readPage(tx, contactId, meta.n);
+            const message = page.find(m => m.id === messageId);
+            if (!message) continue;
+            if (message.status === status) return true;
+
+            message.status = status;
+            writePage(tx, contactId, meta, page);
+            if (index.last?.id === messageId) index.last = { ...index.last, status };
+            saveIndex(tx, contactId, index);
+            return true;
+        }
+        return false;
+    });
+}
+
+/**
+ * Remove one message, e.g. ours when it could not be queued. False if it is not in the conversation.
+ */
+export function removeMessage(contactId: string, messageId: string): Promise<boolean> {
+    return inConversation(contactId, async tx => {
+        const index = await loadIndex(tx, contactId);
+        for (let i = index.pages.length - 1; i >= 0; i--) {
+            const meta = index.pages[i];
+            const page = await readPage(tx, contactId, meta.n);
+            const kept = page.filter(m => m.id !== messageId);
+            if (kept.length === page.length) continue;
+
+            if (kept.length > 0) {
+                writePage(tx, contactId, meta, kept);
+            } else {
+                index.pages.splice(i, 1);
+                tx.clear(pageKey(contactId, meta.n));
+            }
+            if (index.last?.id === messageId) {
+                const lastMeta = index.pages[index.pages.length - 1];
+                const lastPage = lastMeta ? await readPage(tx, contactId, lastMeta.n) : [];
+                index.last = lastPage.length > 0 ? lastPage[lastPage.length - 1] : null;
+            }
+            saveIndex(tx, contactId, index);
+            return true;
+        }
+        return false;
+    });
+}
+
+/**
+ * URIs of the media files a conversation references (MediaCollector). Throws if a page cannot
+ * be read, so its files are never taken for orphans.
+ */
+export function listMediaUris(contactId: string): Promise<string[]> {
+    return inConversation(contactId, async tx => {
+        const index = await loadIndex(tx, contactId);
+        const uris: string[] = [];
+        for (const meta of index.pages) {
+            const json = await tx.get(pageKey(contactId, meta.n));
+            if (!json) throw new Error(`Page ${meta.n} of ${contactId} is missing`);
+            for (const message of JSON.parse(json) as StoredMessage[]) {
+                const media = readStoredMedia(message);
+                if (media) uris.push(media.uri);
+            }
+        }
+        return uris;
+    });
+}
+
+/**
+ * Rewrite stored messages (storage migrations). `update` returns the new record, or null to
+ * keep a message as it is. Returns how many changed.
+ */
+export function rewriteMessages(
+    contactId: string,
+    update: (message: StoredMessage) => Promise<StoredMessage | null>
+): Promise<number> {
+    return inConversation(contactId, async tx => {
+        const index = await loadIndex(tx, contactId);
+        let changed = 0;
+        for (const meta of index.pages) {
+            const page = await readPage(tx, contactId, meta.n);
+            let pageChanged = 0;
+            for (let i = 0; i < page.length; i++) {
+                const next = await update(page[i]);
+                if (!next) continue;
+                if (index.last?.id === page[i].id) index.last = next;
+                page[i] = next;
+                pageChanged++;
+            }
+            if (pageChanged === 0) continue;
+            writePage(tx, contactId, meta, page);
+            changed += pageChanged;
+        }
+        if (changed > 0) saveIndex(tx, contactId, index);
+        return changed;
+    });
+}
+
+/**
+ * Drop messages older than `maxAgeMs` (ephemeral conversations). Returns how many went.
+ */
+export function expireMessages(contactId: string, maxAgeMs: number): Promise<number> {
+    return inConversation(contactId, async tx => {
+        const index = await loadIndex(tx, contactId);
+        const cutoff = Date.now() - maxAgeMs;
+        let removed = 0;
+
+        // Pages are chronological: whole pages go first, then the start of the oldest kept one
+        while (index.pages.length > 0 && index.pages[0].newest < cutoff) {
+            const meta = index.pages.shift()!;
+            tx.clear(pageKey(contactId, meta.n));
+            removed += meta.count;
+        }
+        if (index.pages.length > 0) {
+            const meta = index.pages[0];
+            const page = await readPage(tx, contactId, meta.n);
+            const kept = page.filter(m => (m.timestamp || 0) >= cutoff);
+            if (kept.length < page.length) {
+                writePage(tx, contactId, meta, kept);
+                removed += page.length - kept.length;
+            }
+        }
+
+        if (removed === 0) return 0;
+        if (index.pages.length === 0) index.last = null;
+        saveIndex(tx, contactId, index);
+        return removed;
+    });
+}
+
+/**
+ * Remove a conversation's history (contact deleted)
+ */
+export function deleteConversation(contactId: string): Promise<void> {
+    return inConversation(contactId, async tx => {
+        const json = await tx.get(indexKey(contactId));
+        try {
+            const index = json ? JSON.parse(json) : null;
+            for (const meta of index?.pages ?? []) tx.clear(pageKey(contactId, meta.n));
+        } catch { }
+        tx.clear(indexKey(contactId));
+        tx.clear(legacyKey(contactId));
+    });
+}
+
+/**
+ * Replace a conversation's history with `messages`, oldest first (backup restore)
+ */
+export function replaceConversation(contactId: string, messages: StoredMessage[]): Promise<void> {
+    return inConversation(contactId, async tx => {
+        const previous = await loadIndex(tx, contactId);
+        for (const meta of previous.pages) tx.clear(pageKey(contactId, meta.n));
+
+        const index: ConversationIndex = { ...emptyIndex(), nextPage: previous.nextPage };
+        writeAllPages(tx, contactId, index, messages);
+        saveIndex(tx, contactId, index);
+    });
+}
+
+/**
+ * Move a conversation to a new contact ID (key rotation, ID migration). Messages already
+ * stored under the new ID are kept and merged in time order.
+ */
+export function moveConversation(fromId: string, toId: string): Promise<void> {
+    return secureTransaction([indexKey(fromId), indexKey(toId)], async tx => {
+        const source = await loadIndex(tx, fromId);
+        if (source.pages.length === 0) return;
+
+        const messages: StoredMessage[] = [];
+        for (const meta of source.pages) messages.push(...await readPage(tx, fromId, meta.n));
+
+        const target = await loadIndex(tx, toId);
+        for (const meta of target.pages) messages.push(...await readPage(tx, toId, meta.n));
+        messages.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+
+        // New page numbers, so the old target pages can be cleared in the same transaction
+        const index: ConversationIndex = { ...emptyIndex(), nextPage: target.nextPage };
+        for (const meta of target.pages) tx.clear(pageKey(toId, meta.n));
+        writeAllPages(tx, toId, index, messages);
+        saveIndex(tx, toId, index);
+
+        for (const meta of source.pages) tx.clear(pageKey(fromId, meta.n));
+        tx.clear(indexKey(fromId));
+    });
+}
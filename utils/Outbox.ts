@@ -0,0 +1,443 @@
+import nacl from '@/components/CryptoPolyfill';
+import { getServerURL } from '@/constants/Config';
+import { authFetch, getBoxSecretKey } from '@/utils/AuthHelper';
+import { bytesToHex, concatBytes, hexToBytes } from '@/utils/CryptoPrimitives';
+import { encodeEnvelope, Envelope } from '@/utils/Envelope';
+import { deleteMedia, readMedia, storeMedia, VaultFile } from '@/utils/MediaVault';
+import { appendMessage, MessageStatus, removeMessage, setMessageStatus, StoredMessage } from '@/utils/MessageStore';
+import { deleteSession, encryptForContact, RatchetPeer } from '@/utils/RatchetSession';
+import { MAX_ENVELOPE_AGE_MS } from '@/utils/ReplayGuard';
+import { secureGet, secureTransaction } from '@/utils/SecureStorage';
+import { decode as decodeBase64, encode as encodeBase64 } from 'base-64';
+
+/**
+ * Envelopes waiting to be posted to the relay. An envelope is encoded and stored (encrypted
+ * storage, or the media vault when large) before any network call, then sent in order per
+ * contact, retried with exponential backoff, and kept across restarts until the relay takes
+ * it. It is encrypted for the contact once, at its first attempt (a new session needs the
+ * relay for the contact's prekeys), and the frame replaces the envelope in the queue: retries
+ * post the same frame, so waiting does not advance the ratchet. Envelopes that must leave
+ * under the sessions of now (KEY_ROTATION notices, sent just before the sessions are dropped)
+ * are encrypted when queued, see queueEncrypted.
+ *
+ * When the envelope is one of our messages, its record in history follows the delivery:
+ * 'sending', then 'sent', or 'failed' once FAILED_AFTER_ATTEMPTS attempts did not go through
+ * (retries go on) or the relay refused it (held until retryMessage).
+ */
+
+// How an envelope is encrypted for `to`: over the ratchet session; in a box from our identity
+// key, [OUR_PK(32)][NONCE(24)][BOX] (ACCEPT handshake, before any session); or in a box from a
+// one-off key, [EPHEMERAL_PK(32)][NONCE(24)][BOX] (recovery share returned to a recovery code)
+export type Seal = 'ratchet' | 'identity' | 'anonymous';
+
+export interface OutboxItem {
+    id: string;
+    to: RatchetPeer;
+    type: Envelope['type'];
+    // Record of the message in the conversation with `to.id`
+    messageId?: string;
+    // Encoded envelope, base64, or once `encrypted` the ratchet frame posted to the relay:
+    // inline, or sealed in the media vault when large
+    payload?: string;
+    file?: VaultFile;
+    encrypted: boolean;
+    seal: Seal;
+    createdAt: number;
+    attempts: number;
+    nextAttemptAt: number;
+    // Refused by the relay: only sent again through retryMessage
+    held: boolean;
+}
+
+export interface OutboxChange {
+    contactId: string;
+    messageId: string;
+    status: MessageStatus;
+}
+
+const OUTBOX_KEY = "outbox_v1";
+const MAX_INLINE_PAYLOAD = 16 * 1024;
+const MIN_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const FAILED_AFTER_ATTEMPTS = 3;
+// Only the latest of these matters: a newer one replaces the unsent one
+const SUPERSEDED_TYPES: Envelope['type'][] = ['read', 'profile_update'];
+
+type Delivery = 'sent' | 'retry' | 'refused';
+
+let active = false;
+let handler: ((change: OutboxChange) => void) | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+let flushAgain = false;
+// Encryptions run one at a time, so an envelope reached by a flush and by queueEncrypted
+// together is still encrypted once
+let encrypting: Promise<unknown> = Promise.resolve();
+
+const stringToUint8Array = (str: string) => { const bytes = new Uint8Array(str.length); for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xFF; return bytes; };
+const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
+
+const ENVELOPE_TYPES: Envelope['type'][] = ['text', 'media', 'read', 'screenshot', 'delete', 'profile_update', 'accept', 'key_rotation', 'recovery_share'];
+
+const isEnvelopeType = (v: unknown): v is Envelope['type'] => ENVELOPE_TYPES.includes(v as Envelope['type']);
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object';
+
+function parseItem(value: unknown): OutboxItem | null {
+    if (!isRecord(value) || typeof value.id !== 'string' || !isEnvelopeType(value.type)) return null;
+    const to = value.to;
+    if (!isRecord(to) || typeof to.id !== 'string' || typeof to.key !== 'string') return null;
+    const file = isRecord(value.file) && typeof value.file.uri === 'string' && typeof value.file.key === 'string'
+        ? { uri: value.file.uri, key: value.file.key }
+        : undefined;
+    const payload = typeof value.payload === 'string' ? value.payload : undefined;
+    if (!file && !payload) return null;
+    return {
+        id: value.id,
+        to: { id: to.id, key: to.key },
+        type: value.type,
+        messageId: typeof value.messageId === 'string' ? value.messageId : undefined,
+        payload,
+        file,
+        encrypted: value.encrypted === true,
+        seal: value.seal === 'identity' || value.seal === 'anonymous' ? value.seal : 'ratchet',
+        createdAt: typeof value.createdAt === 'number' ? value.createdAt : Date.now(),
+        attempts: typeof value.attempts === 'number' ? value.attempts : 0,
+        nextAttemptAt: typeof value.nextAttemptAt === 'number' ? value.nextAttemptAt : 0,
+        held: value.held === true,
+    };
+}
+
+function parseItems(json: string | null): OutboxItem[] {
+    try {
+        const stored = json ? JSON.parse(json) : [];
+        return Array.isArray(stored) ? stored.map(parseItem).filter((i): i is OutboxItem => i !== null) : [];
+    } catch {
+        return [];
+    }
+}
+
+async function readItems(): Promise<OutboxItem[]> {
+    return parseItems(await secureGet(OUTBOX_KEY));
+}
+
+// Read-modify-write of the queue; returns the new queue
+function updateItems(update: (items: OutboxItem[]) => OutboxItem[]): Promise<OutboxItem[]> {
+    return secureTransaction([OUTBOX_KEY], async tx => {
+        const items = update(parseItems(await tx.get(OUTBOX_KEY)));
+        if (items.length === 0) {
+            tx.clear(OUTBOX_KEY);
+        } else {
+            tx.set(OUTBOX_KEY, JSON.stringify(items));
+        }
+        return items;
+    });
+}
+
+async function removeItem(item: OutboxItem): Promise<void> {
+    await updateItems(items => items.filter(i => i.id !== item.id));
+    await deleteMedia(item.file?.uri);
+}
+
+async function setStatus(item: OutboxItem, status: MessageStatus): Promise<void> {
+    if (!item.messageId) return;
+    if (await setMessageStatus(item.to.id, item.messageId, status)) {
+        handler?.({ contactId: item.to.id, messageId: item.messageId, status });
+    }
+}
+
+// Store `payload` inline, or in the media vault when large
+async function storePayload(payload: string): Promise<Pick<OutboxItem, 'payload' | 'file'>> {
+    return payload.length > MAX_INLINE_PAYLOAD ? { file: await storeMedia(payload) } : { payload };
+}
+
+function newItem(to: RatchetPeer, type: Envelope['type'], stored: Pick<OutboxItem, 'payload' | 'file'>, fields: Pick<OutboxItem, 'encrypted' | 'seal' | 'messageId'>): OutboxItem {
+    const now = Date.now();
+    return {
+        id: bytesToHex(nacl.randomBytes(16)),
+        to: { id: to.id, key: to.key },
+        type,
+        ...fields,
+        ...stored,
+        createdAt: now,
+        attempts: 0,
+        nextAttemptAt: now,
+        held: false,
+    };
+}
+
+async function sealEnvelope(item: OutboxItem, envelope: Uint8Array): Promise<string> {
+    if (item.seal === 'ratchet') return encryptForContact(item.to, envelope);
+
+    let sender = nacl.box.keyPair();
+    if (item.seal === 'identity') {
+        const secretKey = await getBoxSecretKey();
+        if (!secretKey) throw new Error('No identity key');
+        sender = nacl.box.keyPair.fromSecretKey(secretKey);
+    }
+    const nonce = nacl.randomBytes(nacl.box.nonceLength);
+    const box = nacl.box(envelope, nonce, hexToBytes(item.to.key), sender.secretKey);
+    return encodeBase64(uint8ArrayToString(concatBytes(sender.publicKey, nonce, box)));
+}
+
+// The frame to post: encrypted on the first attempt and kept in place of the envelope. Throws
+// if the session cannot be set up (no prekeys while offline), which saves no ratchet state.
+function encryptItem(item: OutboxItem, payload: string): Promise<string> {
+    if (item.encrypted) return Promise.resolve(payload);
+    const run = encrypting.then(() => encryptOnce(item, payload));
+    encrypting = run.catch(() => { });
+    return run;
+}
+
+async function encryptOnce(item: OutboxItem, payload: string): Promise<string> {
+    const current = (await readItems()).find(i => i.id === item.id);
+    if (current?.encrypted) return current.file ? readMedia(current.file) : current.payload!;
+
+    const frame = await sealEnvelope(item, stringToUint8Array(decodeBase64(payload)));
+    const stored = await storePayload(frame);
+    try {
+        await updateItems(items => items.map(i => i.id === item.id
+            ? { ...i, payload: stored.payload, file: stored.file, encrypted: true }
+            : i));
+    } catch (e) {
+        // Posted anyway; a later attempt encrypts again, which only skips one message key
+        await deleteMedia(stored.file?.uri);
+        console.warn(`[OUTBOX] Could not keep the frame of ${item.id}`, e);
+        return frame;
+    }
+    await deleteMedia(item.file?.uri);
+    return frame;
+}
+
+async function deliver(item: OutboxItem): Promise<Delivery> {
+    let payload: string;
+    try {
+        payload = item.file ? await readMedia(item.file) : item.payload!;
+    } catch (e) {
+        console.error(`[OUTBOX] Payload of ${item.id} is unreadable`, e);
+        return 'refused';
+    }
+
+    try {
+        const encryptedContent = await encryptItem(item, payload);
+        const serverURL = await getServerURL();
+        const res = await authFetch(`${serverURL}/send`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ to: item.to.id, encryptedContent })
+        });
+        if (res.ok) return 'sent';
+        // Anything else in 4xx will not get better by waiting (unknown recipient, too large)
+        return res.status >= 400 && res.status < 500 && res.status !== 401 && res.status !== 408 && res.status !== 429 ? 'refused' : 'retry';
+    } catch (e) {
+        console.warn(`[OUTBOX] Sending ${item.type} to ${item.to.id} failed`, e);
+        return 'retry';
+    }
+}
+
+async function flushDue(): Promise<void> {
+    const now = Date.now();
+    // Contacts with an earlier envelope still waiting: theirs keep their order
+    const waiting = new Set<string>();
+
+    for (const item of await readItems()) {
+        if (!active) return;
+        if (item.held) continue;
+        if (item.createdAt < now - MAX_ENVELOPE_AGE_MS) {
+            // The contact would drop it as stale
+            await removeItem(item);
+            await setStatus(item, 'failed');
+            continue;
+        }
+        if (waiting.has(item.to.id) || item.nextAttemptAt > now) {
+            waiting.add(item.to.id);
+            continue;
+        }
+
+        const delivery = await deliver(item);
+        // `deliver` may have swapped the envelope for its frame
+        const current = (await readItems()).find(i => i.id === item.id) ?? item;
+        if (delivery === 'sent') {
+            await removeItem(current);
+            // The contact is gone: drop the session the signal may have had to set up again
+            if (item.type === 'delete') await deleteSession(item.to.id);
+            await setStatus(item, 'sent');
+        } else if (delivery === 'refused' && !item.messageId) {
+            console.warn(`[OUTBOX] Relay refused ${item.type} to ${item.to.id}, dropped`);
+            await removeItem(current);
+        } else if (delivery === 'refused') {
+            await updateItems(items => items.map(i => i.id === item.id ? { ...i, held: true } : i));
+            await setStatus(item, 'failed');
+        } else {
+            const attempts = item.attempts + 1;
+            const delay = Math.min(MIN_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+            await updateItems(items => items.map(i => i.id === item.id ? { ...i, attempts, nextAttemptAt: Date.now() + delay } : i));
+            if (attempts === FAILED_AFTER_ATTEMPTS) await setStatus(item, 'failed');
+            waiting.add(item.to.id);
+        }
+    }
+}
+
+async function scheduleNext(): Promise<void> {
+    let due = Infinity;
+    try {
+        for (const item of await readItems()) {
+            if (!item.held) due = Math.min(due, item.nextAttemptAt);
+        }
+    } catch { }
+
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    if (!active || due === Infinity) return;
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        flushOutbox();
+    }, Math.max(0, due - Date.now()));
+}
+
+/**
+ * Send what is due now. Calls made while a flush runs are folded into it.
+ */
+export function flushOutbox(): Promise<void> {
+    if (!active) return Promise.resolve();
+    if (flushing) {
+        flushAgain = true;
+        return flushing;
+    }
+    flushing = (async () => {
+        do {
+            flushAgain = false;
+            try {
+                await flushDue();
+            } catch (e) {
+                console.error("[OUTBOX] Flush failed", e);
+            }
+        } while (flushAgain && active);
+    })().finally(() => {
+        flushing = null;
+        scheduleNext();
+    });
+    return flushing;
+}
+
+/**
+ * Queue `envelope` for `to`, encrypted with `seal` (the ratchet session by default). With
+ * `record`, our message is added to the conversation as 'sending' first, and removed again
+ * if the envelope cannot be queued. Throws if the envelope is invalid or cannot be stored.
+ */
+export async function queueEnvelope(to: RatchetPeer, envelope: Envelope, options: { record?: StoredMessage; seal?: Seal } = {}): Promise<void> {
+    const { record, seal = 'ratchet' } = options;
+    const payload = encodeBase64(uint8ArrayToString(encodeEnvelope(envelope)));
+    // Before the item exists, so a flush never reports on a message not stored yet
+    if (record) await appendMessage(to.id, { ...record, status: 'sending' });
+
+    let stored: Pick<OutboxItem, 'payload' | 'file'> = {};
+    const superseded: OutboxItem[] = [];
+    try {
+        stored = await storePayload(payload);
+        const item = newItem(to, envelope.type, stored, { encrypted: false, seal, messageId: record?.id });
+        await updateItems(items => {
+            const replaces = (i: OutboxItem) => SUPERSEDED_TYPES.includes(item.type) && i.type === item.type && i.to.id === item.to.id;
+            superseded.push(...items.filter(replaces));
+            return [...items.filter(i => !replaces(i)), item];
+        });
+    } catch (e) {
+        await deleteMedia(stored.file?.uri);
+        if (record) await removeMessage(to.id, record.id);
+        throw e;
+    }
+    for (const old of superseded) await deleteMedia(old.file?.uri);
+
+    flushOutbox();
+}
+
+/**
+ * Queue `envelope` for each of `peers`, encrypted now over the sessions we have now, all or
+ * none: for a KEY_ROTATION notice, the sessions and identity it must leave under are dropped
+ * as soon as it is queued. Envelopes already waiting for these peers are encrypted first, so
+ * they still reach them in order. Throws, with nothing queued, if a session cannot be set up
+ * or the queue cannot be stored.
+ */
+export async function queueEncrypted(peers: RatchetPeer[], envelope: Envelope): Promise<void> {
+    const encoded = encodeEnvelope(envelope);
+    const ids = new Set(peers.map(p => p.id));
+    for (const item of await readItems()) {
+        if (item.encrypted || !ids.has(item.to.id)) continue;
+        let payload: string;
+        try {
+            payload = item.file ? await readMedia(item.file) : item.payload!;
+        } catch {
+            // Dropped by its delivery anyway
+            continue;
+        }
+        await encryptItem(item, payload);
+    }
+
+    const queued: OutboxItem[] = [];
+    try {
+        for (const to of peers) {
+            const stored = await storePayload(await encryptForContact(to, encoded));
+            queued.push(newItem(to, envelope.type, stored, { encrypted: true, seal: 'ratchet' }));
+        }
+        await updateItems(items => [...items, ...queued]);
+    } catch (e) {
+        for (const item of queued) await deleteMedia(item.file?.uri);
+        throw e;
+    }
+
+    flushOutbox();
+}
+
+/**
+ * Send one of our failed messages again now (tap to retry). False if it is no longer queued.
+ */
+export async function retryMessage(contactId: string, messageId: string): Promise<boolean> {
+    const matches = (i: OutboxItem) => i.to.id === contactId && i.messageId === messageId;
+    const items = await updateItems(items => items.map(i => matches(i)
+        ? { ...i, attempts: 0, nextAttemptAt: Date.now(), held: false }
+        : i));
+    const item = items.find(matches);
+    if (!item) return false;
+
+    await setStatus(item, 'sending');
+    flushOutbox();
+    return true;
+}
+
+/**
+ * Retry everything waiting for its backoff now, e.g. once the relay is reachable again
+ */
+export async function resumeOutbox(): Promise<void> {
+    try {
+        const now = Date.now();
+        await updateItems(items => items.map(i => !i.held && i.nextAttemptAt > now ? { ...i, nextAttemptAt: now } : i));
+    } catch (e) {
+        console.error("[OUTBOX] Resume failed", e);
+    }
+    await flushOutbox();
+}
+
+/**
+ * Start sending. Status changes of our messages go to `onChange` until the returned
+ * function stops the outbox; queued envelopes wait for the next start.
+ */
+export function startOutbox(onChange: (change: OutboxChange) => void): () => void {
+    stopOutbox();
+    active = true;
+    handler = onChange;
+    resumeOutbox();
+    return stopOutbox;
+}
+
+function stopOutbox() {
+    active = false;
+    handler = null;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+}
+
+/**
+ * Vault files of queued envelopes (MediaCollector)
+ */
+export async function listOutboxFiles(): Promise<string[]> {
+    return (await readItems()).flatMap(item => item.file ? [item.file.uri] : []);
+}
@@ -0,0 +1,197 @@
+import nacl from '@/components/CryptoPolyfill';
+import { bytesToHex, hexToBytes } from '@/utils/CryptoPrimitives';
+import { secureGet, secureSet } from '@/utils/SecureStorage';
+import { decode as decodeBase64, encode as encodeBase64 } from 'base-64';
+
+/**
+ * Local prekey store: the signed prekey (rotated weekly) and the pool of one-time prekeys
+ * published to the relay so contacts can open a ratchet session while we are offline.
+ */
+
+const PREKEY_STORE_KEY = "prekey_store_v1";
+
+// Uploaded at registration and whenever the relay pool drops below the low-water mark
+export const ONE_TIME_PREKEY_BATCH = 50;
+export const ONE_TIME_PREKEY_LOW_WATER = 15;
+// Marks "no prekey" in an init frame (the identity key stands in for the signed prekey)
+export const NO_PREKEY_ID = 0xffffffff;
+
+const SIGNED_PREKEY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Old signed prekeys stay usable for senders that fetched a bundle before the rotation
+const PREVIOUS_SIGNED_PREKEYS_KEPT = 3;
+// Local copies of one-time prekeys; the oldest are dropped once the relay has long handed them out
+const MAX_LOCAL_ONE_TIME_PREKEYS = 400;
+
+const stringToUint8Array = (str: string) => { const bytes = new Uint8Array(str.length); for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xFF; return bytes; };
+const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
+
+interface StoredKeyPair {
+    publicKey: string;
+    secretKey: string;
+}
+
+interface StoredSignedPreKey extends StoredKeyPair {
+    id: number;
+    signature: string;
+    createdAt: number;
+}
+
+interface PreKeyStore {
+    v: 1;
+    // Identity the signatures were made with; a new identity starts a new store
+    identityKey: string;
+    nextId: number;
+    signed: StoredSignedPreKey;
+    previousSigned: StoredSignedPreKey[];
+    oneTime: Record<string, StoredKeyPair>;
+}
+
+export interface PreKeyUpload {
+    signedPreKey: { id: number; key: string; signature: string };
+    oneTimePreKeys: { id: number; key: string }[];
+    // Set by a new store: the relay drops one-time prekeys whose private halves are not here
+    replace?: true;
+}
+
+export interface PreKeyBundle {
+    id: string;
+    identityKey: string;
+    signingKey: string;
+    signedPreKey: { id: number; key: string; signature: string };
+    oneTimePreKey: { id: number; key: string } | null;
+}
+
+const signedPreKeyMessage = (id: number, keyHex: string) =>
+    stringToUint8Array(`GHOST_PREKEY:${id}:${keyHex.toLowerCase()}`);
+
+function createSignedPreKey(id: number, signingSecretKey: Uint8Array): StoredSignedPreKey {
+    const kp = nacl.box.keyPair();
+    const publicKey = bytesToHex(kp.publicKey);
+    const signature = nacl.sign.detached(signedPreKeyMessage(id, publicKey), signingSecretKey);
+    return {
+        id,
+        publicKey,
+        secretKey: bytesToHex(kp.secretKey),
+        signature: encodeBase64(uint8ArrayToString(signature)),
+        createdAt: Date.now(),
+    };
+}
+
+// Serializes read-modify-write cycles on the store (uploads vs. sessions consuming keys)
+let storeQueue: Promise<unknown> = Promise.resolve();
+
+function withStoreLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = storeQueue.catch(() => { }).then(fn);
+    storeQueue = run;
+    return run;
+}
+
+async function loadStore(identityKeyHex: string): Promise<PreKeyStore | null> {
+    const json = await secureGet(PREKEY_STORE_KEY);
+    if (!json) return null;
+    try {
+        const store = JSON.parse(json);
+        return store && store.v === 1 && store.identityKey === identityKeyHex ? store : null;
+    } catch {
+        return null;
+    }
+}
+
+async function saveStore(store: PreKeyStore): Promise<void> {
+    await secureSet(PREKEY_STORE_KEY, JSON.stringify(store));
+}
+
+/**
+ * Prepare a prekey upload: rotates the signed prekey when it is too old and
+ * generates `oneTimeCount` fresh one-time prekeys, then persists the private halves.
+ */
+export async function buildPreKeyUpload(
+    identityKeyHex: string,
+    signingSecretKey: Uint8Array,
+    oneTimeCount: number
+): Promise<PreKeyUpload> {
+    return withStoreLock(async () => {
+        let store = await loadStore(identityKeyHex);
+        const created = !store;
+        if (!store) {
+            store = {
+                v: 1,
+                identityKey: identityKeyHex,
+                nextId: 2,
+                signed: createSignedPreKey(1, signingSecretKey),
+                previousSigned: [],
+                oneTime: {},
+            };
+        } else if (Date.now() - store.signed.createdAt > SIGNED_PREKEY_MAX_AGE_MS) {
+            store.previousSigned = [store.signed, ...store.previousSigned].slice(0, PREVIOUS_SIGNED_PREKEYS_KEPT);
+            store.signed = createSignedPreKey(store.nextId++, signingSecretKey);
+        }
+
+        const oneTimePreKeys: PreKeyUpload['oneTimePreKeys'] = [];
+        for (let i = 0; i < oneTimeCount; i++) {
+            const kp = nacl.box.keyPair();
+            const id = store.nextId++;
+            store.oneTime[id] = { publicKey: bytesToHex(kp.publicKey), secretKey: bytesToHex(kp.secretKey) };
+            oneTimePreKeys.push({ id, key: bytesToHex(kp.publicKey) });
+        }
+
+        // Ids only grow, so the first keys are the oldest
+        const ids = Object.keys(store.oneTime).map(Number).sort((a, b) => a - b);
+        for (const id of ids.slice(0, Math.max(0, ids.length - MAX_LOCAL_ONE_TIME_PREKEYS))) {
+            delete store.oneTime[id];
+        }
+
+        await saveStore(store);
+
+        return {
+            signedPreKey: { id: store.signed.id, key: store.signed.publicKey, signature: store.signed.signature },
+            oneTimePreKeys,
+            ...(created ? { replace: true as const } : {}),
+        };
+    });
+}
+
+function toKeyPair(stored: StoredKeyPair): nacl.BoxKeyPair {
+    return { publicKey: hexToBytes(stored.publicKey), secretKey: hexToBytes(stored.secretKey) };
+}
+
+export async function getSignedPreKeyPair(identityKeyHex: string, id: number): Promise<nacl.BoxKeyPair | null> {
+    const store = await loadStore(identityKeyHex);
+    if (!store) return null;
+    const found = [store.signed, ...store.previousSigned].find(spk => spk.id === id);
+    return found ? toKeyPair(found) : null;
+}
+
+export async function getOneTimePreKeyPair(identityKeyHex: string, id: number): Promise<nacl.BoxKeyPair | null> {
+    const store = await loadStore(identityKeyHex);
+    const found = store?.oneTime[id];
+    return found ? toKeyPair(found) : null;
+}
+
+/**
+ * Delete a one-time prekey once a session has been established with it
+ */
+export async function removeOneTimePreKey(identityKeyHex: string, id: number): Promise<void> {
+    await withStoreLock(async () => {
+        const store = await loadStore(identityKeyHex);
+        if (!store || !store.oneTime[id]) return;
+        delete store.oneTime[id];
+        await saveStore(store);
+    });
+}
+
+/**
+ * Check the signed prekey of a fetched bundle against the bundle's signing key
+ */
+export function verifyPreKeyBundle(bundle: PreKeyBundle): boolean {
+    try {
+        const spk = bundle.signedPreKey;
+        if (!spk || !/^[a-f0-9]{64}$/i.test(spk.key) || !/^[a-f0-9]{64}$/i.test(bundle.signingKey)) return false;
+        if (bundle.oneTimePreKey && !/^[a-f0-9]{64}$/i.test(bundle.oneTimePreKey.key)) return false;
+        const signature = stringToUint8Array(decodeBase64(spk.signature));
+        if (signature.length !== nacl.sign.signatureLength) return false;
+        return nacl.sign.detached.verify(signedPreKeyMessage(spk.id, spk.key), signature, hexToBytes(bundle.signingKey));
+    } catch {
+        return false;
+    }
+}
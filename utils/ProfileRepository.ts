@@ -0,0 +1,49 @@
+import { secureGet, secureSet } from '@/utils/SecureStorage';
+
+/**
+ * The user's own profile (name and avatar shown to contacts). Its presence also marks a
+ * finished onboarding.
+ */
+
+export interface Profile {
+    pseudo: string;
+    // Preset avatar URL or base64 data URI
+    avatar: string | null;
+}
+
+const PROFILE_KEY = "my_profile_data_v1";
+export const MAX_PSEUDO_LENGTH = 50;
+
+export function parseProfile(value: unknown): Profile | null {
+    if (!value || typeof value !== 'object') return null;
+    const v = value as Record<string, unknown>;
+    if (typeof v.pseudo !== 'string') return null;
+    return {
+        pseudo: v.pseudo,
+        avatar: typeof v.avatar === 'string' && v.avatar.length > 0 ? v.avatar : null,
+    };
+}
+
+/**
+ * Stored profile, or null before onboarding (or while the storage cannot be decrypted)
+ */
+export async function getProfile(): Promise<Profile | null> {
+    try {
+        const json = await secureGet(PROFILE_KEY);
+        return json ? parseProfile(JSON.parse(json)) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Save the profile. The pseudo is trimmed, stripped of control characters and capped.
+ */
+export async function saveProfile(profile: Profile): Promise<Profile> {
+    const saved: Profile = {
+        pseudo: profile.pseudo.trim().substring(0, MAX_PSEUDO_LENGTH).replace(/[\x00-\x1F\x7F]/g, ''),
+        avatar: profile.avatar || null,
+    };
+    await secureSet(PROFILE_KEY, JSON.stringify(saved));
+    return saved;
+}
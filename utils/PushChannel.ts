@@ -0,0 +1,181 @@
+import { getServerURL } from '@/constants/Config';
+import { getAuthHeaders, getMyID } from '@/utils/AuthHelper';
+import { Presence } from '@/utils/ContactRepository';
+
+/**
+ * Push channel to the relay (GET /ws, see Mysecretserver/README.md): one WebSocket, signed like
+ * authFetch, over which the relay sends queued envelopes, friend requests and the presence of
+ * contacts as they change. It reconnects with exponential backoff; while it is down
+ * (isPushConnected) the caller keeps polling the HTTP routes.
+ *
+ * Pushed messages are the same as GET /check returns and still have to be acknowledged.
+ */
+
+export interface RelayMessage {
+    id: number;
+    content: string;
+    timestamp: number;
+}
+
+export type PushEvent =
+    | { type: 'connected' }
+    | { type: 'messages'; messages: RelayMessage[] }
+    // Unchecked, as GET /friend-requests returns them (saveFriendRequests validates)
+    | { type: 'friend-requests'; requests: unknown[] }
+    | { type: 'presence'; status: Record<string, Presence> };
+
+// React Native's WebSocket takes the upgrade request headers as a third argument, which the
+// DOM typings do not know
+const NativeWebSocket = WebSocket as unknown as new (
+    url: string,
+    protocols: string | string[] | null,
+    options: { headers: Record<string, string> }
+) => WebSocket;
+
+const PUSH_PATH = "/ws";
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 60 * 1000;
+
+let socket: WebSocket | null = null;
+let connectedAs: string | null = null;
+let handler: ((event: PushEvent) => void) | null = null;
+// Bumped on every start and stop, so a connection attempt that outlived its channel gives up
+let generation = 0;
+let retryDelay = MIN_RETRY_MS;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+// Presence state last sent on this connection
+let sentVisible: boolean | null = null;
+let sentWatch: string | null = null;
+
+function isRelayMessage(value: unknown): value is RelayMessage {
+    if (!value || typeof value !== 'object') return false;
+    const m = value as Record<string, unknown>;
+    return Number.isInteger(m.id) && typeof m.content === 'string' && typeof m.timestamp === 'number';
+}
+
+function parseFrame(data: unknown): PushEvent | null {
+    if (typeof data !== 'string') return null;
+    try {
+        const frame = JSON.parse(data);
+        if (frame?.type === 'messages' && Array.isArray(frame.messages)) {
+            return { type: 'messages', messages: frame.messages.filter(isRelayMessage) };
+        }
+        if (frame?.type === 'friend-requests' && Array.isArray(frame.requests)) {
+            return { type: 'friend-requests', requests: frame.requests };
+        }
+        if (frame?.type === 'presence' && frame.status && typeof frame.status === 'object') {
+            return { type: 'presence', status: frame.status };
+        }
+    } catch { }
+    return null;
+}
+
+function closeSocket() {
+    const current = socket;
+    socket = null;
+    connectedAs = null;
+    sentVisible = null;
+    sentWatch = null;
+    if (current) {
+        current.onopen = null;
+        current.onmessage = null;
+        current.onclose = null;
+        current.onerror = null;
+        current.close();
+    }
+}
+
+function scheduleRetry(attempt: number) {
+    if (attempt !== generation || retryTimer) return;
+    // Jitter keeps clients from all reconnecting at once after a relay restart
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        connect(attempt);
+    }, retryDelay * (0.5 + Math.random() / 2));
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+}
+
+async function connect(attempt: number) {
+    try {
+        const myID = await getMyID();
+        const url = (await getServerURL()).replace(/^http/, 'ws') + PUSH_PATH;
+        const headers = await getAuthHeaders(new URL(url).pathname, 'GET');
+        if (attempt !== generation) return;
+        if (!myID || !headers['X-Ghost-Signature']) {
+            scheduleRetry(attempt);
+            return;
+        }
+
+        const ws = new NativeWebSocket(url, null, { headers });
+        socket = ws;
+        ws.onopen = () => {
+            connectedAs = myID;
+            retryDelay = MIN_RETRY_MS;
+            handler?.({ type: 'connected' });
+        };
+        ws.onmessage = event => {
+            const pushed = parseFrame(event.data);
+            if (pushed) handler?.(pushed);
+        };
+        ws.onerror = () => { /* followed by onclose */ };
+        ws.onclose = () => {
+            if (socket !== ws) return;
+            closeSocket();
+            scheduleRetry(attempt);
+        };
+    } catch (e) {
+        console.warn("[PUSH] Connection failed", e);
+        scheduleRetry(attempt);
+    }
+}
+
+/**
+ * Open the channel. Events go to `onEvent` until the returned function closes it.
+ */
+export function startPushChannel(onEvent: (event: PushEvent) => void): () => void {
+    stopPushChannel();
+    handler = onEvent;
+    retryDelay = MIN_RETRY_MS;
+    connect(generation);
+    return stopPushChannel;
+}
+
+function stopPushChannel() {
+    generation++;
+    handler = null;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    closeSocket();
+}
+
+export function isPushConnected(): boolean {
+    return connectedAs !== null;
+}
+
+/**
+ * Show or hide our presence, and follow the presence of `ids`. Only changes are sent.
+ */
+export function setPushPresence(visible: boolean, ids: string[]) {
+    if (!socket || !connectedAs) return;
+    if (sentVisible !== visible) {
+        socket.send(JSON.stringify({ type: 'presence', visible }));
+        sentVisible = visible;
+    }
+    const watch = ids.join(',');
+    if (sentWatch !== watch) {
+        socket.send(JSON.stringify({ type: 'watch', ids }));
+        sentWatch = watch;
+    }
+}
+
+/**
+ * Reconnect if our ID changed since the connection opened (key rotation): the relay pushes to
+ * the ID that signed the upgrade.
+ */
+export async function refreshPushChannel(): Promise<void> {
+    if (!connectedAs || !handler) return;
+    const myID = await getMyID();
+    if (myID === connectedAs || !socket) return;
+    closeSocket();
+    connect(generation);
+}
@@ -0,0 +1,571 @@
+import nacl from '@/components/CryptoPolyfill';
+import { getServerURL } from '@/constants/Config';
+import { authFetch, getBoxSecretKey } from '@/utils/AuthHelper';
+import { bytesToHex, concatBytes, constantTimeEqual, hexToBytes, hkdfSha256, hmacSha256 } from '@/utils/CryptoPrimitives';
+import {
+    getOneTimePreKeyPair,
+    getSignedPreKeyPair,
+    NO_PREKEY_ID,
+    PreKeyBundle,
+    removeOneTimePreKey,
+    verifyPreKeyBundle,
+} from '@/utils/PreKeys';
+import { wrapWithRoutingTag } from '@/utils/RoutingTag';
+import { secureClear, secureGet, secureSet } from '@/utils/SecureStorage';
+import { encode as encodeBase64 } from 'base-64';
+
+/**
+ * Double Ratchet sessions (X25519 DH ratchet + HMAC-SHA256 symmetric chains), one per contact.
+ *
+ * Sessions start with an X3DH-style agreement on the recipient's prekey bundle
+ * (identity key, signed prekey, optional one-time prekey) fetched from the relay.
+ * Without a bundle the identity key stands in for the signed prekey.
+ *
+ * Wire frame:
+ *   [0xD1][flags] ([EPH(32)][NONCE(24)][BOX(init)] if FLAG_INIT) [DH(32)][PN(u32)][N(u32)] [secretbox]
+ *   init = [IK_A(32)][BASE(32)][SPK_ID(u32)][OPK_ID(u32)]
+ * The init block is boxed from a one-off key to the recipient's identity key, so the relay
+ * cannot tell whose identity key starts a session with whom. The initiator repeats it, sealed
+ * again, on every message until the peer has answered, so the first messages decrypt in any
+ * order.
+ */
+
+const SESSION_PREFIX = "ratchet_session_";
+const FRAME_MAGIC = 0xd1;
+const FLAG_INIT = 0x01;
+const KEY_LENGTH = 32;
+const HEADER_LENGTH = KEY_LENGTH + 4 + 4;
+const INIT_LENGTH = 2 * KEY_LENGTH + 4 + 4;
+const SEALED_INIT_LENGTH = KEY_LENGTH + nacl.box.nonceLength + INIT_LENGTH + nacl.box.overheadLength;
+const MAX_SKIP = 500;
+const MAX_STORED_SKIPPED = 1000;
+const MAX_THROWAWAY_BASES = 8;
+
+const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
+
+export interface RatchetPeer {
+    id: string;
+    key: string;
+}
+
+export interface RatchetHeader {
+    dh: Uint8Array;
+    pn: number;
+    n: number;
+}
+
+export interface RatchetInit {
+    identityKey: Uint8Array;
+    baseKey: Uint8Array;
+    signedPreKeyId: number;
+    oneTimePreKeyId: number;
+}
+
+export interface RatchetFrame {
+    // Init block as sent, sealed to our identity key (openInit)
+    sealedInit: Uint8Array | null;
+    header: RatchetHeader;
+    // Serialized frame prefix, mixed into the message key so the header cannot be altered
+    ad: Uint8Array;
+    ciphertext: Uint8Array;
+}
+
+export interface DecryptedFrame {
+    plaintext: Uint8Array;
+    // Forgets the message key once the message is applied: until then, the same frame
+    // (left on the relay after a failed write) decrypts again
+    commit: () => Promise<void>;
+}
+
+interface SessionState {
+    v: 1;
+    rootKey: string;
+    dhSelf: { publicKey: string; secretKey: string };
+    dhRemote: string | null;
+    sendChain: string | null;
+    sendN: number;
+    prevSendN: number;
+    recvChain: string | null;
+    recvN: number;
+    // "dhHex:n" -> message key, in insertion order
+    skipped: Record<string, string>;
+    // Initiator only: sent with every message until the peer answers
+    pendingInit: { baseKey: string; signedPreKeyId: number; oneTimePreKeyId: number } | null;
+    // Responder only: base key of the init message this session was created from
+    remoteBaseKey: string | null;
+    // Init messages from a simultaneous initiation we lost the tie-break for
+    throwawayBaseKeys: string[];
+}
+
+// ─── Per-contact serialization ──────────────────────────────────
+const sessionLocks = new Map<string, Promise<unknown>>();
+
+function withSessionLock<T>(contactId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = sessionLocks.get(contactId) ?? Promise.resolve();
+    const run = previous.catch(() => { }).then(fn);
+    sessionLocks.set(contactId, run);
+    const cleanup = () => {
+        if (sessionLocks.get(contactId) === run) sessionLocks.delete(contactId);
+    };
+    run.then(cleanup, cleanup);
+    return run;
+}
+
+// ─── KDFs ───────────────────────────────────────────────────────
+function dh(secretKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+    const out = nacl.scalarMult(secretKey, publicKey);
+    if (out.every(b => b === 0)) throw new Error('Invalid DH public key');
+    return out;
+}
+
+function kdfRoot(rootKey: Uint8Array, dhOut: Uint8Array): [Uint8Array, Uint8Array] {
+    const okm = hkdfSha256(dhOut, rootKey, 'ghost:ratchet:root', 64);
+    return [okm.slice(0, 32), okm.slice(32)];
+}
+
+function kdfChain(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+    const messageKey = hmacSha256(chainKey, new Uint8Array([0x01]));
+    const nextChainKey = hmacSha256(chainKey, new Uint8Array([0x02]));
+    return [nextChainKey, messageKey];
+}
+
+function messageBoxKeys(messageKey: Uint8Array, ad: Uint8Array): { key: Uint8Array; nonce: Uint8Array } {
+    const okm = hkdfSha256(messageKey, null, 'ghost:ratchet:msg', 32 + nacl.secretbox.nonceLength);
+    return { key: hmacSha256(okm.slice(0, 32), ad), nonce: okm.slice(32) };
+}
+
+function initialSecret(parts: Uint8Array[]): Uint8Array {
+    // 0xFF prefix as in X3DH, so the input can never be a valid X25519 output on its own
+    return hkdfSha256(concatBytes(new Uint8Array(32).fill(0xff), ...parts), null, 'ghost:ratchet:init', 32);
+}
+
+// ─── Frame encoding ─────────────────────────────────────────────
+function sealInit(init: RatchetInit, recipientKey: Uint8Array): Uint8Array {
+    const prekeyIds = new Uint8Array(8);
+    const idView = new DataView(prekeyIds.buffer);
+    idView.setUint32(0, init.signedPreKeyId);
+    idView.setUint32(4, init.oneTimePreKeyId);
+
+    const ephemeral = nacl.box.keyPair();
+    const nonce = nacl.randomBytes(nacl.box.nonceLength);
+    const box = nacl.box(concatBytes(init.identityKey, init.baseKey, prekeyIds), nonce, recipientKey, ephemeral.secretKey);
+    return concatBytes(ephemeral.publicKey, nonce, box);
+}
+
+function openInit(sealed: Uint8Array, identity: nacl.BoxKeyPair): RatchetInit | null {
+    const opened = nacl.box.open(
+        sealed.slice(KEY_LENGTH + nacl.box.nonceLength),
+        sealed.slice(KEY_LENGTH, KEY_LENGTH + nacl.box.nonceLength),
+        sealed.slice(0, KEY_LENGTH),
+        identity.secretKey
+    );
+    if (!opened || opened.length !== INIT_LENGTH) return null;
+
+    const view = new DataView(opened.buffer, opened.byteOffset, opened.byteLength);
+    return {
+        identityKey: opened.slice(0, KEY_LENGTH),
+        baseKey: opened.slice(KEY_LENGTH, 2 * KEY_LENGTH),
+        signedPreKeyId: view.getUint32(2 * KEY_LENGTH),
+        oneTimePreKeyId: view.getUint32(2 * KEY_LENGTH + 4),
+    };
+}
+
+function encodePrefix(sealedInit: Uint8Array | null, header: RatchetHeader): Uint8Array {
+    const head = new Uint8Array(2);
+    head[0] = FRAME_MAGIC;
+    head[1] = sealedInit ? FLAG_INIT : 0;
+
+    const counters = new Uint8Array(8);
+    const view = new DataView(counters.buffer);
+    view.setUint32(0, header.pn);
+    view.setUint32(4, header.n);
+
+    return sealedInit
+        ? concatBytes(head, sealedInit, header.dh, counters)
+        : concatBytes(head, header.dh, counters);
+}
+
+/**
+ * Parse a ratchet frame. Returns null for anything else (legacy box messages, handshakes).
+ */
+export function parseRatchetFrame(data: Uint8Array): RatchetFrame | null {
+    if (data.length < 2 || data[0] !== FRAME_MAGIC || (data[1] & ~FLAG_INIT) !== 0) return null;
+    const isInit = (data[1] & FLAG_INIT) !== 0;
+    const prefixLength = 2 + (isInit ? SEALED_INIT_LENGTH : 0) + HEADER_LENGTH;
+    if (data.length < prefixLength + nacl.secretbox.overheadLength) return null;
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const offset = 2 + (isInit ? SEALED_INIT_LENGTH : 0);
+
+    const header: RatchetHeader = {
+        dh: data.slice(offset, offset + KEY_LENGTH),
+        pn: view.getUint32(offset + KEY_LENGTH),
+        n: view.getUint32(offset + KEY_LENGTH + 4),
+    };
+
+    return {
+        sealedInit: isInit ? data.slice(2, offset) : null,
+        header,
+        ad: data.slice(0, prefixLength),
+        ciphertext: data.slice(prefixLength),
+    };
+}
+
+// ─── Session state ──────────────────────────────────────────────
+async function loadSession(contactId: string): Promise<SessionState | null> {
+    const json = await secureGet(SESSION_PREFIX + contactId);
+    if (!json) return null;
+    try {
+        const state = JSON.parse(json);
+        return state && state.v === 1 ? state : null;
+    } catch {
+        return null;
+    }
+}
+
+async function saveSession(contactId: string, state: SessionState): Promise<void> {
+    await secureSet(SESSION_PREFIX + contactId, JSON.stringify(state));
+}
+
+/**
+ * Forget the ratchet session with a contact (contact deleted, keys changed)
+ */
+export async function deleteSession(contactId: string): Promise<void> {
+    await withSessionLock(contactId, () => secureClear(SESSION_PREFIX + contactId));
+}
+
+/**
+ * Keep the ratchet session of a contact whose ID changed but not its key (ID format migration).
+ * An existing session under the new ID is left alone.
+ */
+export async function moveSession(fromId: string, toId: string): Promise<void> {
+    await withSessionLock(fromId, () => withSessionLock(toId, async () => {
+        const json = await secureGet(SESSION_PREFIX + fromId);
+        if (!json) return;
+        if (!(await secureGet(SESSION_PREFIX + toId))) await secureSet(SESSION_PREFIX + toId, json);
+        await secureClear(SESSION_PREFIX + fromId);
+    }));
+}
+
+async function loadIdentityKeyPair(): Promise<nacl.BoxKeyPair> {
+    const secretKey = await getBoxSecretKey();
+    if (!secretKey) throw new Error('Identity not loaded');
+    return nacl.box.keyPair.fromSecretKey(secretKey);
+}
+
+function serializeKeyPair(kp: nacl.BoxKeyPair) {
+    return { publicKey: bytesToHex(kp.publicKey), secretKey: bytesToHex(kp.secretKey) };
+}
+
+/**
+ * Fetch and check the peer's prekey bundle. The signed prekey is only as trustworthy as the
+ * signing key the relay returns, but the identity key comes from the contact list and is
+ * always mixed in, so a forged bundle costs forward secrecy, never confidentiality.
+ */
+async function fetchPreKeyBundle(peer: RatchetPeer): Promise<PreKeyBundle | null> {
+    try {
+        const serverURL = await getServerURL();
+        const res = await authFetch(`${serverURL}/prekeys/${peer.id}`, { method: 'GET' });
+        if (!res.ok) return null;
+        const bundle: PreKeyBundle = await res.json();
+        if (typeof bundle.identityKey !== 'string' || bundle.identityKey.toLowerCase() !== peer.key.toLowerCase() ||
+            !verifyPreKeyBundle(bundle)) {
+            console.warn(`[RATCHET] Rejected prekey bundle for ${peer.id}`);
+            return null;
+        }
+        return bundle;
+    } catch {
+        return null;
+    }
+}
+
+function initiateSession(identity: nacl.BoxKeyPair, peerKey: Uint8Array, bundle: PreKeyBundle | null): SessionState {
+    const signedPreKey = bundle ? hexToBytes(bundle.signedPreKey.key) : peerKey;
+    const oneTimePreKey = bundle?.oneTimePreKey ? hexToBytes(bundle.oneTimePreKey.key) : null;
+
+    const base = nacl.box.keyPair();
+    const parts = [
+        dh(identity.secretKey, signedPreKey),
+        dh(base.secretKey, peerKey),
+        dh(base.secretKey, signedPreKey),
+    ];
+    if (oneTimePreKey) parts.push(dh(base.secretKey, oneTimePreKey));
+    const secret = initialSecret(parts);
+
+    // The peer's signed prekey plays the role of its first ratchet key
+    const ratchet = nacl.box.keyPair();
+    const [rootKey, sendChain] = kdfRoot(secret, dh(ratchet.secretKey, signedPreKey));
+
+    return {
+        v: 1,
+        rootKey: bytesToHex(rootKey),
+        dhSelf: serializeKeyPair(ratchet),
+        dhRemote: bytesToHex(signedPreKey),
+        sendChain: bytesToHex(sendChain),
+        sendN: 0,
+        prevSendN: 0,
+        recvChain: null,
+        recvN: 0,
+        skipped: {},
+        pendingInit: {
+            baseKey: bytesToHex(base.publicKey),
+            signedPreKeyId: bundle ? bundle.signedPreKey.id : NO_PREKEY_ID,
+            oneTimePreKeyId: bundle?.oneTimePreKey ? bundle.oneTimePreKey.id : NO_PREKEY_ID,
+        },
+        remoteBaseKey: null,
+        throwawayBaseKeys: [],
+    };
+}
+
+/**
+ * Build the responder side of a session. Returns null if the referenced prekeys are gone.
+ */
+async function respondToInit(identity: nacl.BoxKeyPair, init: RatchetInit): Promise<SessionState | null> {
+    const identityHex = bytesToHex(identity.publicKey);
+    const signedPreKey = init.signedPreKeyId === NO_PREKEY_ID
+        ? identity
+        : await getSignedPreKeyPair(identityHex, init.signedPreKeyId);
+    if (!signedPreKey) return null;
+
+    let oneTimePreKey: nacl.BoxKeyPair | null = null;
+    if (init.oneTimePreKeyId !== NO_PREKEY_ID) {
+        oneTimePreKey = await getOneTimePreKeyPair(identityHex, init.oneTimePreKeyId);
+        if (!oneTimePreKey) return null;
+    }
+
+    const parts = [
+        dh(signedPreKey.secretKey, init.identityKey),
+        dh(identity.secretKey, init.baseKey),
+        dh(signedPreKey.secretKey, init.baseKey),
+    ];
+    if (oneTimePreKey) parts.push(dh(oneTimePreKey.secretKey, init.baseKey));
+    const secret = initialSecret(parts);
+
+    return {
+        v: 1,
+        rootKey: bytesToHex(secret),
+        dhSelf: serializeKeyPair(signedPreKey),
+        dhRemote: null,
+        sendChain: null,
+        sendN: 0,
+        prevSendN: 0,
+        recvChain: null,
+        recvN: 0,
+        skipped: {},
+        pendingInit: null,
+        remoteBaseKey: bytesToHex(init.baseKey),
+        throwawayBaseKeys: [],
+    };
+}
+
+function skipMessageKeys(state: SessionState, until: number) {
+    if (!state.recvChain || !state.dhRemote) return;
+    if (until - state.recvN > MAX_SKIP) throw new Error('Too many skipped messages');
+
+    let chain: Uint8Array = hexToBytes(state.recvChain);
+    while (state.recvN < until) {
+        const [next, messageKey] = kdfChain(chain);
+        state.skipped[`${state.dhRemote}:${state.recvN}`] = bytesToHex(messageKey);
+        chain = next;
+        state.recvN++;
+    }
+    state.recvChain = bytesToHex(chain);
+
+    const keys = Object.keys(state.skipped);
+    for (let i = 0; i < keys.length - MAX_STORED_SKIPPED; i++) delete state.skipped[keys[i]];
+}
+
+function dhRatchetStep(state: SessionState, remoteKey: Uint8Array) {
+    state.prevSendN = state.sendN;
+    state.sendN = 0;
+    state.recvN = 0;
+    state.dhRemote = bytesToHex(remoteKey);
+
+    const [rootKey, recvChain] = kdfRoot(hexToBytes(state.rootKey), dh(hexToBytes(state.dhSelf.secretKey), remoteKey));
+    const ratchet = nacl.box.keyPair();
+    const [nextRootKey, sendChain] = kdfRoot(rootKey, dh(ratchet.secretKey, remoteKey));
+
+    state.dhSelf = serializeKeyPair(ratchet);
+    state.rootKey = bytesToHex(nextRootKey);
+    state.recvChain = bytesToHex(recvChain);
+    state.sendChain = bytesToHex(sendChain);
+}
+
+function openWithMessageKey(messageKey: Uint8Array, frame: RatchetFrame): Uint8Array | null {
+    const { key, nonce } = messageBoxKeys(messageKey, frame.ad);
+    return nacl.secretbox.open(frame.ciphertext, nonce, key);
+}
+
+/**
+ * Decrypt against a state copy; the caller persists it only on success. The message key
+ * stays among the skipped ones until the caller commits the message (DecryptedFrame).
+ */
+function ratchetDecrypt(state: SessionState, frame: RatchetFrame): Uint8Array | null {
+    const dhHex = bytesToHex(frame.header.dh);
+
+    const skippedId = `${dhHex}:${frame.header.n}`;
+    const skippedKey = state.skipped[skippedId];
+    if (skippedKey) return openWithMessageKey(hexToBytes(skippedKey), frame);
+
+    if (state.dhRemote !== dhHex) {
+        skipMessageKeys(state, frame.header.pn);
+        dhRatchetStep(state, frame.header.dh);
+    }
+    skipMessageKeys(state, frame.header.n + 1);
+    const messageKey = state.skipped[skippedId];
+    return messageKey ? openWithMessageKey(hexToBytes(messageKey), frame) : null;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+}
+
+// ─── Public API ─────────────────────────────────────────────────
+
+/**
+ * Encrypt a payload for a contact, creating the session on first use.
+ * Returns the base64 frame, behind our routing tag, to post to /send.
+ */
+export async function encryptForContact(peer: RatchetPeer, plaintext: Uint8Array): Promise<string> {
+    return withSessionLock(peer.id, async () => {
+        const identity = await loadIdentityKeyPair();
+        const state = (await loadSession(peer.id)) ??
+            initiateSession(identity, hexToBytes(peer.key), await fetchPreKeyBundle(peer));
+        if (!state.sendChain) throw new Error('Session cannot send yet');
+
+        const [nextChain, messageKey] = kdfChain(hexToBytes(state.sendChain));
+        const sealedInit = state.pendingInit
+            ? sealInit({
+                identityKey: identity.publicKey,
+                baseKey: hexToBytes(state.pendingInit.baseKey),
+                signedPreKeyId: state.pendingInit.signedPreKeyId,
+                oneTimePreKeyId: state.pendingInit.oneTimePreKeyId,
+            }, hexToBytes(peer.key))
+            : null;
+        const header = { dh: hexToBytes(state.dhSelf.publicKey), pn: state.prevSendN, n: state.sendN };
+        const ad = encodePrefix(sealedInit, header);
+
+        const { key, nonce } = messageBoxKeys(messageKey, ad);
+        const ciphertext = nacl.secretbox(plaintext, nonce, key);
+
+        state.sendChain = bytesToHex(nextChain);
+        state.sendN++;
+        await saveSession(peer.id, state);
+
+        const routed = await wrapWithRoutingTag(peer.key, concatBytes(ad, ciphertext));
+        return encodeBase64(uint8ArrayToString(routed));
+    });
+}
+
+/**
+ * Decrypt a frame from a known contact. Returns null (and leaves the session untouched)
+ * if the frame does not belong to this contact or fails authentication.
+ */
+export async function decryptFromContact(peer: RatchetPeer, frame: RatchetFrame): Promise<DecryptedFrame | null> {
+    return withSessionLock(peer.id, async () => {
+        const identity = await loadIdentityKeyPair();
+        const stored = await loadSession(peer.id);
+
+        let state: SessionState;
+        let throwaway = false;
+        try {
+            const init = frame.sealedInit ? openInit(frame.sealedInit, identity) : null;
+            if (frame.sealedInit && !init) return null;
+
+            if (init) {
+                const peerKey = hexToBytes(peer.key);
+                if (!constantTimeEqual(init.identityKey, peerKey)) return null;
+                const baseHex = bytesToHex(init.baseKey);
+
+                if (stored && stored.remoteBaseKey === baseHex) {
+                    state = JSON.parse(JSON.stringify(stored));
+                } else {
+                    // Both sides initiated at once: the lower identity key keeps its own session,
+                    // the peer's init messages are only read through a temporary one.
+                    throwaway = !!stored && (stored.throwawayBaseKeys.includes(baseHex) ||
+                        (!!stored.pendingInit && compareBytes(identity.publicKey, peerKey) < 0));
+                    const responder = await respondToInit(identity, init);
+                    if (!responder) return null;
+                    state = responder;
+                }
+            } else {
+                if (!stored) return null;
+                state = JSON.parse(JSON.stringify(stored));
+            }
+
+            const plaintext = ratchetDecrypt(state, frame);
+            if (!plaintext) return null;
+            const commit = () => forgetMessageKey(peer.id, frame);
+
+            if (throwaway && stored) {
+                const baseHex = bytesToHex(init!.baseKey);
+                if (!stored.throwawayBaseKeys.includes(baseHex)) {
+                    stored.throwawayBaseKeys = [...stored.throwawayBaseKeys, baseHex].slice(-MAX_THROWAWAY_BASES);
+                    await saveSession(peer.id, stored);
+                }
+                // The temporary session is rebuilt from the init block on every delivery
+                return { plaintext, commit: async () => { } };
+            } else {
+                // Any answer inside the session means the peer has it: stop repeating the init block
+                if (!init) state.pendingInit = null;
+                await saveSession(peer.id, state);
+                if (init && init.oneTimePreKeyId !== NO_PREKEY_ID) {
+                    await removeOneTimePreKey(bytesToHex(identity.publicKey), init.oneTimePreKeyId);
+                }
+            }
+            return { plaintext, commit };
+        } catch (e) {
+            console.warn(`[RATCHET] Failed to decrypt frame from ${peer.id}`, e);
+            return null;
+        }
+    });
+}
+
+function forgetMessageKey(contactId: string, frame: RatchetFrame): Promise<void> {
+    return withSessionLock(contactId, async () => {
+        const state = await loadSession(contactId);
+        const skippedId = `${bytesToHex(frame.header.dh)}:${frame.header.n}`;
+        if (!state || !(skippedId in state.skipped)) return;
+        delete state.skipped[skippedId];
+        await saveSession(contactId, state);
+    });
+}
+
+/**
+ * Find which contact a frame comes from and decrypt it.
+ * Init frames carry the sender identity key, sealed to ours; other frames are matched on
+ * the session's current remote ratchet key first, then tried against every session.
+ */
+export async function decryptFromAnyContact<T extends RatchetPeer>(
+    frame: RatchetFrame,
+    contacts: T[]
+): Promise<(DecryptedFrame & { peer: T }) | null> {
+    if (frame.sealedInit) {
+        const init = openInit(frame.sealedInit, await loadIdentityKeyPair());
+        if (!init) return null;
+        const identityHex = bytesToHex(init.identityKey);
+        const peer = contacts.find(c => c.key && c.key.toLowerCase() === identityHex);
+        if (!peer) return null;
+        const decrypted = await decryptFromContact(peer, frame);
+        return decrypted ? { ...decrypted, peer } : null;
+    }
+
+    const dhHex = bytesToHex(frame.header.dh);
+    const likely: T[] = [];
+    const others: T[] = [];
+    for (const contact of contacts) {
+        const state = await loadSession(contact.id);
+        if (!state) continue;
+        const known = state.dhRemote === dhHex || `${dhHex}:${frame.header.n}` in state.skipped;
+        (known ? likely : others).push(contact);
+    }
+
+    for (const peer of [...likely, ...others]) {
+        const decrypted = await decryptFromContact(peer, frame);
+        if (decrypted) return { ...decrypted, peer };
+    }
+    return null;
+}
@@ -0,0 +1,90 @@
+import nacl from '@/components/CryptoPolyfill';
+import { RECOVERY_WORDS } from '@/constants/RecoveryWords';
+import { sha256 } from '@/utils/CryptoPrimitives';
+import { getMasterSecret } from '@/utils/MasterKey';
+import { decode as decodeBase64 } from 'base-64';
+
+/**
+ * Recovery phrase: the identity secret key as 24 words, BIP39-style.
+ *
+ * The 256-bit box secret key is followed by the first 8 bits of its SHA-256 and the 264 bits
+ * are cut into 24 groups of 11, each one a word of RECOVERY_WORDS. The checksum rejects
+ * almost every mistyped or swapped word. Everything else (ID, signing keypair, storage key)
+ * derives from the secret key, so the phrase alone restores the identity.
+ */
+
+export const RECOVERY_PHRASE_LENGTH = 24;
+const WORD_BITS = 11;
+
+const stringToUint8Array = (str: string) => {
+    const arr = new Uint8Array(str.length);
+    for (let i = 0; i < str.length; i++) arr[i] = str.charCodeAt(i) & 0xFF;
+    return arr;
+};
+
+const WORD_INDEX = new Map(RECOVERY_WORDS.map((word, i) => [word, i]));
+// Words can be typed by their first four letters, which are unique
+const PREFIX_INDEX = new Map(RECOVERY_WORDS.map((word, i) => [word.substring(0, 4), i]));
+
+function getBit(bytes: Uint8Array, bit: number): number {
+    return (bytes[bit >> 3] >> (7 - (bit & 7))) & 1;
+}
+
+export function encodeRecoveryPhrase(secretKey: Uint8Array): string[] {
+    if (secretKey.length !== nacl.box.secretKeyLength) throw new Error('Invalid secret key');
+    const bytes = new Uint8Array(secretKey.length + 1);
+    bytes.set(secretKey);
+    bytes[secretKey.length] = sha256(secretKey)[0];
+
+    const words: string[] = [];
+    for (let w = 0; w < RECOVERY_PHRASE_LENGTH; w++) {
+        let index = 0;
+        for (let b = 0; b < WORD_BITS; b++) index = (index << 1) | getBit(bytes, w * WORD_BITS + b);
+        words.push(RECOVERY_WORDS[index]);
+    }
+    return words;
+}
+
+/**
+ * Split typed text into words (any spacing or case, optional numbering)
+ */
+export function splitRecoveryPhrase(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z]+/).filter(word => word.length > 0);
+}
+
+/**
+ * Secret key of a phrase, or null if a word is unknown, the count is wrong or the checksum fails
+ */
+export function decodeRecoveryPhrase(words: string[]): Uint8Array | null {
+    if (words.length !== RECOVERY_PHRASE_LENGTH) return null;
+
+    const bytes = new Uint8Array(nacl.box.secretKeyLength + 1);
+    let bit = 0;
+    for (const word of words) {
+        const index = WORD_INDEX.get(word) ?? (word.length >= 4 ? PREFIX_INDEX.get(word.substring(0, 4)) : undefined);
+        if (index === undefined) return null;
+        for (let b = WORD_BITS - 1; b >= 0; b--, bit++) {
+            if ((index >> b) & 1) bytes[bit >> 3] |= 0x80 >> (bit & 7);
+        }
+    }
+
+    const secretKey = bytes.slice(0, nacl.box.secretKeyLength);
+    if (sha256(secretKey)[0] !== bytes[nacl.box.secretKeyLength]) return null;
+    return secretKey;
+}
+
+/**
+ * Words that are not in the list, to point them out while the user types
+ */
+export function findUnknownWords(words: string[]): string[] {
+    return words.filter(word => !WORD_INDEX.has(word) && !(word.length >= 4 && PREFIX_INDEX.has(word.substring(0, 4))));
+}
+
+/**
+ * Phrase of the current identity. Null while the app is locked or before onboarding.
+ */
+export async function getRecoveryPhrase(): Promise<string[] | null> {
+    const secret = await getMasterSecret();
+    if (!secret) return null;
+    return encodeRecoveryPhrase(stringToUint8Array(decodeBase64(secret)));
+}
@@ -0,0 +1,118 @@
+import { secureClear, secureGet, secureSet, secureTransaction } from '@/utils/SecureStorage';
+import { isValidUserId } from '@/utils/UserId';
+
+/**
+ * Social recovery state (see SocialRecovery): the shares contacts entrusted to us, and which
+ * contacts hold shares of our own identity key.
+ */
+
+export interface HeldShare {
+    owner: string;
+    set: string;
+    threshold: number;
+    x: number;
+    share: string;
+    receivedAt: number;
+}
+
+export interface RecoveryHolder {
+    id: string;
+    name: string;
+}
+
+export interface RecoverySetup {
+    set: string;
+    threshold: number;
+    holders: RecoveryHolder[];
+    createdAt: number;
+}
+
+const HELD_SHARES_KEY = "recovery_held_shares_v1";
+const RECOVERY_SETUP_KEY = "recovery_setup_v1";
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isRecoveryHolder = (value: unknown): value is RecoveryHolder =>
+    isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string';
+
+function parseHeldShare(value: unknown): HeldShare | null {
+    if (!isRecord(value) || typeof value.owner !== 'string' || !isValidUserId(value.owner)) return null;
+    if (typeof value.set !== 'string' || typeof value.share !== 'string') return null;
+    if (typeof value.threshold !== 'number' || typeof value.x !== 'number') return null;
+    return {
+        owner: value.owner,
+        set: value.set,
+        threshold: value.threshold,
+        x: value.x,
+        share: value.share,
+        receivedAt: typeof value.receivedAt === 'number' ? value.receivedAt : 0,
+    };
+}
+
+async function readHeldShares(): Promise<Record<string, HeldShare>> {
+    return parseHeldShares(await secureGet(HELD_SHARES_KEY));
+}
+
+function parseHeldShares(json: string | null): Record<string, HeldShare> {
+    const stored = json ? JSON.parse(json) : {};
+    const shares: Record<string, HeldShare> = {};
+    for (const value of Object.values(stored && typeof stored === 'object' ? stored : {})) {
+        const share = parseHeldShare(value);
+        if (share) shares[share.owner] = share;
+    }
+    return shares;
+}
+
+function updateHeldShares(update: (shares: Record<string, HeldShare>) => void): Promise<void> {
+    return secureTransaction([HELD_SHARES_KEY], async tx => {
+        const shares = parseHeldShares(await tx.get(HELD_SHARES_KEY));
+        update(shares);
+        tx.set(HELD_SHARES_KEY, JSON.stringify(shares));
+    });
+}
+
+/**
+ * Share of `owner`'s identity key we hold, if any
+ */
+export async function getHeldShare(owner: string): Promise<HeldShare | null> {
+    try {
+        return (await readHeldShares())[owner] ?? null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Keep a share, in place of an older one from the same owner (a new split replaces the last)
+ */
+export async function saveHeldShare(share: HeldShare): Promise<void> {
+    await updateHeldShares(shares => { shares[share.owner] = share; });
+}
+
+export async function removeHeldShare(owner: string): Promise<void> {
+    await updateHeldShares(shares => { delete shares[owner]; });
+}
+
+export async function getRecoverySetup(): Promise<RecoverySetup | null> {
+    try {
+        const json = await secureGet(RECOVERY_SETUP_KEY);
+        const setup = json ? JSON.parse(json) : null;
+        if (!setup || typeof setup.set !== 'string' || typeof setup.threshold !== 'number' || !Array.isArray(setup.holders)) return null;
+        return {
+            set: setup.set,
+            threshold: setup.threshold,
+            holders: setup.holders.filter(isRecoveryHolder),
+            createdAt: typeof setup.createdAt === 'number' ? setup.createdAt : 0,
+        };
+    } catch {
+        return null;
+    }
+}
+
+export async function saveRecoverySetup(setup: RecoverySetup): Promise<void> {
+    await secureSet(RECOVERY_SETUP_KEY, JSON.stringify(setup));
+}
+
+export async function clearRecoverySetup(): Promise<void> {
+    await secureClear(RECOVERY_SETUP_KEY);
+}
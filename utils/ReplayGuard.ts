@@ -0,0 +1,95 @@
+import { Envelope } from '@/utils/Envelope';
+import { SecureTransaction, secureTransaction } from '@/utils/SecureStorage';
+
+/**
+ * Persistent record of the envelopes already processed, per sender, so a replayed
+ * ciphertext cannot delete a contact or mark messages read a second time.
+ *
+ * Each sender keeps its last MAX_SEEN_PER_SENDER message IDs. Older IDs are dropped and
+ * their `sentAt` becomes the sender's floor: anything sent at or before it counts as stale.
+ */
+
+const REPLAY_STORE_KEY = "replay_guard_v1";
+
+// Same as the relay retention: nothing older can still be waiting for us
+export const MAX_ENVELOPE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_SEEN_PER_SENDER = 500;
+
+interface SenderRecord {
+    floor: number;
+    seen: Record<string, number>;
+}
+
+interface ReplayStore {
+    v: 1;
+    senders: Record<string, SenderRecord>;
+}
+
+let cachedStore: ReplayStore | null = null;
+
+async function loadStore(tx: SecureTransaction): Promise<ReplayStore> {
+    if (cachedStore) return cachedStore;
+    try {
+        const json = await tx.get(REPLAY_STORE_KEY);
+        const store = json ? JSON.parse(json) : null;
+        cachedStore = store && store.v === 1 ? store : { v: 1, senders: {} };
+    } catch {
+        cachedStore = { v: 1, senders: {} };
+    }
+    return cachedStore!;
+}
+
+function prune(record: SenderRecord, now: number) {
+    const ids = Object.keys(record.seen).sort((a, b) => record.seen[a] - record.seen[b]);
+    for (const id of ids) {
+        if (record.seen[id] < now - MAX_ENVELOPE_AGE_MS) {
+            // Already stale by age, no need to raise the floor
+            delete record.seen[id];
+        }
+    }
+    const remaining = ids.filter(id => id in record.seen);
+    for (const id of remaining.slice(0, Math.max(0, remaining.length - MAX_SEEN_PER_SENDER))) {
+        record.floor = Math.max(record.floor, record.seen[id]);
+        delete record.seen[id];
+    }
+}
+
+/**
+ * Run `apply` for an envelope from `senderId` not seen yet, and remember it once `apply` has
+ * succeeded: if it throws, the envelope is not recorded and the error propagates. Returns
+ * false, without running `apply`, for duplicates, stale envelopes and legacy control signals,
+ * which have no ID to deduplicate on.
+ */
+export async function acceptEnvelopeOnce(senderId: string, envelope: Envelope, apply: () => Promise<void>): Promise<boolean> {
+    if (!envelope.messageId || envelope.sentAt === undefined) {
+        if (envelope.type !== 'text' && envelope.type !== 'media') return false;
+        await apply();
+        return true;
+    }
+    const { messageId, sentAt } = envelope;
+
+    return secureTransaction([REPLAY_STORE_KEY], async tx => {
+        if (sentAt < Date.now() - MAX_ENVELOPE_AGE_MS) return false;
+
+        const store = await loadStore(tx);
+        const seen = store.senders[senderId];
+        if (seen && (sentAt <= seen.floor || messageId in seen.seen)) return false;
+
+        await apply();
+
+        const now = Date.now();
+        const record = store.senders[senderId] ?? { floor: 0, seen: {} };
+        record.seen[messageId] = sentAt;
+        prune(record, now);
+        store.senders[senderId] = record;
+        tx.set(REPLAY_STORE_KEY, JSON.stringify(store));
+        return true;
+    });
+}
+
+/**
+ * Drop the in-memory copy (call on logout/account deletion)
+ */
+export function clearReplayGuardCache() {
+    cachedStore = null;
+}
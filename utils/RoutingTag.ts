@@ -0,0 +1,94 @@
+import nacl from '@/components/CryptoPolyfill';
+import { getBoxSecretKey } from '@/utils/AuthHelper';
+import { bytesToHex, concatBytes, hexToBytes, hmacSha256, utf8Encode } from '@/utils/CryptoPrimitives';
+
+/**
+ * Sender routing tags.
+ *
+ * Outgoing frames are wrapped as [0xD2][TAG(16)][frame]. The tag is an HMAC, keyed with the
+ * static DH secret of the pair, over the current hour and the sender key: only the two
+ * contacts can compute it, it changes every epoch, and the receiver finds the sender with a
+ * table lookup instead of trial-decrypting against every contact.
+ */
+
+export const ROUTED_MAGIC = 0xd2;
+export const ROUTING_TAG_LENGTH = 16;
+export const ROUTING_EPOCH_MS = 60 * 60 * 1000;
+
+// Pair secrets by "myPk:peerPk" (one scalar multiplication per contact, not per message)
+const pairKeyCache = new Map<string, Uint8Array>();
+// Tag -> contact key for the epochs around `indexEpoch`
+let tagIndex = new Map<string, string>();
+let indexEpoch = -1;
+let indexContacts = '';
+
+const currentEpoch = () => Math.floor(Date.now() / ROUTING_EPOCH_MS);
+
+function pairKey(mySecretKey: Uint8Array, myPublicHex: string, peerKeyHex: string): Uint8Array {
+    const cacheKey = `${myPublicHex}:${peerKeyHex}`;
+    let key = pairKeyCache.get(cacheKey);
+    if (!key) {
+        key = hmacSha256(nacl.box.before(hexToBytes(peerKeyHex), mySecretKey), utf8Encode('ghost:routing:v1'));
+        pairKeyCache.set(cacheKey, key);
+    }
+    return key;
+}
+
+function routingTag(key: Uint8Array, epoch: number, senderKeyHex: string): Uint8Array {
+    return hmacSha256(key, utf8Encode(`${epoch}:${senderKeyHex}`)).slice(0, ROUTING_TAG_LENGTH);
+}
+
+/**
+ * Prefix a frame for `peerKeyHex` with our routing tag for the current epoch
+ */
+export async function wrapWithRoutingTag(peerKeyHex: string, frame: Uint8Array): Promise<Uint8Array> {
+    const secretKey = await getBoxSecretKey();
+    if (!secretKey) throw new Error('Identity not loaded');
+    const myPublicHex = bytesToHex(nacl.box.keyPair.fromSecretKey(secretKey).publicKey);
+
+    const tag = routingTag(pairKey(secretKey, myPublicHex, peerKeyHex.toLowerCase()), currentEpoch(), myPublicHex);
+    return concatBytes(new Uint8Array([ROUTED_MAGIC]), tag, frame);
+}
+
+/**
+ * Split a routed message. Returns null for anything without the routing prefix.
+ */
+export function parseRoutedMessage(data: Uint8Array): { tag: Uint8Array; inner: Uint8Array } | null {
+    if (data.length <= 1 + ROUTING_TAG_LENGTH || data[0] !== ROUTED_MAGIC) return null;
+    return {
+        tag: data.slice(1, 1 + ROUTING_TAG_LENGTH),
+        inner: data.slice(1 + ROUTING_TAG_LENGTH),
+    };
+}
+
+/**
+ * Find which contact a tag belongs to. The index covers the previous, current and next
+ * epoch (clock skew, messages queued across the hour) and is rebuilt when they change; older
+ * tags are not found and the caller falls back to trial decryption.
+ */
+export async function findContactByRoutingTag<T extends { key: string }>(tag: Uint8Array, contacts: T[]): Promise<T | null> {
+    const secretKey = await getBoxSecretKey();
+    if (!secretKey) return null;
+    const myPublicHex = bytesToHex(nacl.box.keyPair.fromSecretKey(secretKey).publicKey);
+
+    const epoch = currentEpoch();
+    const fingerprint = myPublicHex + contacts.map(c => c.key).join(',');
+    if (epoch !== indexEpoch || fingerprint !== indexContacts) {
+        const index = new Map<string, string>();
+        for (const contact of contacts) {
+            if (!contact.key || !/^[a-f0-9]{64}$/i.test(contact.key)) continue;
+            const peerKeyHex = contact.key.toLowerCase();
+            const key = pairKey(secretKey, myPublicHex, peerKeyHex);
+            for (const e of [epoch - 1, epoch, epoch + 1]) {
+                index.set(bytesToHex(routingTag(key, e, peerKeyHex)), peerKeyHex);
+            }
+        }
+        tagIndex = index;
+        indexEpoch = epoch;
+        indexContacts = fingerprint;
+    }
+
+    const peerKeyHex = tagIndex.get(bytesToHex(tag));
+    if (!peerKeyHex) return null;
+    return contacts.find(c => c.key.toLowerCase() === peerKeyHex) ?? null;
+}
@@ -0,0 +1,72 @@
+import { concatBytes, hexToBytes, sha256, utf8Encode } from '@/utils/CryptoPrimitives';
+
+/**
+ * Safety numbers: 60 digits over both identity keys and IDs, identical on both sides.
+ *
+ * Each party gets a 30-digit fingerprint of its own key and ID (iterated SHA-256, so
+ * grinding a key that collides with a given fingerprint is expensive). The two halves are
+ * sorted, so both phones show the same number and the QR code of one can be checked by the
+ * other.
+ */
+
+const FINGERPRINT_VERSION = 0;
+const FINGERPRINT_ITERATIONS = 5200;
+const QR_TYPE = 'safety_number';
+
+export interface SafetyParty {
+    id: string;
+    key: string;
+}
+
+function fingerprint(party: SafetyParty): string {
+    const key = hexToBytes(party.key.toLowerCase());
+    let hash = sha256(concatBytes(new Uint8Array([0, FINGERPRINT_VERSION]), key, utf8Encode(party.id.toUpperCase())));
+    const input = new Uint8Array(hash.length + key.length);
+    input.set(key, hash.length);
+    for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+        input.set(hash);
+        hash = sha256(input);
+    }
+
+    // Six 5-byte chunks, each reduced to 5 digits
+    let digits = '';
+    for (let i = 0; i < 30; i += 5) {
+        const chunk = hash[i] * 2 ** 32 + ((hash[i + 1] << 24) >>> 0) + (hash[i + 2] << 16) + (hash[i + 3] << 8) + hash[i + 4];
+        digits += (chunk % 100000).toString().padStart(5, '0');
+    }
+    return digits;
+}
+
+/**
+ * The 60-digit safety number of a conversation (digits only, no spacing)
+ */
+export function computeSafetyNumber(local: SafetyParty, remote: SafetyParty): string {
+    return [fingerprint(local), fingerprint(remote)].sort().join('');
+}
+
+/**
+ * Groups of 5 digits, 4 groups per line
+ */
+export function formatSafetyNumber(number: string): string {
+    const groups = number.match(/.{1,5}/g) || [];
+    const lines: string[] = [];
+    for (let i = 0; i < groups.length; i += 4) lines.push(groups.slice(i, i + 4).join(' '));
+    return lines.join('\n');
+}
+
+export function encodeSafetyQr(number: string): string {
+    return JSON.stringify({ type: QR_TYPE, v: 1, number });
+}
+
+/**
+ * The safety number in a scanned QR code, or null if it is not a safety number code
+ */
+export function decodeSafetyQr(data: string): string | null {
+    try {
+        const parsed = JSON.parse(data);
+        if (parsed?.type !== QR_TYPE || parsed.v !== 1) return null;
+        return typeof parsed.number === 'string' && /^\d{60}$/.test(parsed.number) ? parsed.number : null;
+    } catch {
+        return null;
+    }
+}
@@ -1,10 +1,14 @@
 import nacl from '@/components/CryptoPolyfill';
+import { getMasterSecret, keyInOpenVault, vaultKey } from '@/utils/MasterKey';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { decode as decodeBase64, encode as encodeBase64 } from 'base-64';
 import * as Crypto from 'expo-crypto';
 import * as SecureStore from 'expo-secure-store';
 
-const STORAGE_KEY = "my_permanent_secret_key_v1";
+// Identity replaced by a key rotation, until reencryptSecureStorage has finished
+const PREVIOUS_STORAGE_KEY = "my_previous_secret_key_v1";
+// Transactions being committed: one journal per transaction, removed once applied
+const JOURNAL_PREFIX = "secure_journal_";
 
 const stringToUint8Array = (str: string) => {
     const arr = new Uint8Array(str.length);
@@ -18,20 +22,20 @@ const uint8ArrayToString = (arr: Uint8Array) => {
 };
 const fromHex = (hex: string) =>
     new Uint8Array(hex.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16)));
+const toHex = (arr: Uint8Array) => Array.from(arr, b => b.toString(16).padStart(2, '0')).join('');
 
-// Cache the derived encryption key
+// Keys are stored under the open vault's name for them (vaultKey): each vault has its own
+// copy of every key, so none ever reads (or discards as corrupted) another's values.
+
+// Cache the derived encryption keys (undefined = previous key not looked up yet)
 let cachedEncKey: Uint8Array | null = null;
+let cachedPreviousEncKey: Uint8Array | null | undefined = undefined;
 
 /**
- * Derive a symmetric encryption key from the user's NaCl secret key.
+ * Derive a symmetric encryption key from a stored NaCl secret key.
  * Uses HKDF-like double SHA256 with domain separation for key derivation.
  */
-async function getEncryptionKey(): Promise<Uint8Array | null> {
-    if (cachedEncKey) return cachedEncKey;
-
-    const stored = await SecureStore.getItemAsync(STORAGE_KEY);
-    if (!stored) return null;
-
+async function deriveEncryptionKey(stored: string): Promise<Uint8Array> {
     // HKDF-like: Extract phase - hash the raw key material
     const extractHex = await Crypto.digestStringAsync(
         Crypto.CryptoDigestAlgorithm.SHA256,
@@ -42,28 +46,56 @@ async function getEncryptionKey(): Promise<Uint8Array | null> {
         Crypto.CryptoDigestAlgorithm.SHA256,
         `ghost:secure_storage:v1:${extractHex}`
     );
-    cachedEncKey = fromHex(expandHex.substring(0, 64)); // 32 bytes
+    return fromHex(expandHex.substring(0, 64)); // 32 bytes
+}
+
+async function getEncryptionKey(): Promise<Uint8Array | null> {
+    if (cachedEncKey) return cachedEncKey;
+
+    const stored = await getMasterSecret();
+    if (!stored) return null;
+
+    cachedEncKey = await deriveEncryptionKey(stored);
     return cachedEncKey;
 }
 
+async function getPreviousEncryptionKey(): Promise<Uint8Array | null> {
+    if (cachedPreviousEncKey !== undefined) return cachedPreviousEncKey;
+
+    const stored = await SecureStore.getItemAsync(vaultKey(PREVIOUS_STORAGE_KEY));
+    cachedPreviousEncKey = stored ? await deriveEncryptionKey(stored) : null;
+    return cachedPreviousEncKey;
+}
+
 /**
  * Clear the cached encryption key (call on logout/account deletion)
  */
 export function clearSecureStorageCache() {
     cachedEncKey = null;
+    cachedPreviousEncKey = undefined;
 }
 
 /**
- * Encrypt and store a value in AsyncStorage.
- * Format stored: base64(nonce[24] + ciphertext)
- * Throws if encryption key is not available - caller must ensure keys exist.
+ * Decrypt a stored value, or null if it was not encrypted with `encKey`
  */
-export async function secureSet(key: string, value: string): Promise<void> {
-    const encKey = await getEncryptionKey();
-    if (!encKey) {
-        throw new Error('Encryption key not available. Ensure identity is created before storing data.');
+function openValue(raw: string, encKey: Uint8Array): string | null {
+    try {
+        const fullMessage = stringToUint8Array(decodeBase64(raw));
+        if (fullMessage.length < nacl.secretbox.nonceLength + nacl.secretbox.overheadLength) return null;
+
+        const nonce = fullMessage.slice(0, nacl.secretbox.nonceLength);
+        const ciphertext = fullMessage.slice(nacl.secretbox.nonceLength);
+        const decrypted = nacl.secretbox.open(ciphertext, nonce, encKey);
+        return decrypted ? uint8ArrayToString(decrypted) : null;
+    } catch {
+        return null;
     }
+}
 
+/**
+ * Encrypt a value for storage. Format: base64(nonce[24] + ciphertext)
+ */
+function sealValue(value: string, encKey: Uint8Array): string {
     const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
     const messageBytes = stringToUint8Array(value);
     const encrypted = nacl.secretbox(messageBytes, nonce, encKey);
@@ -71,9 +103,29 @@ export async function secureSet(key: string, value: string): Promise<void> {
     const fullMessage = new Uint8Array(nonce.length + encrypted.length);
     fullMessage.set(nonce);
     fullMessage.set(encrypted, nonce.length);
+    return encodeBase64(uint8ArrayToString(fullMessage));
+}
+
+async function requireEncryptionKey(): Promise<Uint8Array> {
+    const encKey = await getEncryptionKey();
+    if (!encKey) {
+        throw new Error('Encryption key not available. Ensure identity is created before storing data.');
+    }
+    return encKey;
+}
 
-    const encoded = encodeBase64(uint8ArrayToString(fullMessage));
-    await AsyncStorage.setItem(key, encoded);
+/**
+ * Encrypt and store a value in AsyncStorage.
+ * Throws if encryption key is not available - caller must ensure keys exist.
+ * Takes the key's lock (withKeyLock), so the write never lands inside a transaction on it.
+ * A read-modify-write goes through secureTransaction instead: calling this from inside
+ * withKeyLock or secureTransaction on the same key would wait for itself.
+ */
+export function secureSet(key: string, value: string): Promise<void> {
+    return withKeyLock([key], async () => {
+        const encKey = await requireEncryptionKey();
+        await AsyncStorage.setItem(vaultKey(key), sealValue(value, encKey));
+    });
 }
 
 /**
@@ -82,7 +134,9 @@ export async function secureSet(key: string, value: string): Promise<void> {
  * Legacy plaintext data is auto-migrated on read if encryption key is available.
  */
 export async function secureGet(key: string): Promise<string | null> {
-    const raw = await AsyncStorage.getItem(key);
+    // Never read a value a crashed transaction left half-written
+    await recoverSecureTransactions();
+    const raw = await AsyncStorage.getItem(vaultKey(key));
     if (!raw) return null;
 
     const encKey = await getEncryptionKey();
@@ -91,29 +145,19 @@ export async function secureGet(key: string): Promise<string | null> {
         return null;
     }
 
-    try {
-        const decoded = decodeBase64(raw);
-        const fullMessage = stringToUint8Array(decoded);
-
-        if (fullMessage.length < nacl.secretbox.nonceLength + nacl.secretbox.overheadLength) {
-            // Too short to be encrypted - attempt legacy migration
-            return await migrateLegacyData(key, raw, encKey);
-        }
-
-        const nonce = fullMessage.slice(0, nacl.secretbox.nonceLength);
-        const ciphertext = fullMessage.slice(nacl.secretbox.nonceLength);
-
-        const decrypted = nacl.secretbox.open(ciphertext, nonce, encKey);
-        if (!decrypted) {
-            // Decryption failed - attempt legacy migration
-            return await migrateLegacyData(key, raw, encKey);
-        }
+    const decrypted = openValue(raw, encKey);
+    if (decrypted !== null) return decrypted;
 
-        return uint8ArrayToString(decrypted);
-    } catch {
-        // Base64 decode failed - attempt legacy migration
-        return await migrateLegacyData(key, raw, encKey);
+    // Still encrypted under the identity a key rotation replaced
+    const previousKey = await getPreviousEncryptionKey();
+    const previous = previousKey ? openValue(raw, previousKey) : null;
+    if (previous !== null) {
+        await rewriteIfUnchanged(key, raw, previous, encKey);
+        return previous;
     }
+
+    // Not encrypted (or not by us) - attempt legacy migration
+    return await migrateLegacyData(key, raw, encKey);
 }
 
 /**
@@ -126,29 +170,63 @@ async function migrateLegacyData(key: string, raw: string, encKey: Uint8Array):
         JSON.parse(raw);
 
         // Re-encrypt and store
-        const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
-        const messageBytes = stringToUint8Array(raw);
-        const encrypted = nacl.secretbox(messageBytes, nonce, encKey);
-        const fullMessage = new Uint8Array(nonce.length + encrypted.length);
-        fullMessage.set(nonce);
-        fullMessage.set(encrypted, nonce.length);
-        const encoded = encodeBase64(uint8ArrayToString(fullMessage));
-        await AsyncStorage.setItem(key, encoded);
+        await rewriteIfUnchanged(key, raw, raw, encKey);
 
         return raw;
     } catch {
         // Not valid JSON - corrupted or tampered data, discard
         console.warn(`[SecureStorage] Discarding corrupted data for key: ${key}`);
-        await AsyncStorage.removeItem(key);
+        await rewriteIfUnchanged(key, raw, null, encKey);
         return null;
     }
 }
 
 /**
- * Remove a key from AsyncStorage
+ * Store what a read found as `raw` again, re-encrypted (or removed when `value` is null),
+ * unless it was written since. Left for a later read while the key is locked: the read may
+ * come from the holder itself, which is about to write the key anyway.
  */
-export async function secureClear(key: string): Promise<void> {
-    await AsyncStorage.removeItem(key);
+async function rewriteIfUnchanged(key: string, raw: string, value: string | null, encKey: Uint8Array): Promise<void> {
+    if (keyLocks.has(key)) return;
+    await withKeyLock([key], async () => {
+        if (await AsyncStorage.getItem(vaultKey(key)) !== raw) return;
+        if (value === null) {
+            await AsyncStorage.removeItem(vaultKey(key));
+        } else {
+            await AsyncStorage.setItem(vaultKey(key), sealValue(value, encKey));
+        }
+    });
+}
+
+/**
+ * Remove a key from AsyncStorage, under the key's lock (see secureSet)
+ */
+export function secureClear(key: string): Promise<void> {
+    return withKeyLock([key], () => AsyncStorage.removeItem(vaultKey(key)));
+}
+
+/**
+ * Keys of the open vault (encrypted or not)
+ */
+export async function secureKeys(): Promise<string[]> {
+    const keys: string[] = [];
+    for (const storedKey of await AsyncStorage.getAllKeys()) {
+        const key = keyInOpenVault(storedKey);
+        if (key !== null) keys.push(key);
+    }
+    return keys;
+}
+
+/**
+ * Move a value to another key as stored, without decrypting it, under both keys' locks
+ */
+export function secureMove(from: string, to: string): Promise<void> {
+    return withKeyLock([from, to], async () => {
+        const raw = await AsyncStorage.getItem(vaultKey(from));
+        if (!raw) return;
+        await AsyncStorage.setItem(vaultKey(to), raw);
+        await AsyncStorage.removeItem(vaultKey(from));
+    });
 }
 
 /**
@@ -156,26 +234,178 @@ export async function secureClear(key: string): Promise<void> {
  * Reads the current value, re-encrypts it, and stores it back.
  */
 export async function migrateToSecure(key: string): Promise<void> {
-    const raw = await AsyncStorage.getItem(key);
+    const raw = await AsyncStorage.getItem(vaultKey(key));
     if (!raw) return;
 
     const encKey = await getEncryptionKey();
     if (!encKey) return;
 
-    // Check if it's already encrypted by trying to base64 decode + decrypt
-    try {
-        const decoded = decodeBase64(raw);
-        const fullMessage = stringToUint8Array(decoded);
-        if (fullMessage.length >= nacl.secretbox.nonceLength + nacl.secretbox.overheadLength) {
-            const nonce = fullMessage.slice(0, nacl.secretbox.nonceLength);
-            const ciphertext = fullMessage.slice(nacl.secretbox.nonceLength);
-            const result = nacl.secretbox.open(ciphertext, nonce, encKey);
-            if (result) return; // Already encrypted, nothing to do
-        }
-    } catch {
-        // Not encrypted yet, proceed with migration
-    }
+    // Already encrypted, nothing to do
+    if (openValue(raw, encKey) !== null) return;
+
+    // Encrypted under the previous identity: re-encrypt the plaintext, not the ciphertext
+    const previousKey = await getPreviousEncryptionKey();
+    const previous = previousKey ? openValue(raw, previousKey) : null;
 
     // Re-store as encrypted
-    await secureSet(key, raw);
+    await secureSet(key, previous ?? raw);
+}
+
+/**
+ * After a key rotation: re-encrypt every value still under the previous identity's key,
+ * then forget that identity. Values it misses (interrupted run) are migrated on read.
+ */
+export async function reencryptSecureStorage(): Promise<void> {
+    const encKey = await getEncryptionKey();
+    const previousKey = await getPreviousEncryptionKey();
+    if (!encKey || !previousKey) return;
+
+    const keys = await secureKeys();
+    for (const key of keys) {
+        // Read under the lock too: a value written meanwhile is already under the new key
+        await withKeyLock([key], async () => {
+            const raw = await AsyncStorage.getItem(vaultKey(key));
+            if (!raw || openValue(raw, encKey) !== null) return;
+            const value = openValue(raw, previousKey);
+            if (value !== null) await AsyncStorage.setItem(vaultKey(key), sealValue(value, encKey));
+        });
+    }
+
+    await SecureStore.deleteItemAsync(vaultKey(PREVIOUS_STORAGE_KEY));
+    cachedPreviousEncKey = null;
+}
+
+// ─── Locks and transactions ─────────────────────────────────────
+
+/**
+ * Writes of one transaction, already encrypted. Applying a journal twice gives the same
+ * result, so a journal left by a crash is simply applied again.
+ */
+interface Journal {
+    set: [string, string][];
+    clear: string[];
+}
+
+export interface SecureTransaction {
+    // Sees the transaction's own pending writes
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): void;
+    clear(key: string): void;
+}
+
+const keyLocks = new Map<string, Promise<unknown>>();
+let recovery: Promise<void> | null = null;
+
+/**
+ * Run `fn` once every earlier holder of any of `keys` has finished. All keys are taken at
+ * once, so two callers locking the same keys in a different order cannot deadlock.
+ * A lock key can stand for a group of keys (a conversation locks its index, not each page).
+ */
+export function withKeyLock<T>(keys: string[], fn: () => Promise<T>): Promise<T> {
+    const unique = Array.from(new Set(keys));
+    const previous = unique.map(key => keyLocks.get(key) ?? Promise.resolve());
+    const run = Promise.all(previous.map(p => p.catch(() => { }))).then(fn);
+    for (const key of unique) keyLocks.set(key, run);
+    const cleanup = () => {
+        for (const key of unique) {
+            if (keyLocks.get(key) === run) keyLocks.delete(key);
+        }
+    };
+    run.then(cleanup, cleanup);
+    return run;
+}
+
+async function applyJournal(journal: Journal): Promise<void> {
+    if (journal.set.length > 0) await AsyncStorage.multiSet(journal.set);
+    if (journal.clear.length > 0) await AsyncStorage.multiRemove(journal.clear);
+}
+
+/**
+ * Read-modify-write of several encrypted keys under `withKeyLock(keys)`. Writes are buffered
+ * and nothing is stored if `fn` throws. On commit the encrypted values are first written to
+ * a journal in a single AsyncStorage write, then swapped into place, then the journal is
+ * removed: a crash at any point leaves either the old values or, once the journal is
+ * replayed, all the new ones. A swap that fails without a crash is rolled back.
+ */
+export function secureTransaction<T>(keys: string[], fn: (tx: SecureTransaction) => Promise<T>): Promise<T> {
+    return withKeyLock(keys, async () => {
+        // Pending writes; null = cleared
+        const pending = new Map<string, string | null>();
+        const tx: SecureTransaction = {
+            get: async key => pending.has(key) ? pending.get(key)! : secureGet(key),
+            set: (key, value) => { pending.set(key, value); },
+            clear: key => { pending.set(key, null); },
+        };
+
+        const result = await fn(tx);
+        if (pending.size === 0) return result;
+
+        const journal: Journal = { set: [], clear: [] };
+        let encKey: Uint8Array | null = null;
+        for (const [key, value] of pending) {
+            // Journals hold AsyncStorage keys, so a replay needs no open vault
+            if (value === null) {
+                journal.clear.push(vaultKey(key));
+                continue;
+            }
+            encKey = encKey ?? await requireEncryptionKey();
+            journal.set.push([vaultKey(key), sealValue(value, encKey)]);
+        }
+
+        // Stored values as they are now, to undo a swap that fails halfway
+        const undo: Journal = { set: [], clear: [] };
+        for (const [key, raw] of await AsyncStorage.multiGet([...journal.set.map(([key]) => key), ...journal.clear])) {
+            if (raw === null) undo.clear.push(key);
+            else undo.set.push([key, raw]);
+        }
+
+        const journalKey = JOURNAL_PREFIX + toHex(nacl.randomBytes(8));
+        await AsyncStorage.setItem(journalKey, JSON.stringify(journal));
+        try {
+            await applyJournal(journal);
+        } catch (e) {
+            // The caller sees the failure, so the old values are put back before the locks are
+            // released. If that fails too, the journal stays and the next read finishes the swap.
+            try {
+                await applyJournal(undo);
+                await AsyncStorage.removeItem(journalKey);
+            } catch (undoError) {
+                console.error("[SecureStorage] Rollback failed, transaction left to recovery", undoError);
+                recovery = null;
+            }
+            throw e;
+        }
+        await AsyncStorage.removeItem(journalKey);
+        return result;
+    });
+}
+
+/**
+ * Apply the journals of transactions interrupted by a crash. Runs once per launch; reads
+ * wait for it. Journals hold ciphertext only, so this works before the app is unlocked.
+ */
+export function recoverSecureTransactions(): Promise<void> {
+    if (!recovery) {
+        recovery = (async () => {
+            const keys = (await AsyncStorage.getAllKeys()).filter(k => k.startsWith(JOURNAL_PREFIX));
+            for (const key of keys) {
+                try {
+                    const json = await AsyncStorage.getItem(key);
+                    const journal = json ? JSON.parse(json) : null;
+                    if (journal && Array.isArray(journal.set) && Array.isArray(journal.clear)) {
+                        await applyJournal(journal);
+                        console.log(`[SecureStorage] Replayed interrupted transaction ${key}`);
+                    }
+                } catch (e) {
+                    console.warn(`[SecureStorage] Dropping unreadable journal ${key}`, e);
+                }
+                await AsyncStorage.removeItem(key);
+            }
+        })().catch(e => {
+            // Retried by the next read
+            recovery = null;
+            throw e;
+        });
+    }
+    return recovery;
 }
@@ -0,0 +1,89 @@
+import nacl from '@/components/CryptoPolyfill';
+
+/**
+ * Shamir secret sharing over GF(256), byte by byte.
+ *
+ * Each byte of the secret is the constant term of a random polynomial of degree threshold-1;
+ * share number x holds the values of those polynomials at x (1..255). Any `threshold` shares
+ * give the secret back by Lagrange interpolation at 0, fewer reveal nothing about it.
+ */
+
+export const MAX_SHARES = 255;
+
+export interface SecretShare {
+    // Evaluation point, 1..255
+    x: number;
+    y: Uint8Array;
+}
+
+// Log and exp tables of GF(256) with the AES polynomial (0x11b) and generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+    let value = 1;
+    for (let i = 0; i < 255; i++) {
+        EXP[i] = value;
+        LOG[value] = i;
+        // value * 3 = value * 2 xor value
+        value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+    }
+    for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255];
+})();
+
+const mul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+const div = (a: number, b: number) => (a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]]);
+
+/**
+ * Split a secret into `count` shares, any `threshold` of which rebuild it
+ */
+export function splitSecret(secret: Uint8Array, count: number, threshold: number): SecretShare[] {
+    if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 2 || count < threshold || count > MAX_SHARES) {
+        throw new Error('Invalid share parameters');
+    }
+
+    const shares: SecretShare[] = [];
+    for (let x = 1; x <= count; x++) shares.push({ x, y: new Uint8Array(secret.length) });
+
+    for (let i = 0; i < secret.length; i++) {
+        const coefficients = nacl.randomBytes(threshold);
+        coefficients[0] = secret[i];
+        for (const share of shares) {
+            // Horner, highest degree first
+            let y = 0;
+            for (let c = threshold - 1; c >= 0; c--) y = mul(y, share.x) ^ coefficients[c];
+            share.y[i] = y;
+        }
+    }
+    return shares;
+}
+
+/**
+ * Rebuild the secret from shares of distinct points. With fewer shares than the threshold
+ * (or shares of another split) the result is just wrong, so callers check it.
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array {
+    if (shares.length === 0) throw new Error('No shares');
+    const length = shares[0].y.length;
+    const xs = shares.map(share => share.x);
+    if (shares.some(share => share.y.length !== length || share.x < 1 || share.x > MAX_SHARES) ||
+        new Set(xs).size !== xs.length) {
+        throw new Error('Invalid shares');
+    }
+
+    // Lagrange basis at 0: prod(xj / (xj - xi)), subtraction being xor
+    const basis = xs.map((xi, i) => {
+        let value = 1;
+        xs.forEach((xj, j) => {
+            if (i !== j) value = mul(value, div(xj, xj ^ xi));
+        });
+        return value;
+    });
+
+    const secret = new Uint8Array(length);
+    for (let b = 0; b < length; b++) {
+        let value = 0;
+        shares.forEach((share, i) => { value ^= mul(share.y[b], basis[i]); });
+        secret[b] = value;
+    }
+    return secret;
+}
@@ -0,0 +1,238 @@
+import nacl from '@/components/CryptoPolyfill';
+import { getServerURL } from '@/constants/Config';
+import { authFetch, generateNewIdentity, getBoxSecretKey, getMyID, registerWithServer, restoreIdentity } from '@/utils/AuthHelper';
+import { Contact } from '@/utils/ContactRepository';
+import { bytesToHex, hexToBytes } from '@/utils/CryptoPrimitives';
+import { decodeEnvelope, RecoveryShareEnvelope } from '@/utils/Envelope';
+import { fetchRegisteredKeys } from '@/utils/Handshake';
+import { queueEnvelope } from '@/utils/Outbox';
+import { getHeldShare, RecoveryHolder, RecoverySetup, saveHeldShare, saveRecoverySetup } from '@/utils/RecoveryRepository';
+import { combineShares, SecretShare, splitSecret } from '@/utils/Shamir';
+import { normalizeUserId, userIdMatchesKey } from '@/utils/UserId';
+import { decode as decodeBase64 } from 'base-64';
+
+/**
+ * Social recovery of the identity key.
+ *
+ * The secret key is split (Shamir, see Shamir.ts) into one share per chosen contact, any
+ * `threshold` of which rebuild it. Each share travels in a RECOVERY_SHARE envelope over the
+ * contact's ratchet session (through the Outbox) and is kept in their RecoveryRepository.
+ *
+ * On a new device the app registers a temporary identity and shows its ID as a recovery code.
+ * The user calls the contacts, who check it is really them and send their share to that code
+ * in an anonymous box ([EPHEMERAL_PK(32)][NONCE(24)][BOX]). Once enough shares of one split
+ * rebuild a key whose ID is the one the user claimed, the temporary account is deleted and
+ * the identity restored.
+ */
+
+export const MIN_RECOVERY_THRESHOLD = 2;
+export const MAX_RECOVERY_HOLDERS = 10;
+
+export type ReturnShareResult = 'queued' | 'no_share' | 'invalid_code' | 'unknown_code' | 'failed';
+
+export interface RecoveryProgress {
+    // Distinct shares of the most complete split received so far
+    received: number;
+    threshold: number | null;
+    secretKey: Uint8Array | null;
+}
+
+const stringToUint8Array = (str: string) => { const bytes = new Uint8Array(str.length); for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xFF; return bytes; };
+
+/**
+ * Split our identity key among `holders`. Returns the saved setup, or null if the shares of
+ * fewer than `threshold` contacts could be queued (the others are useless on their own).
+ */
+export async function distributeRecoveryShares(holders: Contact[], threshold: number): Promise<RecoverySetup | null> {
+    if (holders.length > MAX_RECOVERY_HOLDERS || threshold < MIN_RECOVERY_THRESHOLD || threshold > holders.length) {
+        throw new Error('Invalid recovery parameters');
+    }
+    const secretKey = await getBoxSecretKey();
+    const myID = await getMyID();
+    if (!secretKey || !myID) return null;
+
+    const set = bytesToHex(nacl.randomBytes(16));
+    const shares = splitSecret(secretKey, holders.length, threshold);
+    const reached: RecoveryHolder[] = [];
+
+    for (let i = 0; i < holders.length; i++) {
+        const holder = holders[i];
+        try {
+            await queueEnvelope(holder, {
+                type: 'recovery_share',
+                owner: myID,
+                set,
+                threshold,
+                x: shares[i].x,
+                share: bytesToHex(shares[i].y),
+            });
+            reached.push({ id: holder.id, name: holder.alias || holder.name });
+        } catch (e) {
+            console.error(`[RECOVERY] Failed to queue share for ${holder.id}`, e);
+        }
+    }
+
+    if (reached.length < threshold) return null;
+    const setup: RecoverySetup = { set, threshold, holders: reached, createdAt: Date.now() };
+    await saveRecoverySetup(setup);
+    return setup;
+}
+
+/**
+ * Keep a share a contact sent us. Contacts can only entrust shares of their own key.
+ */
+export async function storeReceivedShare(sender: Contact, envelope: RecoveryShareEnvelope): Promise<void> {
+    if (!userIdMatchesKey(envelope.owner, sender.key)) {
+        console.warn(`[RECOVERY] Share from ${sender.id} for another user`);
+        return;
+    }
+    await saveHeldShare({
+        owner: sender.id,
+        set: envelope.set,
+        threshold: envelope.threshold,
+        x: envelope.x,
+        share: envelope.share,
+        receivedAt: Date.now(),
+    });
+}
+
+/**
+ * Queue the share we hold for `owner` for the recovery code shown on their new device
+ */
+export async function returnRecoveryShare(owner: Contact, code: string): Promise<ReturnShareResult> {
+    const held = await getHeldShare(owner.id);
+    if (!held) return 'no_share';
+    const id = normalizeUserId(code);
+    if (!id) return 'invalid_code';
+    const target = await fetchRegisteredKeys(id);
+    if (!target) return 'unknown_code';
+
+    try {
+        // One-off key: the new device has nothing to check it against
+        await queueEnvelope({ id, key: target.publicKey }, {
+            type: 'recovery_share',
+            owner: held.owner,
+            set: held.set,
+            threshold: held.threshold,
+            x: held.x,
+            share: held.share,
+        }, { seal: 'anonymous' });
+        return 'queued';
+    } catch (e) {
+        console.error("[RECOVERY] Failed to return share", e);
+        return 'failed';
+    }
+}
+
+/**
+ * New device: register a temporary identity whose ID is the recovery code. Null if the relay
+ * cannot be reached.
+ */
+export async function startRecoverySession(): Promise<string | null> {
+    await generateNewIdentity();
+    if (!(await registerWithServer())) return null;
+    return getMyID();
+}
+
+/**
+ * Subsets of `size` elements, in order
+ */
+function* combinations<T>(items: T[], size: number, start = 0, picked: T[] = []): Generator<T[]> {
+    if (picked.length === size) {
+        yield picked;
+        return;
+    }
+    for (let i = start; i <= items.length - (size - picked.length); i++) {
+        yield* combinations(items, size, i + 1, [...picked, items[i]]);
+    }
+}
+
+/**
+ * Rebuild the key from one split's shares, skipping wrong ones
+ */
+function recoverKey(ownerId: string, shares: SecretShare[], threshold: number): Uint8Array | null {
+    for (const subset of combinations(shares, threshold)) {
+        const secretKey = combineShares(subset);
+        const publicKey = nacl.box.keyPair.fromSecretKey(secretKey).publicKey;
+        if (userIdMatchesKey(ownerId, bytesToHex(publicKey))) return secretKey;
+    }
+    return null;
+}
+
+/**
+ * Read the shares sent to the recovery code so far. They stay queued on the relay (no ack)
+ * until the temporary account is deleted, so an interrupted recovery loses nothing.
+ */
+export async function collectRecoveryShares(ownerId: string): Promise<RecoveryProgress> {
+    const progress: RecoveryProgress = { received: 0, threshold: null, secretKey: null };
+    const secretKey = await getBoxSecretKey();
+    const myID = await getMyID();
+    if (!secretKey || !myID) return progress;
+
+    const serverURL = await getServerURL();
+    const res = await authFetch(`${serverURL}/check/${myID}`, { method: 'GET' });
+    if (!res.ok) return progress;
+    const messages = await res.json();
+
+    // Shares by split, one per point
+    const sets = new Map<string, { threshold: number; shares: Map<number, SecretShare> }>();
+    for (const msg of Array.isArray(messages) ? messages : []) {
+        try {
+            const fullMessage = stringToUint8Array(decodeBase64(msg.content));
+            if (fullMessage.length <= 32 + nacl.box.nonceLength) continue;
+            const opened = nacl.box.open(
+                fullMessage.slice(32 + nacl.box.nonceLength),
+                fullMessage.slice(32, 32 + nacl.box.nonceLength),
+                fullMessage.slice(0, 32),
+                secretKey
+            );
+            const envelope = opened ? decodeEnvelope(opened) : null;
+            // Whose share it claims to be does not matter: only a key matching `ownerId` is taken
+            if (envelope?.type !== 'recovery_share') continue;
+
+            const set = sets.get(envelope.set) ?? { threshold: envelope.threshold, shares: new Map() };
+            set.shares.set(envelope.x, { x: envelope.x, y: hexToBytes(envelope.share) });
+            sets.set(envelope.set, set);
+        } catch {
+            // Not a share
+        }
+    }
+
+    for (const { threshold, shares } of sets.values()) {
+        if (shares.size > progress.received) {
+            progress.received = shares.size;
+            progress.threshold = threshold;
+        }
+        if (shares.size >= threshold) {
+            const recovered = recoverKey(ownerId, [...shares.values()], threshold);
+            if (recovered) return { received: shares.size, threshold, secretKey: recovered };
+        }
+    }
+    return progress;
+}
+
+/**
+ * Delete the temporary account, with the shares still queued for it
+ */
+export async function endRecoverySession(): Promise<void> {
+    try {
+        const myID = await getMyID();
+        if (!myID) return;
+        const serverURL = await getServerURL();
+        await authFetch(`${serverURL}/delete-account`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: myID })
+        });
+    } catch (e) {
+        console.warn("[RECOVERY] Failed to delete the temporary account", e);
+    }
+}
+
+/**
+ * Drop the temporary account and take the recovered identity
+ */
+export async function completeSocialRecovery(secretKey: Uint8Array): Promise<void> {
+    await endRecoverySession();
+    await restoreIdentity(secretKey);
+}
@@ -0,0 +1,77 @@
+import { getContacts, updateContacts } from '@/utils/ContactRepository';
+import { migrateLegacyContactIds } from '@/utils/ContactMigration';
+import { getFriendRequests, saveFriendRequests } from '@/utils/FriendRequestRepository';
+import { getMasterSecret, vaultKey } from '@/utils/MasterKey';
+import { sealLegacyMedia } from '@/utils/MediaMigration';
+import { getProfile, saveProfile } from '@/utils/ProfileRepository';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Versioned schema of the data stored by the repositories. Each migration runs once, in
+ * order, and the version is saved after each one so an interrupted run resumes where it
+ * stopped. Migrations must be safe to run again on data they already converted.
+ */
+
+interface Migration {
+    version: number;
+    description: string;
+    run: () => Promise<void>;
+}
+
+// Plain AsyncStorage: wiped with everything else, so a fresh install starts at 0
+const SCHEMA_VERSION_KEY = "storage_schema_version";
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Rewrite contacts, profile and friend requests in their typed form',
+        run: async () => {
+            if ((await getContacts()).length > 0) await updateContacts(contacts => contacts);
+            const profile = await getProfile();
+            if (profile) await saveProfile(profile);
+            const requests = await getFriendRequests();
+            if (requests.length > 0) await saveFriendRequests(requests);
+        },
+    },
+    {
+        version: 2,
+        description: 'Move contacts from legacy hex IDs to checksummed IDs',
+        run: async () => {
+            await migrateLegacyContactIds();
+        },
+    },
+    {
+        version: 3,
+        description: 'Encrypt media and avatar files saved in plaintext',
+        run: async () => {
+            await sealLegacyMedia();
+        },
+    },
+];
+
+export const STORAGE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function getStorageSchemaVersion(): Promise<number> {
+    const value = await AsyncStorage.getItem(vaultKey(SCHEMA_VERSION_KEY));
+    const version = value ? parseInt(value, 10) : 0;
+    return isNaN(version) ? 0 : version;
+}
+
+/**
+ * Bring stored data up to STORAGE_SCHEMA_VERSION. Does nothing while the storage key is not
+ * available (locked app, no identity yet): the data could not be read, so nothing is skipped.
+ */
+export async function runStorageMigrations(): Promise<number> {
+    let version = await getStorageSchemaVersion();
+    if (version >= STORAGE_SCHEMA_VERSION) return version;
+    if (!(await getMasterSecret())) return version;
+
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= version) continue;
+        console.log(`[MIGRATION] ${migration.version}: ${migration.description}`);
+        await migration.run();
+        version = migration.version;
+        await AsyncStorage.setItem(vaultKey(SCHEMA_VERSION_KEY), version.toString());
+    }
+    return version;
+}
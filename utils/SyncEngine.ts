@@ -0,0 +1,635 @@
+import nacl from '@/components/CryptoPolyfill';
+import { getServerURL } from '@/constants/Config';
+import { authFetch, getBoxPublicKeyHex, getBoxSecretKey, getMyID, replenishPreKeys } from '@/utils/AuthHelper';
+import { Contact, getContact, getContacts, getPeerContacts, getPresence, Presence, removeContact, savePresence, updateContact, updateContacts } from '@/utils/ContactRepository';
+import { deleteConversationData, getEphemeralTimer } from '@/utils/ConversationRepository';
+import { hexToBytes } from '@/utils/CryptoPrimitives';
+import { AcceptEnvelope, ContactCard, decodeEnvelope, Envelope, isValidContactCard, KeyRotationEnvelope } from '@/utils/Envelope';
+import { saveFriendRequests } from '@/utils/FriendRequestRepository';
+import { verifyAcceptEnvelope } from '@/utils/Handshake';
+import { moveContactData, verifyKeyRotation } from '@/utils/KeyRotation';
+import { vaultKey } from '@/utils/MasterKey';
+import { sweepOrphanedMedia, sweepOrphanedMediaIfDue } from '@/utils/MediaCollector';
+import { deleteMedia, storeAvatar, storeMedia } from '@/utils/MediaVault';
+import { appendMessage, expireMessages, markOutgoingRead, StoredMessage } from '@/utils/MessageStore';
+import { resumeOutbox, startOutbox } from '@/utils/Outbox';
+import { isPushConnected, PushEvent, refreshPushChannel, RelayMessage, setPushPresence, startPushChannel } from '@/utils/PushChannel';
+import { DecryptedFrame, decryptFromAnyContact, decryptFromContact, deleteSession, parseRatchetFrame } from '@/utils/RatchetSession';
+import { removeHeldShare } from '@/utils/RecoveryRepository';
+import { acceptEnvelopeOnce } from '@/utils/ReplayGuard';
+import { findContactByRoutingTag, parseRoutedMessage } from '@/utils/RoutingTag';
+import { storeReceivedShare } from '@/utils/SocialRecovery';
+import { runStorageMigrations } from '@/utils/StorageMigrations';
+import { deriveUserId } from '@/utils/UserId';
+import { decode as decodeBase64 } from 'base-64';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import { useEffect, useRef } from 'react';
+import { Platform } from 'react-native';
+
+/**
+ * Inbound sync: receives envelopes from the relay (push channel, or polling while it is down),
+ * decrypts and applies them, then acknowledges them. It also keeps presence, friend requests
+ * and prekeys up to date, expires ephemeral messages and runs the Outbox.
+ *
+ * Screens do not read the relay: they reload what they show from storage when an event tells
+ * them it changed (onSyncEvent, useSyncEvent).
+ */
+
+export type SignalType = 'read' | 'screenshot' | 'delete' | 'key_rotation' | 'recovery_share';
+
+export interface SyncEvents {
+    // A message from a contact arrived
+    message: { contactId: string };
+    // The history with a contact changed otherwise: ephemeral messages expired, or the
+    // delivery status of ours changed (Outbox)
+    history: { contactId: string };
+    // A control envelope from a contact was applied
+    signal: { contactId: string; type: SignalType };
+    contactAdded: { contactId: string };
+    // Name or avatar of a contact changed
+    profileUpdated: { contactId: string };
+    // A known contact sent a handshake with another key: it waits for the user's approval
+    keyChanged: { contactId: string; name: string };
+    // Stored presence or friend requests changed: listeners reload them
+    presence: Record<string, never>;
+    friendRequests: Record<string, never>;
+}
+
+export type SyncEventType = keyof SyncEvents;
+type SyncListener<T extends SyncEventType> = (event: SyncEvents[T]) => void;
+
+const POLL_INTERVAL_MS = 5000;
+
+const listeners: { [T in SyncEventType]: Set<SyncListener<T>> } = {
+    message: new Set(),
+    history: new Set(),
+    signal: new Set(),
+    contactAdded: new Set(),
+    profileUpdated: new Set(),
+    keyChanged: new Set(),
+    presence: new Set(),
+    friendRequests: new Set(),
+};
+
+let running: { stop: () => void } | null = null;
+// Polled and pushed messages go through one queue: the same message can arrive both ways
+let messageQueue: Promise<void> = Promise.resolve();
+let handledMessageIds = new Set<number>();
+
+const stringToUint8Array = (str: string) => { const bytes = new Uint8Array(str.length); for (let i = 0; i < str.length; i++) bytes[i] = str.charCodeAt(i) & 0xFF; return bytes; };
+const toHex = (buffer: ArrayBuffer | Uint8Array) => Array.prototype.map.call(new Uint8Array(buffer), (x: number) => ('00' + x.toString(16)).slice(-2)).join('');
+
+/**
+ * Listen to `type` events. Returns the function that stops listening.
+ */
+export function onSyncEvent<T extends SyncEventType>(type: T, listener: SyncListener<T>): () => void {
+    const set: Set<SyncListener<T>> = listeners[type];
+    set.add(listener);
+    return () => {
+        set.delete(listener);
+    };
+}
+
+function emit<T extends SyncEventType>(type: T, event: SyncEvents[T]) {
+    const set: Set<SyncListener<T>> = listeners[type];
+    for (const listener of [...set]) {
+        try {
+            listener(event);
+        } catch (e) {
+            console.error(`[SYNC] ${type} listener failed`, e);
+        }
+    }
+}
+
+/**
+ * React hook for sync events. The latest `listener` is called, without resubscribing on
+ * every render.
+ */
+export function useSyncEvent<T extends SyncEventType>(type: T, listener: SyncListener<T>) {
+    const callbackRef = useRef(listener);
+    callbackRef.current = listener;
+
+    useEffect(() => onSyncEvent(type, event => callbackRef.current(event)), [type]);
+}
+
+/**
+ * Start syncing with the relay as the open identity. Returns the function that stops it; a
+ * running engine is stopped first, so the caller restarts it after a vault change.
+ */
+export function startSyncEngine(): () => void {
+    running?.stop();
+
+    let interval: ReturnType<typeof setInterval> | null = null;
+    let stopPush: (() => void) | null = null;
+    let stopOutbox: (() => void) | null = null;
+    let cancelled = false;
+    handledMessageIds = new Set();
+
+    // Stored data is brought to the current schema before the engine touches it
+    runStorageMigrations()
+        .catch(e => console.error("[MIGRATION] Storage migration failed", e))
+        .finally(() => {
+            if (cancelled) return;
+            stopPush = startPushChannel(handlePush);
+            stopOutbox = startOutbox(change => emit('history', { contactId: change.contactId }));
+            interval = setInterval(() => {
+                // The relay pushes all of this while the channel is up
+                if (isPushConnected()) {
+                    syncPushPresence();
+                    refreshPushChannel();
+                } else {
+                    checkGlobalMessages();
+                    checkGlobalRequests();
+                    sendHeartbeat();
+                    checkContactStatus();
+                }
+                cleanExpiredEphemeralMessages();
+                replenishPreKeys();
+                sweepOrphanedMediaIfDue().catch(e => console.warn("[MEDIA] Sweep failed", e));
+            }, POLL_INTERVAL_MS);
+
+            checkGlobalMessages();
+            checkGlobalRequests();
+            sendHeartbeat();
+            checkContactStatus();
+        });
+
+    const engine = {
+        stop: () => {
+            // The push channel is shared: a later engine's must survive a second call
+            if (cancelled) return;
+            cancelled = true;
+            if (interval) clearInterval(interval);
+            if (stopPush) stopPush();
+            if (stopOutbox) stopOutbox();
+            if (running === engine) running = null;
+        },
+    };
+    running = engine;
+    return engine.stop;
+}
+
+function handlePush(event: PushEvent) {
+    if (event.type === 'connected') {
+        syncPushPresence();
+        // The relay is reachable again
+        resumeOutbox();
+    } else if (event.type === 'messages') {
+        processMessages(event.messages);
+    } else if (event.type === 'friend-requests') {
+        saveFriendRequests(event.requests)
+            .then(() => emit('friendRequests', {}))
+            .catch(e => console.error("[PUSH] Friend requests not saved", e));
+    } else if (event.type === 'presence') {
+        mergePresence(event.status);
+    }
+}
+
+// Same privacy rule as sendHeartbeat and checkContactStatus
+async function syncPushPresence() {
+    try {
+        const visible = await SecureStore.getItemAsync(vaultKey("privacy_online_status")) !== "false";
+        if (!visible) await savePresence({});
+        const ids = visible ? (await getContacts()).map(c => c.id) : [];
+        setPushPresence(visible, ids);
+    } catch { }
+}
+
+async function mergePresence(status: Record<string, Presence>) {
+    try {
+        const os = await SecureStore.getItemAsync(vaultKey("privacy_online_status"));
+        if (os === "false") return;
+        await savePresence({ ...(await getPresence()), ...status });
+        emit('presence', {});
+    } catch { }
+}
+
+// Clean expired ephemeral messages for all conversations
+async function cleanExpiredEphemeralMessages() {
+    try {
+        const contacts = await getContacts();
+        let removed = 0;
+
+        for (const contact of contacts) {
+            const timerSeconds = await getEphemeralTimer(contact.id);
+            if (!timerSeconds) continue;
+
+            const expired = await expireMessages(contact.id, timerSeconds * 1000);
+            if (expired > 0) emit('history', { contactId: contact.id });
+            removed += expired;
+        }
+        // Expired media files go with their messages
+        if (removed > 0) await sweepOrphanedMedia();
+    } catch {
+        // Silently fail - background cleanup
+    }
+}
+
+async function checkGlobalMessages() {
+    try {
+        const myID = await getMyID();
+        if (!myID) return;
+
+        const serverURL = await getServerURL();
+        const res = await authFetch(`${serverURL}/check/${myID}`, { method: 'GET' });
+        if (!res.ok) return;
+        await processMessages(await res.json());
+    } catch (e) {
+        console.error("Global poll error", e);
+    }
+}
+
+function processMessages(messages: RelayMessage[]): Promise<void> {
+    messageQueue = messageQueue.then(() => processMessageBatch(messages));
+    return messageQueue;
+}
+
+async function processMessageBatch(batch: RelayMessage[]) {
+    try {
+        const secretKey = await getBoxSecretKey();
+        const myPublicKey = await getBoxPublicKeyHex();
+        if (!secretKey || !myPublicKey) return;
+
+        const messages = batch.filter(msg => !handledMessageIds.has(msg.id));
+        if (messages.length === 0) return;
+
+        const serverURL = await getServerURL();
+        const peers = await getPeerContacts();
+        const processedIds: number[] = [];
+
+        for (const msg of messages) {
+            let payload: Uint8Array | null = null;
+            let sender: Contact | null = null;
+            let decrypted: DecryptedFrame | null = null;
+
+            const fullMessage = new Uint8Array(stringToUint8Array(decodeBase64(msg.content)));
+            const nonce = fullMessage.slice(0, nacl.box.nonceLength);
+            const ciphertext = fullMessage.slice(nacl.box.nonceLength, fullMessage.length);
+
+            // Routed ratchet frame: the tag names the sender, no trial decryption
+            const routed = parseRoutedMessage(fullMessage);
+            if (routed) {
+                const peer = await findContactByRoutingTag(routed.tag, peers);
+                const frame = peer ? parseRatchetFrame(routed.inner) : null;
+                if (peer && frame) {
+                    decrypted = await decryptFromContact(peer, frame);
+                    if (decrypted) {
+                        payload = decrypted.plaintext;
+                        sender = peer;
+                    }
+                }
+            }
+
+            // Untagged ratchet frame, or a routed one whose tag the index missed: its epoch is
+            // outside the hours around now (held on the relay while we were offline)
+            const frame = payload ? null : parseRatchetFrame(routed ? routed.inner : fullMessage);
+            if (frame) {
+                const result = await decryptFromAnyContact(frame, peers);
+                if (result) {
+                    decrypted = result;
+                    payload = result.plaintext;
+                    sender = result.peer;
+                }
+            }
+
+            // Legacy static-key box (clients without ratchet sessions)
+            for (const contact of peers) {
+                if (payload) break;
+                try {
+                    const peerKey = hexToBytes(contact.key);
+                    const result = nacl.box.open(ciphertext, nonce, peerKey, secretKey);
+                    if (result) {
+                        payload = result;
+                        sender = contact;
+                        break;
+                    }
+                } catch { }
+            }
+
+            let envelope: Envelope | null = payload ? decodeEnvelope(payload) : null;
+
+            // Anonymous handshake: [SENDER_PK(32)] + [NONCE(24)] + [ENCRYPTED_DATA]
+            if (!payload && fullMessage.length > 32 + 24) {
+                try {
+                    const claimedPubKey = fullMessage.slice(0, 32);
+                    const handshakeNonce = fullMessage.slice(32, 32 + 24);
+                    const handshakeCipher = fullMessage.slice(32 + 24);
+                    const result = nacl.box.open(handshakeCipher, handshakeNonce, claimedPubKey, secretKey);
+                    if (result) {
+                        const hsEnvelope = decodeEnvelope(result);
+                        if (hsEnvelope?.type === 'accept') {
+                            payload = result;
+                            // Verify the claimed public key in the message matches the key used for encryption
+                            const claimedKeyHex = toHex(claimedPubKey);
+                            if (hsEnvelope.contact.key.toLowerCase() === claimedKeyHex.toLowerCase()) {
+                                envelope = hsEnvelope;
+                            } else {
+                                console.warn("[HANDSHAKE] Key mismatch: claimed key does not match encryption key");
+                            }
+                        }
+                    }
+                } catch {
+                    // Handshake decryption failed - not for us or malformed
+                }
+            }
+
+            if (!payload) continue;
+
+            try {
+                if (envelope) {
+                    await handleEnvelope(envelope, sender, myPublicKey);
+                } else {
+                    // Malformed envelopes are dropped, not retried
+                    console.warn("[ENVELOPE] Dropping malformed payload");
+                }
+                // The ratchet forgets the message key, and the relay the message, only once its
+                // writes have committed: a failure leaves it to be decrypted and applied again
+                await decrypted?.commit();
+                if (msg.id) processedIds.push(msg.id);
+            } catch (e) {
+                console.error(`[POLL] Failed to process message ${msg.id}`, e);
+            }
+        }
+
+        // Acknowledge processed messages
+        for (const id of processedIds) handledMessageIds.add(id);
+        if (processedIds.length > 0) {
+            try {
+                await authFetch(`${serverURL}/ack`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ messageIds: processedIds })
+                });
+            } catch (e) {
+                console.error("[ACK] Failed to acknowledge messages", e);
+            }
+        }
+    } catch (e) {
+        console.error("Global poll error", e);
+    }
+}
+
+// Apply one decrypted envelope. Throws if a write fails, so the message is not acknowledged.
+async function handleEnvelope(envelope: Envelope, sender: Contact | null, myPublicKey: string) {
+    if (envelope.type === 'accept') {
+        // Only signed handshakes from the key registered on the relay can add a contact
+        const signingKey = await verifyAcceptEnvelope(envelope, myPublicKey);
+        // Contacts are stored under the current ID format, whichever one the sender advertised
+        const contact = { ...envelope.contact, id: deriveUserId(envelope.contact.key) };
+        if (!signingKey) {
+            console.warn("[HANDSHAKE] Rejected unverified handshake");
+        } else {
+            await acceptEnvelopeOnce(contact.id, envelope, () => addContactFromHandshake(contact, signingKey));
+        }
+        return;
+    }
+
+    if (!sender) return;
+
+    // Replayed ciphertexts and legacy control signals (no message ID) are dropped; the
+    // envelope counts as seen once its writes have committed
+    if (!(await acceptEnvelopeOnce(sender.id, envelope, () => applyEnvelope(envelope, sender)))) {
+        console.warn(`[REPLAY] Ignoring duplicate or stale ${envelope.type} from ${sender.id}`);
+    }
+}
+
+// Writes of an envelope from a contact, once ReplayGuard has let it through
+async function applyEnvelope(envelope: Exclude<Envelope, AcceptEnvelope>, sender: Contact) {
+    if (envelope.type === 'profile_update') {
+        await updateContactInfo(sender.id, { pseudo: envelope.pseudo, avatar: envelope.avatar });
+        return;
+    }
+    if (envelope.type === 'delete') {
+        await deleteContactLocally(sender.id);
+        emit('signal', { contactId: sender.id, type: 'delete' });
+        return;
+    }
+    if (envelope.type === 'key_rotation') {
+        await applyKeyRotation(sender, envelope);
+        return;
+    }
+    if (envelope.type === 'screenshot') {
+        // The contact took a screenshot — save a notification message in history
+        const msgId = `screenshot_${Date.now()}_${Array.from(Crypto.getRandomBytes(4)).map(b => b.toString(16).padStart(2, '0')).join('')}`;
+        const screenshotMsg = {
+            id: msgId,
+            text: `📸 ${sender.name || sender.id} a pris une capture d'écran`,
+            timestamp: Date.now(),
+            isMe: false
+        };
+        await appendMessage(sender.id, screenshotMsg);
+        emit('signal', { contactId: sender.id, type: 'screenshot' });
+        emit('message', { contactId: sender.id });
+        return;
+    }
+    if (envelope.type === 'read') {
+        await markOutgoingRead(sender.id);
+        emit('signal', { contactId: sender.id, type: 'read' });
+        return;
+    }
+    if (envelope.type === 'recovery_share') {
+        await storeReceivedShare(sender, envelope);
+        emit('signal', { contactId: sender.id, type: 'recovery_share' });
+        return;
+    }
+
+    // Skip messages from blocked users entirely (don't process/store)
+    if (sender.isBlocked) {
+        return;
+    }
+
+    // Generate unique message ID using crypto
+    const msgIdBytes = Crypto.getRandomBytes(16);
+    const msgId = `${Date.now()}_${Array.from(msgIdBytes).map(b => b.toString(16).padStart(2, '0')).join('')}`;
+    let newMsg: StoredMessage;
+
+    if (envelope.type === 'media') {
+        // Encrypted at rest; the file key is stored with the message
+        const file = await storeMedia(envelope.data);
+        newMsg = {
+            id: msgId,
+            text: envelope.caption,
+            timestamp: Date.now(),
+            isMe: false,
+            localUri: file.uri,
+            mediaType: envelope.mediaType,
+            mediaKey: file.key
+        };
+    } else {
+        newMsg = {
+            id: msgId,
+            text: envelope.text,
+            timestamp: Date.now(),
+            isMe: false
+        };
+    }
+
+    await appendMessage(sender.id, newMsg);
+    emit('message', { contactId: sender.id });
+}
+
+/**
+ * Fetch the pending friend requests from the relay now, e.g. after answering one. Throws if
+ * the relay cannot be reached.
+ */
+export async function refreshFriendRequests(): Promise<void> {
+    const myID = await getMyID();
+    if (!myID) return;
+
+    const serverURL = await getServerURL();
+    const res = await authFetch(`${serverURL}/friend-requests/${myID}`, { method: 'GET' });
+    if (!res.ok) throw new Error(`Friend requests unavailable (${res.status})`);
+    await saveFriendRequests(await res.json());
+    emit('friendRequests', {});
+}
+
+async function checkGlobalRequests() {
+    try {
+        await refreshFriendRequests();
+    } catch { }
+}
+
+async function sendHeartbeat() {
+    try {
+        const os = await SecureStore.getItemAsync(vaultKey("privacy_online_status"));
+        if (os === "false") return;
+
+        const myID = await getMyID();
+        if (!myID) return;
+
+        const serverURL = await getServerURL();
+        await authFetch(`${serverURL}/ping`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: myID })
+        });
+    } catch { }
+}
+
+async function checkContactStatus() {
+    try {
+        const os = await SecureStore.getItemAsync(vaultKey("privacy_online_status"));
+        if (os === "false") {
+            await savePresence({});
+            emit('presence', {});
+            return;
+        }
+
+        const contacts = await getContacts();
+        const ids = contacts.map(c => c.id);
+
+        if (ids.length === 0) return;
+
+        const serverURL = await getServerURL();
+        const res = await authFetch(`${serverURL}/status/batch`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ids })
+        });
+
+        if (res.ok) {
+            await savePresence(await res.json());
+            emit('presence', {});
+        }
+    } catch { }
+}
+
+async function addContactFromHandshake(data: ContactCard, signingKey: string) {
+    // Validate handshake data schema
+    if (!isValidContactCard(data)) {
+        console.warn("[HANDSHAKE] Rejected invalid handshake data");
+        return;
+    }
+
+    const avatar = await storeAvatar(data.avatar);
+
+    let added = false;
+    let keyChanged = false;
+    let replacedAvatar: string | null = null;
+    await updateContacts(list => {
+        const existing = list.find(c => c.id === data.id);
+        if (!existing) {
+            added = true;
+            return [...list, {
+                id: data.id,
+                name: data.name,
+                key: data.key,
+                signingKey,
+                ...avatar,
+                isSelf: false
+            }];
+        }
+        if (existing.key !== data.key) {
+            console.warn(`[SECURITY] Key mismatch for ${data.id}!`);
+            keyChanged = true;
+            return list.map(c => c.id === data.id ? { ...c, securityWarning: true, pendingNewKey: data.key } : c);
+        }
+        if (avatar.avatar) replacedAvatar = existing.avatar;
+        return list.map(c => c.id === data.id
+            ? { ...c, name: data.name, ...(avatar.avatar ? avatar : {}), signingKey }
+            : c);
+    });
+    if (keyChanged) {
+        await deleteMedia(avatar.avatar);
+        emit('keyChanged', { contactId: data.id, name: data.name });
+        return;
+    }
+    if (replacedAvatar !== avatar.avatar) await deleteMedia(replacedAvatar);
+
+    emit(added ? 'contactAdded' : 'profileUpdated', { contactId: data.id });
+
+    if (Platform.OS === 'web') {
+        // Optional: keep console log for debugging
+        console.log(`[HANDSHAKE] New contact accepted: ${data.name}`);
+    }
+}
+
+// A contact rotated its identity key: re-key its entry and move its data to the new ID
+async function applyKeyRotation(sender: Contact, envelope: KeyRotationEnvelope) {
+    const signingKey = await verifyKeyRotation(envelope, sender);
+    if (!signingKey) {
+        console.warn(`[ROTATION] Rejected key rotation from ${sender.id}`);
+        return;
+    }
+
+    const id = deriveUserId(envelope.key);
+
+    // An entry already added under the new ID (new QR code) is merged into the existing one
+    await updateContacts(list => list.filter(c => c.id !== id).map(c => {
+        if (c.id !== sender.id) return c;
+        const { securityWarning, pendingNewKey, ...rest } = c;
+        return { ...rest, id, key: envelope.key, signingKey };
+    }));
+    await moveContactData(sender.id, id);
+    // The share we held was of the replaced key
+    await removeHeldShare(sender.id);
+    console.log(`[ROTATION] ${sender.id} is now ${id}`);
+    emit('signal', { contactId: sender.id, type: 'key_rotation' });
+}
+
+async function updateContactInfo(contactId: string, data: { pseudo: string, avatar: string | null }) {
+    const contact = await getContact(contactId);
+    if (!contact) return;
+
+    let avatar = await storeAvatar(data.avatar);
+    // An image that could not be saved leaves the current avatar
+    if (data.avatar && !avatar.avatar) avatar = { avatar: contact.avatar, avatarKey: contact.avatarKey };
+
+    if (contact.name !== data.pseudo || contact.avatar !== avatar.avatar) {
+        await updateContact(contactId, { name: data.pseudo, ...avatar });
+        if (contact.avatar !== avatar.avatar) await deleteMedia(contact.avatar);
+        emit('profileUpdated', { contactId });
+    }
+}
+
+async function deleteContactLocally(contactId: string) {
+    const contact = await getContact(contactId);
+    await deleteConversationData(contactId);
+    await removeHeldShare(contactId);
+    await deleteMedia(contact?.avatar);
+    // Contact and session go last: until then, the signal can still be decrypted and applied again
+    await removeContact(contactId);
+    await deleteSession(contactId);
+    sweepOrphanedMedia().catch(e => console.warn("[MEDIA] Sweep failed", e));
+}
@@ -0,0 +1,108 @@
+import { bytesToHex, sha256, utf8Encode } from '@/utils/CryptoPrimitives';
+
+/**
+ * User IDs.
+ *
+ * Current format: the first 120 bits of SHA-256(public key hex) in Crockford base32
+ * (24 characters) followed by a Luhn mod 32 check character, shown in groups of five.
+ * The check character catches any single mistyped character and swapped neighbours before
+ * a friend request leaves the phone.
+ *
+ * Legacy format: the first 12 hex characters of the same hash. The relay resolves either
+ * format to the same account while contacts migrate.
+ */
+
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ID_BYTES = 15;
+const ID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{25}$/;
+const LEGACY_ID_PATTERN = /^[A-F0-9]{12}$/;
+
+function encodeBase32(bytes: Uint8Array): string {
+    let out = '';
+    let buffer = 0;
+    let bits = 0;
+    for (const byte of bytes) {
+        buffer = (buffer << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            out += ALPHABET[(buffer >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+        buffer &= (1 << bits) - 1;
+    }
+    if (bits > 0) out += ALPHABET[(buffer << (5 - bits)) & 31];
+    return out;
+}
+
+// Luhn mod N over the base32 alphabet; `withCheck` = the last character is the check character
+function luhnSum(chars: string, withCheck: boolean): number {
+    let factor = withCheck ? 1 : 2;
+    let sum = 0;
+    for (let i = chars.length - 1; i >= 0; i--) {
+        const addend = factor * ALPHABET.indexOf(chars[i]);
+        sum += Math.floor(addend / 32) + (addend % 32);
+        factor = factor === 2 ? 1 : 2;
+    }
+    return sum % 32;
+}
+
+function checkCharacter(payload: string): string {
+    return ALPHABET[(32 - luhnSum(payload, false)) % 32];
+}
+
+function idHash(publicKeyHex: string): Uint8Array {
+    return sha256(utf8Encode(publicKeyHex.toLowerCase()));
+}
+
+/**
+ * ID of the account registered with this box public key
+ */
+export function deriveUserId(publicKeyHex: string): string {
+    const payload = encodeBase32(idHash(publicKeyHex).subarray(0, ID_BYTES));
+    return payload + checkCharacter(payload);
+}
+
+export function deriveLegacyUserId(publicKeyHex: string): string {
+    return bytesToHex(idHash(publicKeyHex)).substring(0, 12).toUpperCase();
+}
+
+export function isLegacyUserId(id: string): boolean {
+    return LEGACY_ID_PATTERN.test(id);
+}
+
+/**
+ * Canonical ID in either format (current IDs must carry a valid check character)
+ */
+export function isValidUserId(id: unknown): id is string {
+    if (typeof id !== 'string') return false;
+    if (LEGACY_ID_PATTERN.test(id)) return true;
+    return ID_PATTERN.test(id) && luhnSum(id, true) === 0;
+}
+
+/**
+ * True if `id` (either format) belongs to this public key
+ */
+export function userIdMatchesKey(id: string, publicKeyHex: string): boolean {
+    const normalized = id.toUpperCase();
+    return normalized === deriveUserId(publicKeyHex) || normalized === deriveLegacyUserId(publicKeyHex);
+}
+
+/**
+ * Parse a typed or pasted ID: separators and case are ignored, and the characters Crockford
+ * base32 leaves out are read as the digits they look like. Null if the ID is invalid.
+ */
+export function normalizeUserId(input: string): string | null {
+    const compact = input.toUpperCase().replace(/[\s-]/g, '');
+    if (LEGACY_ID_PATTERN.test(compact)) return compact;
+
+    const id = compact.replace(/O/g, '0').replace(/[IL]/g, '1');
+    return isValidUserId(id) ? id : null;
+}
+
+/**
+ * Display form: groups of five for current IDs, legacy IDs unchanged
+ */
+export function formatUserId(id: string): string {
+    if (!ID_PATTERN.test(id)) return id;
+    return (id.match(/.{1,5}/g) || []).join('-');
+}
@@ -0,0 +1,119 @@
+import nacl from '@/components/CryptoPolyfill';
+import { clearAuthCache } from '@/utils/AuthHelper';
+import { bytesToHex } from '@/utils/CryptoPrimitives';
+import { StretchedCode } from '@/utils/KeyDerivation';
+import { DECOY_VAULT, deleteVaultSecret, unlockVault, vaultKey, vaultOpensWith, wrapVaultSecret } from '@/utils/MasterKey';
+import { clearReplayGuardCache } from '@/utils/ReplayGuard';
+import { clearSecureStorageCache } from '@/utils/SecureStorage';
+import { encode as encodeBase64 } from 'base-64';
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * Vaults: independent identities on one install, next to the main one. Each vault has its own
+ * master secret wrapped under its own code (MasterKey), and its own copy of every stored key
+ * (vaultKey): encrypted storage, contacts, histories, settings, media directory. The code typed
+ * on the lock screen picks the vault, and each vault registers with the relay under its own
+ * identity once opened.
+ *
+ * A new vault holds a fresh secret and nothing else: opening it leads to the onboarding.
+ */
+
+export interface VaultInfo {
+    id: string;
+    createdAt: number;
+}
+
+export const MAX_VAULTS = 5;
+
+// IDs of the vaults the user created (the decoy of DuressPin is not listed)
+const VAULTS_KEY = "my_vaults_v1";
+// SecureStore keys a vault keeps under its own name, deleted with it
+const VAULT_SECURE_STORE_KEYS = [
+    "my_pending_secret_key_v1",
+    "my_previous_secret_key_v1",
+    "privacy_read_receipts",
+    "privacy_online_status",
+];
+
+const uint8ArrayToString = (arr: Uint8Array) => { let str = ''; for (let i = 0; i < arr.length; i++) str += String.fromCharCode(arr[i]); return str; };
+
+function parseVault(value: unknown): VaultInfo | null {
+    if (!value || typeof value !== 'object') return null;
+    const v = value as Record<string, unknown>;
+    if (typeof v.id !== 'string' || !/^vault_[0-9a-f]+$/.test(v.id)) return null;
+    return { id: v.id, createdAt: typeof v.createdAt === 'number' ? v.createdAt : 0 };
+}
+
+export async function listVaults(): Promise<VaultInfo[]> {
+    const json = await SecureStore.getItemAsync(VAULTS_KEY);
+    try {
+        const stored: unknown = json ? JSON.parse(json) : [];
+        return Array.isArray(stored) ? stored.map(parseVault).filter((v): v is VaultInfo => v !== null) : [];
+    } catch {
+        return [];
+    }
+}
+
+async function saveVaults(vaults: VaultInfo[]): Promise<void> {
+    if (vaults.length === 0) {
+        await SecureStore.deleteItemAsync(VAULTS_KEY);
+    } else {
+        await SecureStore.setItemAsync(VAULTS_KEY, JSON.stringify(vaults));
+    }
+}
+
+/**
+ * Create a vault opened by `code`. Null once MAX_VAULTS exist.
+ */
+export async function createVault(code: StretchedCode): Promise<VaultInfo | null> {
+    const vaults = await listVaults();
+    if (vaults.length >= MAX_VAULTS) return null;
+
+    const vault: VaultInfo = { id: `vault_${bytesToHex(nacl.randomBytes(4))}`, createdAt: Date.now() };
+    await wrapVaultSecret(vault.id, code, encodeBase64(uint8ArrayToString(nacl.box.keyPair().secretKey)));
+    await saveVaults([...vaults, vault]);
+    return vault;
+}
+
+/**
+ * The vault `code` opens, if any. Every vault is tried, so the time taken does not tell which.
+ */
+export async function findVault(code: StretchedCode): Promise<string | null> {
+    let found: string | null = null;
+    for (const vault of await listVaults()) {
+        if (await vaultOpensWith(vault.id, code)) found = found ?? vault.id;
+    }
+    return found;
+}
+
+/**
+ * Make `vault` the open one. Caches derived from the previous secret are dropped.
+ */
+export async function openVault(vault: string, code: StretchedCode): Promise<boolean> {
+    if (!(await unlockVault(vault, code))) return false;
+    clearAuthCache();
+    clearSecureStorageCache();
+    clearReplayGuardCache();
+    return true;
+}
+
+/**
+ * Forget a vault: its secret, its SecureStore keys and its place in the list. Its AsyncStorage
+ * keys and media directory are the caller's (see AccountWipe).
+ */
+export async function deleteVault(vault: string): Promise<void> {
+    await deleteVaultSecret(vault);
+    for (const key of VAULT_SECURE_STORE_KEYS) {
+        await SecureStore.deleteItemAsync(vaultKey(key, vault));
+    }
+    await saveVaults((await listVaults()).filter(v => v.id !== vault));
+}
+
+/**
+ * Forget every vault, the decoy included (account wipe)
+ */
+export async function deleteAllVaults(): Promise<void> {
+    for (const vault of [...(await listVaults()).map(v => v.id), DECOY_VAULT]) {
+        await deleteVault(vault);
+    }
+}